@@ -18,11 +18,11 @@ export const baseUiAdapter: LibraryAdapter = {
     categories: ['colors'] as TokenCategory[],
 
     async fetchAndParse(): Promise<ThemeResult> {
-        const { light, dark } = parseJsonTokens(baseUiTokens as Record<string, any>);
+        const { modes } = parseJsonTokens(baseUiTokens as Record<string, any>);
 
         return {
             type: 'theme',
-            tokens: { light, dark },
+            tokens: { modes },
         };
     },
 };
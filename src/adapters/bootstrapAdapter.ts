@@ -0,0 +1,76 @@
+// ─── Bootstrap 5 Adapter ─────────────────────────────────────────────────────
+// Fetches Bootstrap's scss/_variables.scss from GitHub and evaluates it with
+// the SCSS parser. Optional project overrides are applied the way a Sass
+// build would see them: before the import (so `!default` keeps them) and
+// again after it (so `map-merge` calls on Bootstrap maps resolve).
+
+import { fetchRawFromGitHub, rawGitHubUrl } from '../core/fetcher';
+import { parseScssTokens } from '../core/scssParser';
+import type { AdapterInput, LibraryAdapter, PrimitiveResult, TokenCategory } from './types';
+
+const BOOTSTRAP_OWNER = 'twbs';
+const BOOTSTRAP_REPO = 'bootstrap';
+const BOOTSTRAP_FILE = 'scss/_variables.scss';
+const BOOTSTRAP_TAG = 'v5.3.3';
+
+import fallbackScss from '../data/bootstrap-variables.scss?raw';
+
+/** Variables and maps that make up Bootstrap's design tokens. */
+const TOKEN_VARIABLES = [
+    // Palette: grays, hues with their 100-900 shades, theme colors
+    /^(white|black|gray-\d00)$/,
+    /^(blue|indigo|purple|pink|red|orange|yellow|green|teal|cyan)(-\d00)?$/,
+    /^(primary|secondary|success|info|warning|danger|light|dark)$/,
+    /^spacers$/,
+    /^border-radius(-(sm|lg|xl|xxl|pill))?$/,
+    /^border-width$/,
+    /^(font-size-(base|sm|lg)|h[1-6]-font-size|display-font-sizes)$/,
+    /^font-weight-(light|normal|medium|semibold|bold)$/,
+    /^line-height-(base|sm|lg)$/,
+    /^box-shadow(-(sm|lg|inset))?$/,
+    /^(grid-breakpoints|container-max-widths)$/,
+];
+
+export const bootstrapAdapter: LibraryAdapter = {
+    id: 'bootstrap',
+    name: 'Bootstrap 5',
+    description: 'Bootstrap 5 Sass variables, palette, theme colors, spacers, border radii, font sizes and shadows.',
+    icon: 'bootstrap',
+    repoUrl: `https://github.com/${BOOTSTRAP_OWNER}/${BOOTSTRAP_REPO}`,
+    type: 'primitives',
+    dependencies: [],
+    defaultCollectionName: 'Bootstrap',
+    categories: [
+        'colors', 'spacing', 'radius', 'borderWidth', 'shadows', 'typography',
+        'fontWeights', 'leading', 'breakpoints', 'containers',
+    ] as TokenCategory[],
+    source: {
+        format: 'scss',
+        label: 'Your SCSS variable overrides',
+        required: false,
+    },
+
+    async fetchAndParse(input?: AdapterInput): Promise<PrimitiveResult> {
+        let scss = '';
+        let sourceUrl: string | undefined;
+        try {
+            scss = await fetchRawFromGitHub(BOOTSTRAP_OWNER, BOOTSTRAP_REPO, BOOTSTRAP_FILE, BOOTSTRAP_TAG);
+            sourceUrl = rawGitHubUrl(BOOTSTRAP_OWNER, BOOTSTRAP_REPO, BOOTSTRAP_FILE, BOOTSTRAP_TAG);
+        } catch (error) {
+            console.warn('Failed to fetch Bootstrap variables from GitHub, using local fallback.', error);
+            scss = fallbackScss;
+        }
+
+        const overrides = input?.source || '';
+
+        return {
+            type: 'primitives',
+            tokens: parseScssTokens([overrides, scss, overrides].join('\n'), {
+                include: function (name) {
+                    return TOKEN_VARIABLES.some(function (pattern) { return pattern.test(name); });
+                },
+            }),
+            sourceUrl,
+        };
+    },
+};
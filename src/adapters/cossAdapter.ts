@@ -18,11 +18,11 @@ export const cossAdapter: LibraryAdapter = {
     categories: ['colors', 'radius'] as TokenCategory[],
 
     async fetchAndParse(): Promise<ThemeResult> {
-        const { light, dark } = parseJsonTokens(cossTokens as Record<string, any>);
+        const { modes } = parseJsonTokens(cossTokens as Record<string, any>);
 
         return {
             type: 'theme',
-            tokens: { light, dark },
+            tokens: { modes },
         };
     },
 };
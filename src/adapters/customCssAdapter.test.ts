@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { customCssAdapter } from './customCssAdapter';
+import type { CollectionsResult } from './types';
+
+const CSS = `
+:root {
+    --background: 0 0% 100%;
+    --foreground: 222.2 84% 4.9% / 50%;
+    --primary: var(--color-blue-600);
+    --accent: var(--violet-a9);
+    --ring: var(--primary);
+    --card: var(--surface, #fafafa);
+    --muted: var(--slate-3);
+    --slate-3: #f1f5f9;
+}
+.dark {
+    --background: 222.2 84% 4.9%;
+    --primary: var(--color-blue-400);
+}
+`;
+
+const parse = async (source: string) => (await customCssAdapter.fetchAndParse({ source }) as CollectionsResult).themes![0].modes;
+
+describe('customCssAdapter', () => {
+    it('wraps bare HSL channels and resolves var() within the mode', async () => {
+        const [light, dark] = await parse(CSS);
+        expect(light.tokens['--background']).toBe('hsl(0 0% 100%)');
+        expect(light.tokens['--foreground']).toBe('hsl(222.2 84% 4.9% / 50%)');
+        expect(light.tokens['--muted']).toBe('#f1f5f9');
+        expect(light.tokens['--card']).toBe('#fafafa');
+        expect(dark.tokens['--background']).toBe('hsl(222.2 84% 4.9%)');
+    });
+
+    it('aliases bare var() to a Tailwind or Radix palette step, alpha steps included', async () => {
+        const [light, dark] = await parse(CSS);
+        expect(light.aliases).toEqual({
+            '--primary': { category: 'colors', path: ['blue', '600'] },
+            '--accent': { category: 'colors', path: ['violet-a', '9'] },
+        });
+        expect(dark.aliases!['--primary']).toEqual({ category: 'colors', path: ['blue', '400'] });
+    });
+
+    it('leaves var() to a variable the mode defines as a value', async () => {
+        const [light] = await parse(CSS);
+        expect(light.aliases!['--muted']).toBeUndefined();
+        expect(light.aliases!['--ring']).toBeUndefined();
+    });
+
+    it('asks for a source', async () => {
+        await expect(customCssAdapter.fetchAndParse({})).rejects.toThrow('Paste or upload your globals.css');
+    });
+});
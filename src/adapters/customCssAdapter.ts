@@ -0,0 +1,95 @@
+// ─── Custom CSS Adapter ──────────────────────────────────────────────────────
+// Imports a user-supplied globals.css as a theme that aliases to Tailwind CSS
+// primitives. Every theme-defining selector (`:root`, `.dark`,
+// `[data-theme]`, `.theme-*`, `prefers-color-scheme`) becomes a mode.
+// Values that are a bare `var()` to a palette step become explicit aliases.
+
+import type { AdapterInput, CollectionsResult, LibraryAdapter, TokenCategory } from './types';
+import { parseThemeModes, type ThemeMode, type TokenReference } from '../core/parser';
+
+/** shadcn/ui v3 themes store bare HSL channels, e.g. "222.2 84% 4.9%". */
+const BARE_HSL = /^[\d.]+\s+[\d.]+%\s+[\d.]+%(\s*\/\s*[\d.]+%?)?$/;
+
+/**
+ * Make a mode's values readable by the color parser: resolve `var(--x)`
+ * against the same mode and wrap bare HSL channels in `hsl()`.
+ */
+function normalizeMode(tokens: Record<string, string>): Record<string, string> {
+    const result: Record<string, string> = {};
+
+    const resolve = function (value: string, depth: number): string {
+        return value.replace(/var\(\s*(--[\w-]+)\s*(?:,\s*([^)]+))?\)/g, function (match, name: string, fallback?: string) {
+            if (depth > 10) return match;
+            if (tokens[name] !== undefined) return resolve(tokens[name], depth + 1);
+            return fallback ? fallback.trim() : match;
+        });
+    };
+
+    for (const [name, value] of Object.entries(tokens)) {
+        const resolved = resolve(value, 0).trim();
+        result[name] = BARE_HSL.test(resolved) ? `hsl(${resolved})` : resolved;
+    }
+    return result;
+}
+
+/**
+ * The primitive color a palette variable names: Tailwind `--color-red-500`
+ * or Radix `--red-9` / `--red-a9`. Resolved against the alias target collection.
+ */
+function paletteReference(name: string): TokenReference | null {
+    const tailwind = name.match(/^--color-([a-z]+)-(\d+)$/);
+    if (tailwind) return { category: 'colors', path: [tailwind[1], tailwind[2]] };
+    const radix = name.match(/^--([a-z]+)-(a)?(\d{1,2})$/);
+    if (radix) return { category: 'colors', path: [radix[2] ? radix[1] + '-a' : radix[1], radix[3]] };
+    return null;
+}
+
+/** Tokens whose whole value is `var(--palette-step)` the mode doesn't define. */
+function paletteAliases(tokens: Record<string, string>): Record<string, TokenReference> {
+    const aliases: Record<string, TokenReference> = {};
+    for (const [name, value] of Object.entries(tokens)) {
+        const match = value.trim().match(/^var\(\s*(--[\w-]+)\s*\)$/);
+        if (!match || tokens[match[1]] !== undefined) continue;
+        const ref = paletteReference(match[1]);
+        if (ref) aliases[name] = ref;
+    }
+    return aliases;
+}
+
+export const customCssAdapter: LibraryAdapter = {
+    id: 'custom-css',
+    name: 'Custom CSS',
+    description: 'Your own globals.css, with `:root`, `.dark`, `[data-theme]` and `.theme-*` blocks imported as modes.',
+    icon: 'custom-css',
+    repoUrl: 'https://ui.shadcn.com/docs/theming',
+    type: 'theme',
+    dependencies: ['tailwindcss'],
+    defaultCollectionName: 'Theme',
+    categories: ['colors'] as TokenCategory[],
+    source: {
+        format: 'css',
+        label: 'globals.css',
+        required: true,
+    },
+
+    async fetchAndParse(input?: AdapterInput): Promise<CollectionsResult> {
+        if (!input?.source) {
+            throw new Error('Paste or upload your globals.css to import.');
+        }
+
+        const modes = parseThemeModes(input.source);
+        if (modes.length === 0) {
+            throw new Error('No theme variables found in the CSS (:root, .dark, [data-theme] or .theme-* blocks).');
+        }
+
+        return {
+            type: 'collections',
+            primitives: [],
+            themes: [{
+                modes: modes.map(function (mode): ThemeMode {
+                    return { name: mode.name, tokens: normalizeMode(mode.tokens), aliases: paletteAliases(mode.tokens) };
+                }),
+            }],
+        };
+    },
+};
@@ -0,0 +1,27 @@
+// ─── DaisyUI Adapter ─────────────────────────────────────────────────────────
+// Provides the built-in DaisyUI 5 themes from a local JSON file. Every theme
+// is a mode of one collection; pick the modes to keep in the mode editor.
+// Colors alias to Tailwind primitives where they match.
+
+import type { LibraryAdapter, ThemeResult, TokenCategory } from './types';
+import { parseDaisyuiThemes } from '../core/daisyuiThemes';
+import daisyuiThemes from '../data/daisyui-themes.json';
+
+export const daisyuiAdapter: LibraryAdapter = {
+    id: 'daisyui',
+    name: 'DaisyUI',
+    description: 'The built-in DaisyUI themes (light, dark, cupcake, dracula, ...) as modes, semantic colors plus radius and border sizes.',
+    icon: 'daisyui',
+    repoUrl: 'https://github.com/saadeghi/daisyui',
+    type: 'theme',
+    dependencies: ['tailwindcss'],
+    defaultCollectionName: 'DaisyUI',
+    categories: ['colors', 'radius', 'borderWidth'] as TokenCategory[],
+
+    async fetchAndParse(): Promise<ThemeResult> {
+        return {
+            type: 'theme',
+            tokens: { modes: parseDaisyuiThemes(daisyuiThemes as Record<string, Record<string, string>>) },
+        };
+    },
+};
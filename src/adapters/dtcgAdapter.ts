@@ -0,0 +1,44 @@
+// ─── DTCG Adapter ────────────────────────────────────────────────────────────
+// Imports a user-supplied W3C Design Tokens (DTCG) JSON file as primitives.
+// Token references become Figma variable aliases within the collection.
+
+import type { AdapterInput, LibraryAdapter, PrimitiveResult, TokenCategory } from './types';
+import { parseDtcgTokens } from '../core/dtcgParser';
+
+export const dtcgAdapter: LibraryAdapter = {
+    id: 'dtcg',
+    name: 'Design Tokens (DTCG)',
+    description: 'Your own W3C Design Tokens JSON file, with references imported as variable aliases.',
+    icon: 'dtcg',
+    repoUrl: 'https://github.com/design-tokens/community-group',
+    type: 'primitives',
+    dependencies: [],
+    defaultCollectionName: 'Design Tokens',
+    categories: [
+        'colors', 'spacing', 'radius', 'shadows', 'blur', 'typography', 'opacity',
+        'breakpoints', 'containers', 'fontWeights', 'tracking', 'leading', 'borderWidth', 'easing',
+    ] as TokenCategory[],
+    source: {
+        format: 'json',
+        label: 'DTCG token file (.tokens.json)',
+        required: true,
+    },
+
+    async fetchAndParse(input?: AdapterInput): Promise<PrimitiveResult> {
+        if (!input?.source) {
+            throw new Error('Paste or upload a DTCG token file to import.');
+        }
+
+        let tree: Record<string, any>;
+        try {
+            tree = JSON.parse(input.source);
+        } catch (error) {
+            throw new Error('The DTCG token file is not valid JSON.');
+        }
+
+        return {
+            type: 'primitives',
+            tokens: parseDtcgTokens(tree),
+        };
+    },
+};
@@ -0,0 +1,51 @@
+// ─── Material 3 Adapter ──────────────────────────────────────────────────────
+// Imports a user-supplied Material Theme Builder JSON export. The tonal
+// palettes become a primitive collection; each scheme (light, dark,
+// light-medium-contrast, ...) becomes a mode of the theme collection, with
+// role tokens aliased to palette tones.
+
+import type { AdapterInput, CollectionsResult, LibraryAdapter, TokenCategory } from './types';
+import { parseMaterialTheme } from '../core/materialThemeParser';
+
+const PALETTE_COLLECTION = 'Material Palettes';
+
+export const materialAdapter: LibraryAdapter = {
+    id: 'material-3',
+    name: 'Material 3',
+    description: 'Your Material Theme Builder export, tonal palettes as primitives and schemes as modes.',
+    icon: 'material-3',
+    repoUrl: 'https://github.com/material-foundation/material-theme-builder',
+    type: 'theme',
+    dependencies: [],
+    defaultCollectionName: 'Material Theme',
+    categories: ['colors'] as TokenCategory[],
+    source: {
+        format: 'json',
+        label: 'Material Theme Builder export (material-theme.json)',
+        required: true,
+    },
+
+    async fetchAndParse(input?: AdapterInput): Promise<CollectionsResult> {
+        if (!input?.source) {
+            throw new Error('Paste or upload a Material Theme Builder export to import.');
+        }
+
+        let data: Record<string, any>;
+        try {
+            data = JSON.parse(input.source);
+        } catch (error) {
+            throw new Error('The Material Theme Builder export is not valid JSON.');
+        }
+
+        const { palettes, modes } = parseMaterialTheme(data, PALETTE_COLLECTION);
+        if (palettes.colors.length === 0 && modes.length === 0) {
+            throw new Error('No `palettes` or `schemes` found in the Material Theme Builder export.');
+        }
+
+        return {
+            type: 'collections',
+            primitives: palettes.colors.length > 0 ? [{ collectionName: PALETTE_COLLECTION, tokens: palettes }] : [],
+            themes: modes.length > 0 ? [{ modes }] : undefined,
+        };
+    },
+};
@@ -0,0 +1,31 @@
+// ─── Open Props Adapter ──────────────────────────────────────────────────────
+// Provides Open Props (colors, sizes, radii, borders, shadows, easings and
+// font scales) from a bundled copy of its CSS, mapped onto the same token
+// categories as Tailwind.
+
+import { parseOpenProps } from '../core/openPropsParser';
+import type { LibraryAdapter, PrimitiveResult, TokenCategory } from './types';
+
+import openPropsCss from '../data/open-props.css?raw';
+
+export const openPropsAdapter: LibraryAdapter = {
+    id: 'open-props',
+    name: 'Open Props',
+    description: 'Open Props custom properties, gray and hue scales, sizes, radii, shadows, easings and font sizes.',
+    icon: 'open-props',
+    repoUrl: 'https://github.com/argyleink/open-props',
+    type: 'primitives',
+    dependencies: [],
+    defaultCollectionName: 'Open Props',
+    categories: [
+        'colors', 'spacing', 'radius', 'borderWidth', 'shadows', 'typography',
+        'fontWeights', 'tracking', 'leading', 'easing',
+    ] as TokenCategory[],
+
+    async fetchAndParse(): Promise<PrimitiveResult> {
+        return {
+            type: 'primitives',
+            tokens: parseOpenProps(openPropsCss),
+        };
+    },
+};
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { radixAdapter } from './radixAdapter';
+import type { CollectionsResult } from './types';
+import { parseColorValue } from '../core/colorUtils';
+
+const parse = async () => (await radixAdapter.fetchAndParse() as CollectionsResult).themes![0].modes;
+
+describe('radixAdapter', () => {
+    it('provides every scale with Light and Dark modes', async () => {
+        const modes = await parse();
+        expect(modes.map((m) => m.name)).toEqual(['Light', 'Dark']);
+        expect(parseColorValue(modes[0].tokens['colors/blue/9'])).toMatchObject({ a: 1 });
+    });
+
+    it('keeps the alpha of alpha steps and overlays', async () => {
+        const [light, dark] = await parse();
+        expect(parseColorValue(light.tokens['colors/blue-a/2'])!.a).toBeCloseTo(0x0b / 255, 3);
+        expect(parseColorValue(dark.tokens['colors/amber-a/7'])!.a).toBeCloseTo(0x67 / 255, 3);
+        expect(parseColorValue(light.tokens['colors/black-a/5'])!.a).toBeCloseTo(0.3, 3);
+        expect(parseColorValue(dark.tokens['colors/white-a/12'])!.a).toBeCloseTo(0.95, 3);
+    });
+});
@@ -0,0 +1,32 @@
+// ─── Radix Colors Adapter ────────────────────────────────────────────────────
+// Provides the Radix Colors 12-step scales from a local JSON file: every
+// scale and its `-a` alpha scale with Light/Dark modes, plus the black and
+// white alpha overlays. Themes can alias to it instead of Tailwind CSS.
+
+import type { CollectionsResult, LibraryAdapter, TokenCategory } from './types';
+import { parseJsonTokens } from '../core/jsonTokenParser';
+import radixTokens from '../data/radix-colors.tokens.json';
+
+export const radixAdapter: LibraryAdapter = {
+    id: 'radix-colors',
+    name: 'Radix Colors',
+    description: '12-step color scales with matching alpha scales, Light/Dark modes.',
+    icon: 'radix-colors',
+    repoUrl: 'https://github.com/radix-ui/colors',
+    type: 'primitives',
+    dependencies: [],
+    defaultCollectionName: 'Radix',
+    categories: ['colors'] as TokenCategory[],
+    aliasTarget: true,
+
+    async fetchAndParse(): Promise<CollectionsResult> {
+        const { modes } = parseJsonTokens(radixTokens as Record<string, any>);
+
+        // Keys are already variable names (colors/blue/9, colors/blue-a/9)
+        return {
+            type: 'collections',
+            primitives: [],
+            themes: [{ modes }],
+        };
+    },
+};
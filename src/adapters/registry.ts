@@ -6,6 +6,15 @@ import { tailwindAdapter } from './tailwindAdapter';
 import { shadcnAdapter } from './shadcnAdapter';
 import { baseUiAdapter } from './baseUiAdapter';
 import { cossAdapter } from './cossAdapter';
+import { dtcgAdapter } from './dtcgAdapter';
+import { tokensStudioAdapter } from './tokensStudioAdapter';
+import { customCssAdapter } from './customCssAdapter';
+import { tailwindV3Adapter } from './tailwindV3Adapter';
+import { bootstrapAdapter } from './bootstrapAdapter';
+import { radixAdapter } from './radixAdapter';
+import { materialAdapter } from './materialAdapter';
+import { daisyuiAdapter } from './daisyuiAdapter';
+import { openPropsAdapter } from './openPropsAdapter';
 
 /** All registered adapters, keyed by ID. */
 const adapters = new Map<string, LibraryAdapter>([
@@ -13,6 +22,15 @@ const adapters = new Map<string, LibraryAdapter>([
     [shadcnAdapter.id, shadcnAdapter],
     [baseUiAdapter.id, baseUiAdapter],
     [cossAdapter.id, cossAdapter],
+    [dtcgAdapter.id, dtcgAdapter],
+    [tokensStudioAdapter.id, tokensStudioAdapter],
+    [customCssAdapter.id, customCssAdapter],
+    [tailwindV3Adapter.id, tailwindV3Adapter],
+    [bootstrapAdapter.id, bootstrapAdapter],
+    [radixAdapter.id, radixAdapter],
+    [materialAdapter.id, materialAdapter],
+    [daisyuiAdapter.id, daisyuiAdapter],
+    [openPropsAdapter.id, openPropsAdapter],
 ]);
 
 /** Get all available adapters. */
@@ -25,6 +43,11 @@ export function getAdapter(id: string): LibraryAdapter | undefined {
     return adapters.get(id);
 }
 
+/** Primitive adapters that theme adapters can alias to. */
+export function getAliasTargets(): LibraryAdapter[] {
+    return getAllAdapters().filter(function (a) { return a.aliasTarget; });
+}
+
 /**
  * Get an adapter along with all its dependencies (in import order).
  * Dependencies come first in the returned array.
@@ -56,9 +79,10 @@ export function getAdapterWithDeps(id: string): LibraryAdapter[] {
 
 /**
  * Get a list of unique adapters for the given IDs, with all dependencies resolved.
- * Ensures dependencies come before dependents.
+ * Ensures dependencies come before dependents. `aliasTargets` maps a theme
+ * adapter ID to the alias target that replaces its Tailwind CSS dependency.
  */
-export function resolveAdapters(ids: string[]): LibraryAdapter[] {
+export function resolveAdapters(ids: string[], aliasTargets?: Record<string, string>): LibraryAdapter[] {
     const result: LibraryAdapter[] = [];
     const visited = new Set<string>();
 
@@ -70,8 +94,9 @@ export function resolveAdapters(ids: string[]): LibraryAdapter[] {
         if (!a) return;
 
         // Resolve dependencies first
+        const target = aliasTargets && aliasTargets[adapterId];
         for (const depId of a.dependencies) {
-            resolve(depId);
+            resolve(target && depId === 'tailwindcss' ? target : depId);
         }
         result.push(a);
     }
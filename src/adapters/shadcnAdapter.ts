@@ -37,7 +37,12 @@ export const shadcnAdapter: LibraryAdapter = {
 
         return {
             type: 'theme',
-            tokens: { light, dark },
+            tokens: {
+                modes: [
+                    { name: 'Light', tokens: light },
+                    { name: 'Dark', tokens: dark },
+                ],
+            },
         };
     },
 };
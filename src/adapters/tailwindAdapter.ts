@@ -1,15 +1,26 @@
 // ─── Tailwind CSS v4 Adapter ─────────────────────────────────────────────────
-// Fetches the official Tailwind CSS v4 theme.css from GitHub and parses it
-// into Figma-compatible primitive tokens.
-
-import { fetchRawFromGitHub } from '../core/fetcher';
-import { parseThemeBlock, categorizeTokens, extractCSSVariables } from '../core/parser';
-import type { LibraryAdapter, PrimitiveResult, TokenCategory } from './types';
+// Fetches the official Tailwind CSS v4 theme.css from GitHub, at `main` or
+// at the release tag or commit the document is pinned to, and parses it
+// into Figma-compatible primitive tokens. An optional project stylesheet's
+// @theme blocks are layered on top, as the Tailwind compiler would.
+
+import { fetchGitHubReleases, fetchRawFromGitHub, rawGitHubUrl } from '../core/fetcher';
+import {
+    parseThemeBlock,
+    categorizeTokens,
+    extractCSSVariables,
+    parseThemeOverrides,
+    mergeThemeVariables,
+    isNamespaceCleared,
+} from '../core/parser';
+import type { AdapterInput, LibraryAdapter, PrimitiveResult, TokenCategory } from './types';
 
 const TAILWIND_OWNER = 'tailwindlabs';
 const TAILWIND_REPO = 'tailwindcss';
 const TAILWIND_FILE = 'packages/tailwindcss/theme.css';
 const TAILWIND_BRANCH = 'main';
+/** Release tags whose theme.css this adapter understands */
+const TAILWIND_RELEASE = /^v4\.\d+\.\d+$/;
 
 import fallbackCss from '../data/tailwind.css?raw';
 
@@ -26,18 +37,34 @@ export const tailwindAdapter: LibraryAdapter = {
         'colors', 'spacing', 'radius', 'shadows', 'blur', 'typography',
         'opacity', 'breakpoints', 'containers', 'fontWeights', 'tracking', 'leading',
     ] as TokenCategory[],
+    source: {
+        format: 'css',
+        label: 'Project CSS with @theme overrides',
+        required: false,
+    },
+    aliasTarget: true,
+
+    async listVersions(): Promise<string[]> {
+        const tags = await fetchGitHubReleases(TAILWIND_OWNER, TAILWIND_REPO);
+        return tags.filter((tag) => TAILWIND_RELEASE.test(tag));
+    },
 
-    async fetchAndParse(): Promise<PrimitiveResult> {
+    async fetchAndParse(input?: AdapterInput): Promise<PrimitiveResult> {
+        const ref = input?.ref || TAILWIND_BRANCH;
         let css = '';
+        let sourceUrl: string | undefined;
         try {
             // Fetch the theme.css from GitHub
             css = await fetchRawFromGitHub(
                 TAILWIND_OWNER,
                 TAILWIND_REPO,
                 TAILWIND_FILE,
-                TAILWIND_BRANCH
+                ref
             );
+            sourceUrl = rawGitHubUrl(TAILWIND_OWNER, TAILWIND_REPO, TAILWIND_FILE, ref);
         } catch (error) {
+            // A pinned version must never quietly become the bundled one
+            if (input?.ref) throw error;
             console.warn('Failed to fetch Tailwind CSS from GitHub, using local fallback.', error);
             css = fallbackCss;
         }
@@ -50,6 +77,12 @@ export const tailwindAdapter: LibraryAdapter = {
             vars = extractCSSVariables(css);
         }
 
+        // Layer the project's @theme blocks over the defaults
+        const overrides = input?.source ? parseThemeOverrides(input.source) : [];
+        if (overrides.length > 0) {
+            vars = mergeThemeVariables(vars, overrides);
+        }
+
         // Categorize into typed token groups
         const tokens = categorizeTokens(vars);
 
@@ -106,6 +139,7 @@ export const tailwindAdapter: LibraryAdapter = {
             'black': 900
         };
         Object.entries(weightMap).forEach(([key, val]) => {
+            if (isNamespaceCleared(overrides, '--font-weight')) return;
             if (!tokens.fontWeights.some(t => t.path[0] === key)) {
                 tokens.fontWeights.push({
                     path: [key],
@@ -118,8 +152,10 @@ export const tailwindAdapter: LibraryAdapter = {
         // ─── Map Zinc to Neutral (Phase 24) ───
         // User requested consistency: replace logic for Zinc with Neutral
         // We'll find Neutral tokens and overwrite/alias Zinc tokens to match them.
+        // Skipped when the project defines its own zinc scale.
         const neutralTokens = tokens.colors.filter(c => c.path[0] === 'neutral');
-        if (neutralTokens.length > 0) {
+        const customZinc = overrides.some(v => v.name.startsWith('--color-zinc-'));
+        if (neutralTokens.length > 0 && !customZinc) {
             // Remove existing Zinc tokens
             tokens.colors = tokens.colors.filter(c => c.path[0] !== 'zinc');
 
@@ -141,6 +177,7 @@ export const tailwindAdapter: LibraryAdapter = {
             'widest': 0.1
         };
         Object.entries(trackingMap).forEach(([key, val]) => {
+            if (isNamespaceCleared(overrides, '--tracking')) return;
             if (!tokens.tracking.some(t => t.path[0] === key)) {
                 tokens.tracking.push({
                     path: [key],
@@ -150,8 +187,8 @@ export const tailwindAdapter: LibraryAdapter = {
             }
         });
 
-        // Colors: Base (White, Black)
-        if (!tokens.colors.some(c => c.path[0] === 'base')) {
+        // Colors: Base (White, Black), unless the project reset the palette
+        if (!tokens.colors.some(c => c.path[0] === 'base') && !isNamespaceCleared(overrides, '--color')) {
             tokens.colors.push({
                 path: ['base', 'white'],
                 figmaColor: { r: 1, g: 1, b: 1, a: 1 },
@@ -167,6 +204,7 @@ export const tailwindAdapter: LibraryAdapter = {
         return {
             type: 'primitives',
             tokens,
+            sourceUrl,
         };
     },
 };
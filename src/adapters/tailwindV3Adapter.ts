@@ -0,0 +1,45 @@
+// ─── Tailwind CSS v3 Adapter ─────────────────────────────────────────────────
+// Imports a user-supplied Tailwind v3 `theme` object (JSON, or a config
+// evaluated with resolveConfig) as primitives, using the same categories
+// as the v4 adapter.
+
+import type { AdapterInput, LibraryAdapter, PrimitiveResult, TokenCategory } from './types';
+import { parseTailwindConfig } from '../core/tailwindConfigParser';
+
+export const tailwindV3Adapter: LibraryAdapter = {
+    id: 'tailwind-v3',
+    name: 'Tailwind CSS v3 Config',
+    description: 'Your tailwind.config.js theme (and theme.extend) as JSON, mapped to the v4 token categories.',
+    icon: 'tailwind',
+    repoUrl: 'https://v3.tailwindcss.com/docs/theme',
+    type: 'primitives',
+    dependencies: [],
+    defaultCollectionName: 'Tailwind v3',
+    categories: [
+        'colors', 'spacing', 'radius', 'shadows', 'typography',
+        'breakpoints', 'fontWeights', 'tracking', 'leading',
+    ] as TokenCategory[],
+    source: {
+        format: 'json',
+        label: 'Tailwind v3 theme (JSON)',
+        required: true,
+    },
+
+    async fetchAndParse(input?: AdapterInput): Promise<PrimitiveResult> {
+        if (!input?.source) {
+            throw new Error('Paste or upload your Tailwind v3 theme to import.');
+        }
+
+        let config: Record<string, any>;
+        try {
+            config = JSON.parse(input.source);
+        } catch (error) {
+            throw new Error('The Tailwind v3 theme is not valid JSON. Export it with JSON.stringify(resolveConfig(config).theme).');
+        }
+
+        return {
+            type: 'primitives',
+            tokens: parseTailwindConfig(config),
+        };
+    },
+};
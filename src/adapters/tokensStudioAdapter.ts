@@ -0,0 +1,53 @@
+// ─── Tokens Studio Adapter ───────────────────────────────────────────────────
+// Imports a user-supplied Tokens Studio (Figma Tokens) JSON export.
+// Source token sets become primitive collections; each `$themes` entry
+// becomes a mode of its group's theme collection, aliased to those
+// primitives. Ungrouped themes share the collection named for the import.
+
+import type { AdapterInput, CollectionsResult, LibraryAdapter, TokenCategory } from './types';
+import { parseTokensStudio } from '../core/tokensStudioParser';
+
+export const tokensStudioAdapter: LibraryAdapter = {
+    id: 'tokens-studio',
+    name: 'Tokens Studio',
+    description: 'Your Tokens Studio export, source sets as primitive collections and themes as modes.',
+    icon: 'tokens-studio',
+    repoUrl: 'https://github.com/tokens-studio/figma-plugin',
+    type: 'theme',
+    dependencies: [],
+    defaultCollectionName: 'Tokens Studio',
+    categories: [
+        'colors', 'spacing', 'radius', 'shadows', 'typography', 'opacity',
+        'fontWeights', 'tracking', 'leading', 'borderWidth',
+    ] as TokenCategory[],
+    source: {
+        format: 'json',
+        label: 'Tokens Studio export (single file)',
+        required: true,
+    },
+
+    async fetchAndParse(input?: AdapterInput): Promise<CollectionsResult> {
+        if (!input?.source) {
+            throw new Error('Paste or upload a Tokens Studio export to import.');
+        }
+
+        let data: Record<string, any>;
+        try {
+            data = JSON.parse(input.source);
+        } catch (error) {
+            throw new Error('The Tokens Studio export is not valid JSON.');
+        }
+
+        const { sets, themes } = parseTokensStudio(data);
+
+        return {
+            type: 'collections',
+            primitives: sets.map(function (set) {
+                return { collectionName: set.name, tokens: set.tokens };
+            }),
+            themes: themes.map(function (theme) {
+                return { collectionName: theme.group, modes: theme.modes };
+            }),
+        };
+    },
+};
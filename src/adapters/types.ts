@@ -1,7 +1,7 @@
 // ─── Adapter Types ───────────────────────────────────────────────────────────
 // Defines the interface all library adapters must implement.
 
-import type { ParsedTokenSet, ThemeTokens } from '../core/parser';
+import type { ParsedTokenSet, ThemeMode, ThemeTokens } from '../core/parser';
 
 // ─── Token Categories ────────────────────────────────────────────────────────
 
@@ -20,7 +20,8 @@ export type TokenCategory =
     | 'leading'
     | 'maxWidth'
     | 'borderWidth'
-    | 'skew';
+    | 'skew'
+    | 'easing';
 
 export const ALL_CATEGORIES: TokenCategory[] = [
     'colors',
@@ -38,6 +39,7 @@ export const ALL_CATEGORIES: TokenCategory[] = [
     'maxWidth',
     'borderWidth',
     'skew',
+    'easing',
 ];
 
 // ─── Adapter Interface ───────────────────────────────────────────────────────
@@ -72,22 +74,86 @@ export interface LibraryAdapter {
     /** Supported token categories */
     categories: TokenCategory[];
 
+    /** User-supplied source file, for adapters that import the user's own tokens */
+    source?: AdapterSource;
+
+    /**
+     * Primitive adapters whose collection theme adapters may alias to in
+     * place of Tailwind CSS (see `getAliasTargets`)
+     */
+    aliasTarget?: boolean;
+
+    /**
+     * Release tags of the upstream source, newest first, for adapters that
+     * fetch it from GitHub and accept `AdapterInput.ref`
+     */
+    listVersions?(): Promise<string[]>;
+
     /**
      * Fetch and parse all tokens.
      * For 'primitives' adapters: returns ParsedTokenSet
-     * For 'theme' adapters: returns ThemeTokens
+     * For 'theme' adapters: returns ThemeTokens (one entry per mode)
+     * Adapters that span several collections return CollectionsResult
      */
-    fetchAndParse(): Promise<PrimitiveResult | ThemeResult>;
+    fetchAndParse(input?: AdapterInput): Promise<PrimitiveResult | ThemeResult | CollectionsResult>;
+}
+
+export interface AdapterSource {
+    /** File format the adapter expects */
+    format: 'json' | 'css' | 'scss';
+
+    /** Label shown above the paste / upload field */
+    label: string;
+
+    /** Whether the import can run without a source */
+    required: boolean;
+}
+
+export interface AdapterInput {
+    /** Raw text the user pasted or uploaded */
+    source?: string;
+
+    /** Tag, branch or commit SHA to fetch the upstream source at */
+    ref?: string;
 }
 
 export interface PrimitiveResult {
     type: 'primitives';
     tokens: ParsedTokenSet;
+    /** URL the tokens were fetched from; omitted for bundled data */
+    sourceUrl?: string;
 }
 
 export interface ThemeResult {
     type: 'theme';
     tokens: ThemeTokens;
+    /** URL the tokens were fetched from; omitted for bundled data */
+    sourceUrl?: string;
+}
+
+/**
+ * Several primitive collections, optionally followed by theme collections
+ * whose modes alias into them. Primitives are imported in array order.
+ * For 'primitives' adapters the theme collection holds raw values per mode
+ * (e.g. Radix Light/Dark scales) and is not aliased.
+ */
+export interface CollectionsResult {
+    type: 'collections';
+    primitives: NamedTokenSet[];
+    themes?: ThemeCollection[];
+    /** URL the tokens were fetched from; omitted for bundled data */
+    sourceUrl?: string;
+}
+
+export interface NamedTokenSet {
+    collectionName: string;
+    tokens: ParsedTokenSet;
+}
+
+export interface ThemeCollection {
+    /** Defaults to the collection name chosen for the import */
+    collectionName?: string;
+    modes: ThemeMode[];
 }
 
 // ─── Preview Types ───────────────────────────────────────────────────────────
@@ -157,6 +223,9 @@ export function buildPreviewTree(tokens: ParsedTokenSet): PreviewNode[] {
     if (tokens.maxWidth.length > 0) {
         nodes.push({ label: 'Max Width', count: tokens.maxWidth.length });
     }
+    if (tokens.easing.length > 0) {
+        nodes.push({ label: 'Easing', count: tokens.easing.length });
+    }
 
     return nodes;
 }
@@ -165,19 +234,18 @@ export function buildPreviewTree(tokens: ParsedTokenSet): PreviewNode[] {
  * Build a preview tree from theme tokens.
  */
 export function buildThemePreviewTree(tokens: ThemeTokens): PreviewNode[] {
-    var allKeys = new Set([
-        ...Object.keys(tokens.light),
-        ...Object.keys(tokens.dark),
-    ]);
+    var allKeys = new Set<string>();
+    tokens.modes.forEach(function (mode) {
+        Object.keys(mode.tokens).forEach(function (key) { allKeys.add(key); });
+    });
 
     return [
         {
             label: 'Theme Tokens',
             count: allKeys.size,
-            children: [
-                { label: 'Light Mode', count: Object.keys(tokens.light).length },
-                { label: 'Dark Mode', count: Object.keys(tokens.dark).length },
-            ],
+            children: tokens.modes.map(function (mode) {
+                return { label: mode.name + ' Mode', count: Object.keys(mode.tokens).length };
+            }),
         },
     ];
 }
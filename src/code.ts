@@ -2,12 +2,34 @@
 // Runs in Figma's sandbox. Handles messages from the UI and delegates
 // to the core engine for variable creation.
 
-import { resolveAdapters } from './adapters/registry';
-import type { PrimitiveResult, ThemeResult } from './adapters/types';
-import { importPrimitives, importThemeTokens } from './core/figmaSync';
-import type { UIMessage, ImportPayload } from './shared/messaging';
+import { getAdapter, resolveAdapters } from './adapters/registry';
+import type { CollectionsResult, LibraryAdapter, PrimitiveResult, ThemeResult, TokenCategory } from './adapters/types';
+import {
+    importPrimitives,
+    importThemeTokens,
+    type ImportOptions,
+    type ImportProgress,
+    type PrimitiveImportResult,
+    type ThemeImportOptions,
+    type ThemeImportResult,
+    timePhases,
+    writtenStyleNames,
+} from './core/figmaSync';
+import { findTypeChanges, planImport, type ImportJob } from './core/importPlan';
+import { openImportSession, type ImportSession } from './core/variableManager';
+import { pruneManaged } from './core/prune';
+import type { ImportOrigin } from './core/provenance';
+import { checkVersion, readPinnedRef, writePinnedRef } from './core/sourceVersions';
+import { rollBackImport, summarizeSnapshot, takeSnapshot } from './core/snapshot';
+import { holdLocalEdits, restoreLocalEdits, type HeldEdits } from './core/conflicts';
+import { applyRenames } from './core/renames';
+import type { UIMessage, ImportPayload, ExportPayload, ModeSettings } from './shared/messaging';
 import { postToUI } from './shared/messaging';
-import type { ParsedTokenSet } from './core/parser';
+import type { ParsedTokenSet, ThemeMode } from './core/parser';
+import { listCollections, readCollection, readStyles } from './core/variableReader';
+import { exportTailwindTheme } from './core/tailwindExporter';
+import { exportShadcnGlobals } from './core/shadcnExporter';
+import { exportDtcgTokens } from './core/dtcgExporter';
 
 // ─── Show UI ─────────────────────────────────────────────────────────────────
 
@@ -22,10 +44,36 @@ figma.showUI(__html__, {
 
 figma.ui.onmessage = function (msg: UIMessage) {
     switch (msg.type) {
+        case 'PLAN_IMPORT':
+            handlePlan(msg.payload);
+            break;
+
         case 'IMPORT_TOKENS':
             handleImport(msg.payload);
             break;
 
+        case 'LIST_COLLECTIONS':
+            listCollections().then(function (collections) {
+                postToUI({ type: 'COLLECTIONS', collections: collections });
+            });
+            break;
+
+        case 'EXPORT_TOKENS':
+            handleExport(msg.payload);
+            break;
+
+        case 'CHECK_VERSION':
+            handleVersionCheck(msg.adapterId);
+            break;
+
+        case 'CHECK_SNAPSHOT':
+            postToUI({ type: 'SNAPSHOT_STATUS', snapshot: summarizeSnapshot() });
+            break;
+
+        case 'ROLLBACK_IMPORT':
+            handleRollback();
+            break;
+
         case 'CLOSE':
             figma.closePlugin();
             break;
@@ -35,114 +83,377 @@ figma.ui.onmessage = function (msg: UIMessage) {
 // ─── Import ──────────────────────────────────────────────────────────────────
 
 /**
- * Fetch tokens from GitHub, then import directly into Figma.
- * No preview step, goes straight from config to import.
+ * The jobs behind the last plan shown. Confirming imports exactly these, so a
+ * source that changes between the plan and the confirm can't slip in changes
+ * the plan didn't show.
+ */
+var plannedJobs: ImportJob[] | null = null;
+
+/**
+ * Import the planned tokens into Figma. The UI asks for a plan first
+ * (`PLAN_IMPORT`) and only sends this once the user confirms; without a
+ * plan, the sources are fetched now.
+ * Nothing is written when a variable would change type, which Figma can't
+ * do. The collections and styles are snapshotted first so the import can be
+ * rolled back. Renamed variables are renamed in place before the jobs run,
+ * and the local edits the conflict policy keeps are set aside and written
+ * back once they have. Progress reports carry how long each phase took.
  */
 function handleImport(payload: ImportPayload): void {
+    var totalCreated = 0;
+    var warnings: string[] = [];
+    var held: HeldEdits = new Map();
+    var kept = 0;
+    var renamed = 0;
+    var timer = timePhases(function (progress: ImportProgress) {
+        postToUI({ type: 'IMPORT_PROGRESS', progress: progress });
+    });
+    var onProgress = timer.onProgress;
+
+    onProgress({ current: 0, total: 1, phase: 'Init', message: 'Starting import...' });
+
+    var planned = plannedJobs;
+    plannedJobs = null;
+    (planned ? Promise.resolve(planned) : buildImportJobs(payload)).then(function (jobs) {
+        return findTypeChanges(jobs, payload.renames).then(function (typeChanges) {
+            if (typeChanges.length > 0) {
+                var more = typeChanges.length - 1;
+                throw new Error(typeChanges[0] + (more > 0 ? ' ' + more + (more === 1 ? ' more variable has' : ' more variables have') + ' the same problem.' : ''));
+            }
+            return jobs;
+        });
+    }).then(function (jobs) {
+        onProgress({ current: 0, total: 1, phase: 'Snapshot', message: 'Snapshotting collections and styles...' });
+        var collectionNames = jobs.map(function (job) { return job.options.collectionName; });
+        var styleNames: string[] = [];
+        jobs.forEach(function (job) {
+            if (job.kind === 'primitives') styleNames.push(...writtenStyleNames(job.tokens, job.options));
+        });
+        var origin = jobs.length > 0 ? jobs[0].options.origin : undefined;
+        var importedAt = origin ? origin.importedAt : new Date().toISOString();
+        return takeSnapshot(collectionNames, importedAt, styleNames, payload.prune ? payload.prune.ids : []).then(function () {
+            return applyRenames(payload.renames || []);
+        }).then(function (count) {
+            renamed = count;
+            return holdLocalEdits(collectionNames, payload.conflicts);
+        }).then(function (edits) {
+            held = edits;
+            return openImportSession();
+        }).then(function (session) {
+            return { jobs: jobs, session: session };
+        });
+    }).then(function (run: { jobs: ImportJob[]; session: ImportSession }) {
+        // One session indexes the file's variables for every job
+        var session = run.session;
+        var chain: Promise<unknown> = Promise.resolve();
+        run.jobs.forEach(function (job) {
+            chain = chain.then(function () {
+                if (job.kind === 'primitives') {
+                    // importPrimitives is now async (font loading)
+                    return importPrimitives(job.tokens, job.options, onProgress, session).then(function (primitiveResult) {
+                        warnings.push(...(job.tokens.warnings || []));
+                        warnings.push(...describeFontFallbacks(primitiveResult));
+                        totalCreated += countPrimitiveTokens(job.tokens);
+                    });
+                }
+                return importThemeTokens(job.options, onProgress, session).then(function (themeResult) {
+                    warnings.push(...describeMissingModes(themeResult));
+                    totalCreated += countThemeTokens(job.options.modes);
+                });
+            });
+        });
+        return chain;
+    }).then(function () {
+        return restoreLocalEdits(held);
+    }).then(function (count) {
+        kept = count;
+        if (!payload.prune || payload.prune.ids.length === 0) return 0;
+        onProgress({ current: 1, total: 1, phase: 'Prune', message: 'Pruning variables and styles no longer in the source...' });
+        return pruneManaged(payload.prune.ids, payload.prune.mode);
+    }).then(function (pruned) {
+        var refs = payload.refs || {};
+        Object.keys(refs).forEach(function (adapterId) { writePinnedRef(adapterId, refs[adapterId]); });
+        postToUI({ type: 'IMPORT_COMPLETE', totalCreated: totalCreated, warnings: warnings, pruned: pruned, kept: kept, renamed: renamed, timings: timer.finish() });
+    }).catch(function (error) {
+        postToUI({
+            type: 'IMPORT_ERROR',
+            error: error instanceof Error ? error.message : 'Import failed',
+        });
+    });
+}
+
+/** Work out what an import would change, without writing anything. */
+function handlePlan(payload: ImportPayload): void {
+    plannedJobs = null;
+    buildImportJobs(payload).then(function (jobs) {
+        plannedJobs = jobs;
+        return planImport(jobs, payload.renameMap);
+    }).then(function (plan) {
+        postToUI({ type: 'IMPORT_PLAN', plan: plan });
+    }).catch(function (error) {
+        postToUI({
+            type: 'IMPORT_ERROR',
+            error: error instanceof Error ? error.message : 'Failed to plan import',
+        });
+    });
+}
+
+/**
+ * Fetch and parse every selected adapter and its dependencies, and turn the
+ * results into the collections to import, in import order.
+ */
+function buildImportJobs(payload: ImportPayload): Promise<ImportJob[]> {
     // Resolve all selected adapters and their dependencies
-    var adapters = resolveAdapters(payload.adapterIds);
+    var adapters = resolveAdapters(payload.adapterIds, payload.aliasTargets);
     // Sort adapters: TailwindCSS first, then others
     adapters.sort(function (a, b) {
         if (a.id === 'tailwindcss') return -1;
         if (b.id === 'tailwindcss') return 1;
         return 0;
     });
-    var totalCreated = 0;
 
-    postToUI({ type: 'IMPORT_PROGRESS', progress: { current: 0, total: 1, phase: 'Init', message: 'Starting import... This may take a few minutes. Please wait while we process hundreds of tokens.' } });
+    var jobs: ImportJob[] = [];
+    var importedAt = new Date().toISOString();
+    var chain: Promise<unknown> = Promise.resolve();
+    adapters.forEach(function (adapter) {
+        chain = chain.then(function () {
+            return adapter.fetchAndParse({
+                source: payload.sources && payload.sources[adapter.id],
+                ref: sourceRef(adapter, payload),
+            });
+        }).then(function (result) {
+            var origin: ImportOrigin = {
+                adapterId: adapter.id,
+                sourceUrl: result.sourceUrl || adapter.repoUrl,
+                importedAt: importedAt,
+            };
+            jobs.push(...adapterJobs(adapter, result, payload, origin));
+        });
+    });
+    return chain.then(function () { return jobs; });
+}
 
-    var processAdapter = function (index: number): void {
-        if (index >= adapters.length) {
-            postToUI({ type: 'IMPORT_COMPLETE', totalCreated: totalCreated });
-            return;
-        }
+function adapterJobs(
+    adapter: LibraryAdapter,
+    result: PrimitiveResult | ThemeResult | CollectionsResult,
+    payload: ImportPayload,
+    origin: ImportOrigin
+): ImportJob[] {
+    if (result.type === 'primitives') {
+        // The category picker configures Tailwind; other primitive
+        // adapters import everything they support.
+        var categories = adapter.id === 'tailwindcss' ? payload.categories : adapter.categories;
+        return [{ kind: 'primitives', tokens: result.tokens, options: buildImportOptions(adapter.defaultCollectionName, categories, origin) }];
+    }
 
-        var adapter = adapters[index];
-
-        adapter.fetchAndParse().then(function (result) {
-            if (result.type === 'primitives') {
-                var options = {
-                    collectionName: adapter.defaultCollectionName,
-                    importColors: payload.categories.indexOf('colors') >= 0,
-                    importSpacing: payload.categories.indexOf('spacing') >= 0,
-                    importRadius: payload.categories.indexOf('radius') >= 0,
-                    importShadows: payload.categories.indexOf('shadows') >= 0,
-                    importBlur: payload.categories.indexOf('blur') >= 0,
-                    importTypography: payload.categories.indexOf('typography') >= 0,
-                    importBreakpoints: payload.categories.indexOf('breakpoints') >= 0,
-                    importContainers: payload.categories.indexOf('containers') >= 0,
-                    importFontWeights: payload.categories.indexOf('fontWeights') >= 0,
-                    importTracking: payload.categories.indexOf('tracking') >= 0,
-                    importLeading: payload.categories.indexOf('leading') >= 0,
-                    importMaxWidth: payload.categories.indexOf('maxWidth') >= 0,
-                    importBorderWidth: payload.categories.indexOf('borderWidth') >= 0,
-                    importOpacity: payload.categories.indexOf('opacity') >= 0,
-                    importSkew: payload.categories.indexOf('skew') >= 0,
-                };
-
-                // importPrimitives is now async (font loading)
-                importPrimitives(result.tokens, options, function (progress) {
-                    postToUI({ type: 'IMPORT_PROGRESS', progress: progress });
-                }).then(function () {
-                    totalCreated += countPrimitiveTokens(result.tokens);
-                    processAdapter(index + 1);
-                }).catch(function (error) {
-                    postToUI({
-                        type: 'IMPORT_ERROR',
-                        error: error instanceof Error ? error.message : 'Import failed',
-                    });
-                });
-            } else if (result.type === 'theme') {
-                var themeOptions = {
-                    collectionName: payload.collectionName || adapter.defaultCollectionName,
-                    lightTokens: result.tokens.light,
-                    darkTokens: result.tokens.dark,
-                    primitiveCollectionName: payload.primitiveCollectionName || 'TailwindCSS',
-                    importColors: true,
-                    importSpacing: false,
-                    importRadius: false,
-                    importShadows: false,
-                    importBlur: false,
-                    importTypography: false,
-                    importBreakpoints: false,
-                    importContainers: false,
-                    importFontWeights: false,
-                    importTracking: false,
-                    importLeading: false,
-                    importMaxWidth: false,
-                    importBorderWidth: false,
-                    importOpacity: false,
-                    importSkew: false,
-                };
-
-                importThemeTokens(themeOptions, function (progress) {
-                    postToUI({ type: 'IMPORT_PROGRESS', progress: progress });
-                }).then(function () {
-                    var allKeys = new Set(
-                        Object.keys(result.tokens.light).concat(Object.keys(result.tokens.dark))
-                    );
-                    totalCreated += allKeys.size;
-                    processAdapter(index + 1);
-                }).catch(function (error) {
-                    postToUI({
-                        type: 'IMPORT_ERROR',
-                        error: error instanceof Error ? error.message : 'Theme import failed',
-                    });
+    if (result.type === 'theme') {
+        var modes = applyModeSettings(result.tokens.modes, payload.modeSettings && payload.modeSettings[adapter.id]);
+        if (modes.length === 0) return [];
+        return [{
+            kind: 'theme',
+            options: buildThemeOptions(
+                payload.collectionName || adapter.defaultCollectionName,
+                modes,
+                aliasCollectionName(adapter, payload),
+                origin
+            ),
+        }];
+    }
+
+    // Every primitive collection in order, then the theme collections that
+    // alias into them
+    var jobs: ImportJob[] = result.primitives.map(function (set): ImportJob {
+        return { kind: 'primitives', tokens: set.tokens, options: buildImportOptions(set.collectionName, adapter.categories, origin) };
+    });
+    (result.themes || []).forEach(function (theme) {
+        var themeModes = applyModeSettings(theme.modes, payload.modeSettings && payload.modeSettings[adapter.id]);
+        if (themeModes.length === 0) return;
+        // A primitives adapter's modes are its own values (Radix Light/Dark)
+        jobs.push({
+            kind: 'theme',
+            options: adapter.type === 'primitives'
+                ? buildThemeOptions(theme.collectionName || adapter.defaultCollectionName, themeModes, '', origin)
+                : buildThemeOptions(
+                    theme.collectionName || payload.collectionName || adapter.defaultCollectionName,
+                    themeModes,
+                    aliasCollectionName(adapter, payload),
+                    origin
+                ),
+        });
+    });
+    return jobs;
+}
+
+/** Restore the collections and styles to how they were before the last import. */
+function handleRollback(): void {
+    var onProgress = function (progress: ImportProgress) {
+        postToUI({ type: 'IMPORT_PROGRESS', progress: progress });
+    };
+
+    rollBackImport(onProgress).then(function (result) {
+        postToUI({ type: 'ROLLBACK_COMPLETE', restored: result.restored, removed: result.removed, warnings: result.warnings });
+    }).catch(function (error) {
+        postToUI({
+            type: 'ROLLBACK_ERROR',
+            error: error instanceof Error ? error.message : 'Rollback failed',
+        });
+    });
+}
+
+// ─── Versions ────────────────────────────────────────────────────────────────
+
+/** Report an adapter's pinned version, its releases and any available update. */
+function handleVersionCheck(adapterId: string): void {
+    var adapter = getAdapter(adapterId);
+    if (!adapter) return;
+    checkVersion(adapter).then(function (status) {
+        postToUI({ type: 'VERSION_STATUS', status: status });
+    });
+}
+
+// ─── Export ──────────────────────────────────────────────────────────────────
+
+/** Read a collection back out of Figma and render it in the chosen format. */
+function handleExport(payload: ExportPayload): void {
+    readCollection(payload.collectionName).then(function (collection) {
+        if (payload.format === 'shadcn') {
+            var output = exportShadcnGlobals(collection, { themeInline: payload.themeInline !== false });
+            postToUI({ type: 'EXPORT_COMPLETE', output: output, filename: 'globals.css' });
+        } else if (payload.format === 'dtcg') {
+            var styles = payload.includeStyles ? readStyles() : Promise.resolve(undefined);
+            return styles.then(function (exportStyles) {
+                postToUI({
+                    type: 'EXPORT_COMPLETE',
+                    output: exportDtcgTokens(collection, exportStyles),
+                    filename: fileSlug(collection.name) + '.tokens.json',
                 });
-            }
-        }).catch(function (error) {
-            postToUI({
-                type: 'IMPORT_ERROR',
-                error: error instanceof Error ? error.message : 'Failed to fetch tokens',
             });
+        } else {
+            postToUI({ type: 'EXPORT_COMPLETE', output: exportTailwindTheme(collection), filename: 'theme.css' });
+        }
+    }).catch(function (error) {
+        postToUI({
+            type: 'EXPORT_ERROR',
+            error: error instanceof Error ? error.message : 'Export failed',
         });
-    };
+    });
+}
 
-    processAdapter(0);
+/** `Material Theme` → `material-theme` */
+function fileSlug(name: string): string {
+    return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'tokens';
 }
 
 // ─── Helpers ─────────────────────────────────────────────────────────────────
 
+/**
+ * Drop the modes the user excluded and apply their renames.
+ * Throws when two remaining modes would share a name.
+ */
+function applyModeSettings(modes: ThemeMode[], settings: ModeSettings | undefined): ThemeMode[] {
+    if (!settings) return modes;
+
+    var result: ThemeMode[] = [];
+    modes.forEach(function (mode) {
+        var setting = settings[mode.name];
+        if (setting && setting.excluded) return;
+        var name = setting && setting.name.trim() ? setting.name.trim() : mode.name;
+        if (result.some(function (m) { return m.name === name; })) {
+            throw new Error('Two modes are named "' + name + '". Rename one before importing.');
+        }
+        result.push({ ...mode, name: name });
+    });
+    return result;
+}
+
+/** Ref the UI chose for an adapter's source, else the one the document is pinned to. */
+function sourceRef(adapter: LibraryAdapter, payload: ImportPayload): string {
+    if (payload.refs && adapter.id in payload.refs) return payload.refs[adapter.id];
+    return readPinnedRef(adapter.id);
+}
+
+/** Collection a theme adapter aliases to: its chosen alias target, else Tailwind. */
+function aliasCollectionName(adapter: LibraryAdapter, payload: ImportPayload): string {
+    var target = payload.aliasTargets && getAdapter(payload.aliasTargets[adapter.id]);
+    if (target) return target.defaultCollectionName;
+    return payload.primitiveCollectionName || 'TailwindCSS';
+}
+
+/**
+ * One warning per mode that lacked values in the source, naming the first
+ * few tokens that fell back to another mode's value.
+ */
+function describeMissingModes(result: ThemeImportResult): string[] {
+    var warnings: string[] = [];
+    Object.keys(result.missing).forEach(function (modeName) {
+        var names = result.missing[modeName];
+        if (names.length === 0) return;
+        var listed = names.slice(0, 3).join(', ') + (names.length > 3 ? ', …' : '');
+        warnings.push(
+            result.collection.name + ': mode "' + modeName + '" has no value for ' + names.length +
+            (names.length === 1 ? ' token' : ' tokens') + ' (' + listed + '); used the value from the first mode that defines each.'
+        );
+    });
+    return warnings;
+}
+
+/** One warning per missing family, and per weight whose text styles had no real font style to use. */
+function describeFontFallbacks(result: PrimitiveImportResult): string[] {
+    return result.fontFallbacks.map(function (fallback) {
+        if (fallback.weight === undefined) {
+            return result.collection.name + ': ' + fallback.family + ' isn\'t available; its text styles use ' + fallback.fontName.family + '.';
+        }
+        return result.collection.name + ': ' + fallback.family + ' has no ' + fallback.weight + ' weight style that loads; text styles use ' +
+            fallback.fontName.family + ' ' + fallback.fontName.style + ' and rely on the bound weight variable.';
+    });
+}
+
+/** Theme collections hold colors and lengths; aliasing targets the primitives collection. */
+function buildThemeOptions(
+    collectionName: string,
+    modes: ThemeMode[],
+    primitiveCollectionName: string,
+    origin?: ImportOrigin
+): ThemeImportOptions {
+    var options = buildImportOptions(collectionName, ['colors'], origin);
+    return {
+        ...options,
+        modes: modes,
+        primitiveCollectionName: primitiveCollectionName,
+    };
+}
+
+function buildImportOptions(collectionName: string, categories: TokenCategory[], origin?: ImportOrigin): ImportOptions {
+    return {
+        collectionName: collectionName,
+        importColors: categories.indexOf('colors') >= 0,
+        importSpacing: categories.indexOf('spacing') >= 0,
+        importRadius: categories.indexOf('radius') >= 0,
+        importShadows: categories.indexOf('shadows') >= 0,
+        importBlur: categories.indexOf('blur') >= 0,
+        importTypography: categories.indexOf('typography') >= 0,
+        importBreakpoints: categories.indexOf('breakpoints') >= 0,
+        importContainers: categories.indexOf('containers') >= 0,
+        importFontWeights: categories.indexOf('fontWeights') >= 0,
+        importTracking: categories.indexOf('tracking') >= 0,
+        importLeading: categories.indexOf('leading') >= 0,
+        importMaxWidth: categories.indexOf('maxWidth') >= 0,
+        importBorderWidth: categories.indexOf('borderWidth') >= 0,
+        importOpacity: categories.indexOf('opacity') >= 0,
+        importSkew: categories.indexOf('skew') >= 0,
+        importEasing: categories.indexOf('easing') >= 0,
+        origin: origin,
+    };
+}
+
+function countThemeTokens(modes: ThemeMode[]): number {
+    var allKeys = new Set<string>();
+    modes.forEach(function (mode) {
+        Object.keys(mode.tokens).forEach(function (key) { allKeys.add(key); });
+    });
+    return allKeys.size;
+}
+
 function countPrimitiveTokens(tokens: ParsedTokenSet): number {
     return (
         tokens.colors.length +
@@ -160,6 +471,7 @@ function countPrimitiveTokens(tokens: ParsedTokenSet): number {
         tokens.maxWidth.length +
         tokens.borderWidth.length +
         tokens.opacity.length +
-        tokens.skew.length
+        tokens.skew.length +
+        tokens.easing.length
     );
 }
@@ -1,6 +1,7 @@
 // ─── Color Conversion Utilities ─────────────────────────────────────────────
 // Converts oklch, HSL, HEX, and RGB color strings to Figma-compatible RGBA
-// objects (0-1 range per channel).
+// objects (0-1 range per channel), and Figma RGBA back to oklch or HEX for
+// export.
 
 export interface FigmaColor {
     r: number;
@@ -44,6 +45,50 @@ function linearToSrgb(c: number): number {
     return 1.055 * Math.pow(c, 1 / 2.4) - 0.055;
 }
 
+// ─── sRGB → oklch ───────────────────────────────────────────────────────────
+
+/** Convert Figma RGBA to oklch. L is 0-1, C is 0-0.4+, H is degrees. */
+export function rgbaToOklch(color: FigmaColor): { L: number; C: number; H: number; alpha: number } {
+    const r = srgbToLinear(color.r);
+    const g = srgbToLinear(color.g);
+    const b = srgbToLinear(color.b);
+
+    // linear sRGB → LMS → oklab (inverse of the matrices above)
+    const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+    const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+    const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+
+    const L = 0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s;
+    const a_ = 1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s;
+    const b_ = 0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s;
+
+    const C = Math.sqrt(a_ * a_ + b_ * b_);
+    let H = (Math.atan2(b_, a_) * 180) / Math.PI;
+    if (H < 0) H += 360;
+
+    // Grays have no meaningful hue
+    return { L, C: C < 0.0002 ? 0 : C, H: C < 0.0002 ? 0 : H, alpha: color.a };
+}
+
+/** Format Figma RGBA the way Tailwind writes colors: `oklch(63.7% 0.237 25.331)`. */
+export function formatOklch(color: FigmaColor): string {
+    const { L, C, H, alpha } = rgbaToOklch(color);
+    const channels = round(L * 100, 1) + '% ' + round(C, 3) + ' ' + round(H, 3);
+    return alpha < 1
+        ? 'oklch(' + channels + ' / ' + round(alpha * 100, 1) + '%)'
+        : 'oklch(' + channels + ')';
+}
+
+function srgbToLinear(c: number): number {
+    if (c <= 0.04045) return c / 12.92;
+    return Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+function round(n: number, decimals: number): number {
+    const factor = Math.pow(10, decimals);
+    return Math.round(n * factor) / factor;
+}
+
 // ─── HSL → sRGB ─────────────────────────────────────────────────────────────
 
 /** Convert hsl(H, S%, L%) to Figma RGBA. H in degrees, S/L as 0-100. */
@@ -91,6 +136,14 @@ export function hexToRgba(hex: string): FigmaColor {
     return { r, g, b, a };
 }
 
+/** Format Figma RGBA as #RRGGBB, or #RRGGBBAA when translucent. */
+export function formatHex(color: FigmaColor): string {
+    const channels = color.a < 1 ? [color.r, color.g, color.b, color.a] : [color.r, color.g, color.b];
+    return '#' + channels.map(function (c) {
+        return ('0' + Math.round(clamp01(c) * 255).toString(16)).slice(-2);
+    }).join('');
+}
+
 // ─── RGB string → sRGB ──────────────────────────────────────────────────────
 
 /** Convert rgb(R, G, B) or rgba(R, G, B, A) to Figma RGBA. */
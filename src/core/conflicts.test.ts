@@ -0,0 +1,101 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+    WRITTEN_VALUES_KEY,
+    editedModes,
+    holdLocalEdits,
+    readWrittenValues,
+    recordWrittenValues,
+    restoreLocalEdits,
+} from './conflicts';
+
+const WHITE = { r: 1, g: 1, b: 1, a: 1 };
+const OFF_WHITE = { r: 0.98, g: 0.98, b: 0.98, a: 1 };
+
+/** A variable holding shared plugin data in memory. */
+function stubVariable(id: string, valuesByMode: Record<string, VariableValue>, data: Record<string, string> = {}) {
+    return {
+        id,
+        valuesByMode,
+        getSharedPluginData: (_namespace: string, key: string) => data[key] || '',
+        setSharedPluginData: (_namespace: string, key: string, value: string) => { data[key] = value; },
+        setValueForMode: (modeId: string, value: VariableValue) => { valuesByMode[modeId] = value; },
+    } as unknown as Variable;
+}
+
+/** A variable StyleForge wrote, then edited by hand in the given modes. */
+function editedVariable(id: string, edits: Record<string, VariableValue>) {
+    const variable = stubVariable(id, { light: WHITE, dark: { r: 0, g: 0, b: 0, a: 1 } });
+    recordWrittenValues(variable);
+    Object.assign(variable.valuesByMode, edits);
+    return variable;
+}
+
+describe('written values', () => {
+    it('reads back what was recorded', () => {
+        const variable = stubVariable('v1', { light: WHITE });
+        recordWrittenValues(variable);
+        expect(readWrittenValues(variable)).toEqual({ light: WHITE });
+    });
+
+    it('reads nothing from variables StyleForge never wrote or with corrupt data', () => {
+        expect(readWrittenValues(stubVariable('v1', {}))).toBeNull();
+        expect(readWrittenValues(stubVariable('v1', {}, { [WRITTEN_VALUES_KEY]: '{oops' }))).toBeNull();
+    });
+});
+
+describe('editedModes', () => {
+    it('lists the modes whose value differs from what was written', () => {
+        expect(editedModes(editedVariable('v1', { light: OFF_WHITE }))).toEqual(['light']);
+        expect(editedModes(editedVariable('v1', {}))).toEqual([]);
+    });
+
+    it('treats a changed alias as an edit', () => {
+        expect(editedModes(editedVariable('v1', { dark: { type: 'VARIABLE_ALIAS', id: 'v9' } }))).toEqual(['dark']);
+    });
+
+    it('ignores modes added after the last import and variables never written', () => {
+        expect(editedModes(editedVariable('v1', { added: WHITE }))).toEqual([]);
+        expect(editedModes(stubVariable('v1', { light: OFF_WHITE }))).toEqual([]);
+    });
+});
+
+describe('holding local edits', () => {
+    const stubFile = (variables: Variable[]) => {
+        vi.stubGlobal('figma', {
+            variables: {
+                getLocalVariableCollectionsAsync: async () => [
+                    { name: 'Theme', variableIds: variables.map((v) => v.id) },
+                    { name: 'Other', variableIds: ['elsewhere'] },
+                ],
+                getVariableByIdAsync: async (id: string) => variables.find((v) => v.id === id) || null,
+            },
+        });
+    };
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('holds nothing when overwriting', async () => {
+        stubFile([editedVariable('v1', { light: OFF_WHITE })]);
+        expect((await holdLocalEdits(['Theme'], { policy: 'overwrite', keep: [] })).size).toBe(0);
+        expect((await holdLocalEdits(['Theme'], undefined)).size).toBe(0);
+    });
+
+    it('holds the edited modes of every variable when keeping, and puts them back', async () => {
+        const variable = editedVariable('v1', { light: OFF_WHITE });
+        stubFile([variable, editedVariable('v2', {})]);
+        const held = await holdLocalEdits(['Theme'], { policy: 'keep', keep: [] });
+        expect(Array.from(held.entries())).toEqual([['v1', { light: OFF_WHITE }]]);
+
+        variable.valuesByMode.light = WHITE;
+        expect(await restoreLocalEdits(held)).toBe(1);
+        expect(variable.valuesByMode.light).toEqual(OFF_WHITE);
+    });
+
+    it('holds only the chosen variables when asking', async () => {
+        stubFile([editedVariable('v1', { light: OFF_WHITE }), editedVariable('v2', { dark: WHITE })]);
+        const held = await holdLocalEdits(['Theme'], { policy: 'ask', keep: ['v2'] });
+        expect(Array.from(held.keys())).toEqual(['v2']);
+    });
+});
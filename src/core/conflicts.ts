@@ -0,0 +1,87 @@
+// ─── Conflicts ───────────────────────────────────────────────────────────────
+// StyleForge records the values it writes to each variable. A variable whose
+// value no longer matches has been edited by hand, and re-importing it is a
+// conflict, settled by the import's policy: overwrite the local edit, keep
+// it, or ask per variable. Kept edits are written back after the import, so
+// they still show as local edits next time.
+
+import { PROVENANCE_NAMESPACE } from './provenance';
+
+export type ConflictPolicy = 'overwrite' | 'keep' | 'ask';
+
+export interface ConflictResolution {
+    policy: ConflictPolicy;
+    /** With `ask`: variables whose local edits win; the rest are overwritten */
+    keep: string[];
+}
+
+/** Shared plugin data key holding the values StyleForge last wrote, by mode ID. */
+export const WRITTEN_VALUES_KEY = 'writtenValues';
+
+/** Local values to put back after an import, by variable ID and mode ID. */
+export type HeldEdits = Map<string, Record<string, VariableValue>>;
+
+// ─── Written Values ──────────────────────────────────────────────────────────
+
+export function recordWrittenValues(variable: Variable): void {
+    variable.setSharedPluginData(PROVENANCE_NAMESPACE, WRITTEN_VALUES_KEY, JSON.stringify(variable.valuesByMode));
+}
+
+/** What StyleForge last wrote, by mode ID, or null if it never wrote the variable. */
+export function readWrittenValues(variable: Variable): Record<string, VariableValue> | null {
+    const json = variable.getSharedPluginData(PROVENANCE_NAMESPACE, WRITTEN_VALUES_KEY);
+    if (!json) return null;
+    try {
+        return JSON.parse(json) as Record<string, VariableValue>;
+    } catch (e) {
+        return null;
+    }
+}
+
+/** Mode IDs whose value differs from what StyleForge last wrote. */
+export function editedModes(variable: Variable): string[] {
+    const written = readWrittenValues(variable);
+    if (!written) return [];
+    return Object.keys(variable.valuesByMode).filter(function (modeId) {
+        return modeId in written && JSON.stringify(variable.valuesByMode[modeId]) !== JSON.stringify(written[modeId]);
+    });
+}
+
+// ─── Keeping Local Edits ─────────────────────────────────────────────────────
+
+/**
+ * Before an import, set aside the local edits in the named collections that
+ * the resolution keeps. Overwrite (or no resolution) keeps none.
+ */
+export async function holdLocalEdits(collectionNames: string[], resolution: ConflictResolution | undefined): Promise<HeldEdits> {
+    const held: HeldEdits = new Map();
+    if (!resolution || resolution.policy === 'overwrite') return held;
+
+    for (const collection of await figma.variables.getLocalVariableCollectionsAsync()) {
+        if (collectionNames.indexOf(collection.name) < 0) continue;
+        for (const id of collection.variableIds) {
+            if (resolution.policy === 'ask' && resolution.keep.indexOf(id) < 0) continue;
+            const variable = await figma.variables.getVariableByIdAsync(id);
+            if (!variable) continue;
+
+            const modes = editedModes(variable);
+            if (modes.length === 0) continue;
+            const values: Record<string, VariableValue> = {};
+            for (const modeId of modes) values[modeId] = variable.valuesByMode[modeId];
+            held.set(id, values);
+        }
+    }
+    return held;
+}
+
+/** Write the held local edits back. Resolves with how many variables kept theirs. */
+export async function restoreLocalEdits(held: HeldEdits): Promise<number> {
+    let kept = 0;
+    for (const [id, values] of Array.from(held.entries())) {
+        const variable = await figma.variables.getVariableByIdAsync(id);
+        if (!variable) continue;
+        for (const modeId of Object.keys(values)) variable.setValueForMode(modeId, values[modeId]);
+        kept++;
+    }
+    return kept;
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { parseDaisyuiThemes } from './daisyuiThemes';
+
+const THEMES = {
+    cupcake: {
+        'color-scheme': 'light',
+        '--color-base-100': 'oklch(97.788% 0.004 56.375)',
+        '--color-primary': 'oklch(85% 0.138 181.071)',
+        '--radius-selector': '1rem',
+        '--radius-box': '1rem',
+        '--size-field': '0.25rem',
+        '--border': '2px',
+        '--depth': '0',
+        '--noise': '0',
+    },
+    'night-owl': {
+        '--color-primary': 'oklch(75% 0.18 346)',
+        '--border': '1px',
+    },
+};
+
+describe('parseDaisyuiThemes', () => {
+    const modes = parseDaisyuiThemes(THEMES);
+
+    it('makes one capitalized mode per theme, in definition order', () => {
+        expect(modes.map((m) => m.name)).toEqual(['Cupcake', 'Night-owl']);
+    });
+
+    it('imports the color slots, radius, size and border lengths', () => {
+        expect(modes[0].tokens).toEqual({
+            'base-100': 'oklch(97.788% 0.004 56.375)',
+            primary: 'oklch(85% 0.138 181.071)',
+            'radius/selector': '1rem',
+            'radius/box': '1rem',
+            'size/field': '0.25rem',
+            border: '2px',
+        });
+        expect(modes[1].tokens).toEqual({ primary: 'oklch(75% 0.18 346)', border: '1px' });
+    });
+
+    it('ignores --depth, --noise and anything that is not a theme variable', () => {
+        const names = Object.keys(modes[0].tokens);
+        expect(names).not.toContain('depth');
+        expect(names).not.toContain('noise');
+        expect(names).not.toContain('color-scheme');
+    });
+});
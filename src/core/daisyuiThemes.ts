@@ -0,0 +1,35 @@
+// ─── DaisyUI Themes ──────────────────────────────────────────────────────────
+// Turns DaisyUI theme definitions (`{ cupcake: { "--color-primary": ...,
+// "--radius-box": ... } }`) into theme modes: the semantic color slots
+// plus the radius, size and border lengths every theme defines.
+
+import type { ThemeMode } from './parser';
+
+/** Theme variables and the token names they import as. */
+const THEME_VARIABLES: [RegExp, (match: RegExpMatchArray) => string][] = [
+    [/^--color-(.+)$/, function (m) { return m[1]; }],
+    [/^--radius-(.+)$/, function (m) { return 'radius/' + m[1]; }],
+    [/^--size-(.+)$/, function (m) { return 'size/' + m[1]; }],
+    [/^--border$/, function () { return 'border'; }],
+];
+
+/** One mode per theme, named `Cupcake`, `Light`, ... in definition order. */
+export function parseDaisyuiThemes(themes: Record<string, Record<string, string>>): ThemeMode[] {
+    return Object.keys(themes).map(function (theme) {
+        const tokens: Record<string, string> = {};
+        for (const [variable, value] of Object.entries(themes[theme])) {
+            for (const [pattern, rename] of THEME_VARIABLES) {
+                const match = variable.match(pattern);
+                if (match) {
+                    tokens[rename(match)] = value;
+                    break;
+                }
+            }
+        }
+        return { name: daisyuiModeName(theme), tokens };
+    });
+}
+
+function daisyuiModeName(theme: string): string {
+    return theme.charAt(0).toUpperCase() + theme.slice(1);
+}
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { exportDtcgTokens, MODES_EXTENSION } from './dtcgExporter';
+import { parseDtcgTokens } from './dtcgParser';
+import type { ExportCollection, ExportStyles } from './variableReader';
+import primitives from './__fixtures__/primitives-collection.json';
+import theme from './__fixtures__/theme-collection.json';
+
+const collection = primitives as ExportCollection;
+
+const styles: ExportStyles = {
+    text: [{
+        name: 'text-sm/bold',
+        fontFamily: 'Inter',
+        fontWeight: 700,
+        fontSize: 14,
+        lineHeight: 20,
+        letterSpacing: 0,
+        variables: { fontSize: 'typography/size/sm' },
+    }],
+    effects: [{
+        name: 'shadow/sm',
+        shadows: [{ type: 'DROP_SHADOW', x: 0, y: 1, blur: 2, spread: 0, color: { r: 0, g: 0, b: 0, a: 0.05 } }],
+    }],
+};
+
+describe('exportDtcgTokens', () => {
+    const tokens = JSON.parse(exportDtcgTokens(collection, styles));
+
+    it('nests tokens by name and types them from the variable type and scopes', () => {
+        expect(tokens.colors.red['500']).toEqual({ $type: 'color', $value: '#fb2c36' });
+        expect(tokens.spacing['4']).toEqual({ $type: 'dimension', $value: '16px' });
+        expect(tokens.typography.family.sans).toEqual({ $type: 'fontFamily', $value: 'Inter' });
+        expect(tokens.typography.weight.bold).toEqual({ $type: 'fontWeight', $value: 700 });
+        expect(tokens.easing.in).toEqual({ $type: 'cubicBezier', $value: [0.4, 0, 1, 1] });
+        expect(tokens.opacity['50']).toEqual({ $type: 'number', $value: 0.5 });
+    });
+
+    it('writes aliases as references and keeps descriptions', () => {
+        expect(tokens.colors.brand).toEqual({
+            $type: 'color',
+            $value: '{colors.red.500}',
+            $description: 'Brand color',
+        });
+    });
+
+    it('writes text styles as typography tokens that reference bound variables', () => {
+        expect(tokens['text-sm'].bold).toEqual({
+            $type: 'typography',
+            $value: {
+                fontFamily: 'Inter',
+                fontSize: '{typography.size.sm}',
+                fontWeight: 700,
+                lineHeight: '20px',
+                letterSpacing: '0px',
+            },
+        });
+    });
+
+    it('writes effect styles as shadow tokens', () => {
+        expect(tokens.shadow.sm).toEqual({
+            $type: 'shadow',
+            $value: { color: '#0000000d', offsetX: '0px', offsetY: '1px', blur: '2px', spread: '0px' },
+        });
+    });
+
+    it('lists every mode of a multi-mode collection under $extensions', () => {
+        const themed = JSON.parse(exportDtcgTokens(theme as ExportCollection));
+
+        expect(themed.background.$value).toBe('{colors.white}');
+        expect(themed.background.$extensions[MODES_EXTENSION]).toEqual({
+            'Light': '{colors.white}',
+            'Dark': '#000000',
+            'High Contrast': '#00000080',
+        });
+        expect(themed['primary-foreground'].$extensions[MODES_EXTENSION]).toEqual({
+            Light: '#ffffff',
+            Dark: '{colors.red.500}',
+        });
+    });
+
+    it('leaves $extensions off single-mode collections', () => {
+        expect(tokens.colors.white.$extensions).toBeUndefined();
+    });
+});
+
+describe('round-trip through parseDtcgTokens', () => {
+    const parsed = parseDtcgTokens(JSON.parse(exportDtcgTokens(collection, styles)));
+
+    it('reads colors and aliases back', () => {
+        const red = parsed.colors.find((c) => c.path.join('/') === 'red/500');
+        expect(red?.figmaColor.r).toBeCloseTo(0.984, 3);
+        expect(parsed.colors.find((c) => c.path.join('/') === 'white')?.figmaColor).toEqual({ r: 1, g: 1, b: 1, a: 1 });
+
+        const brand = parsed.colors.find((c) => c.path.join('/') === 'brand');
+        expect(brand?.alias).toEqual({ category: 'colors', path: ['red', '500'] });
+        expect(brand?.figmaColor).toEqual(red?.figmaColor);
+    });
+
+    it('reads dimensions, weights, fonts and easing back', () => {
+        expect(parsed.spacing).toEqual(expect.arrayContaining([
+            { path: ['1'], value: 4, rawValue: '4px' },
+            { path: ['4'], value: 16, rawValue: '16px' },
+            { path: ['px'], value: 1, rawValue: '1px' },
+        ]));
+        expect(parsed.radius).toEqual([{ path: ['lg'], value: 8, rawValue: '8px' }]);
+        expect(parsed.breakpoints).toEqual([{ path: ['md'], value: 768, rawValue: '768px' }]);
+        expect(parsed.fontWeights).toEqual([expect.objectContaining({ path: ['bold'], value: 700 })]);
+        expect(parsed.fonts).toEqual([expect.objectContaining({ family: 'Inter' })]);
+        expect(parsed.easing).toEqual([expect.objectContaining({ path: ['in'], value: [0.4, 0, 1, 1] })]);
+    });
+
+    it('reads styles back', () => {
+        expect(parsed.typography).toEqual([
+            expect.objectContaining({ fontSize: 14, lineHeight: 20, letterSpacing: 0, fontWeight: 700 }),
+        ]);
+        expect(parsed.shadows).toHaveLength(1);
+        expect(parsed.shadows[0].shadows[0]).toMatchObject({ x: 0, y: 1, blur: 2, spread: 0, type: 'DROP_SHADOW' });
+        expect(parsed.shadows[0].shadows[0].color.a).toBeCloseTo(0.05, 2);
+    });
+});
@@ -0,0 +1,171 @@
+// ─── DTCG Token Exporter ─────────────────────────────────────────────────────
+// Serializes a variable collection, and optionally StyleForge's text and
+// shadow styles, as W3C DTCG JSON that `dtcgParser` and Style Dictionary can
+// read. Variable names become groups (`colors/red/500` → colors.red.500),
+// aliases become `{colors.red.500}` references and `$type` comes from the
+// variable's type and scopes. The default mode is the `$value`; collections
+// with several modes list every mode's value under `$extensions`.
+
+import { formatHex } from './colorUtils';
+import type {
+    ExportCollection,
+    ExportEffectStyle,
+    ExportStyles,
+    ExportTextStyle,
+    ExportValue,
+    ExportVariable,
+} from './variableReader';
+
+/** `$extensions` key holding the value of every mode. */
+export const MODES_EXTENSION = 'styleforge.modes';
+
+interface DesignTokenNode {
+    [key: string]: unknown;
+}
+
+/** Scopes that mark a FLOAT variable as a length. */
+const DIMENSION_SCOPES: VariableScope[] = [
+    'CORNER_RADIUS', 'GAP', 'WIDTH_HEIGHT', 'STROKE_FLOAT', 'EFFECT_FLOAT',
+    'FONT_SIZE', 'LINE_HEIGHT', 'LETTER_SPACING', 'PARAGRAPH_SPACING', 'PARAGRAPH_INDENT',
+];
+
+const CUBIC_BEZIER = /^cubic-bezier\(\s*([^)]+)\)$/;
+
+// ─── Exporter ────────────────────────────────────────────────────────────────
+
+/** Export a collection (all modes) and any styles as a DTCG JSON string. */
+export function exportDtcgTokens(collection: ExportCollection, styles?: ExportStyles): string {
+    const tree: DesignTokenNode = {};
+    const defaultMode = collection.modes[0];
+
+    for (const variable of collection.variables) {
+        const type = tokenType(variable);
+        const defaultValue = variable.values[defaultMode];
+        if (!defaultValue) continue;
+
+        const token: DesignTokenNode = {};
+        if (type) token.$type = type;
+        token.$value = tokenValue(defaultValue, type);
+        if (variable.description) token.$description = variable.description;
+
+        if (collection.modes.length > 1) {
+            const modes: Record<string, unknown> = {};
+            for (const mode of collection.modes) {
+                const value = variable.values[mode];
+                if (value) modes[mode] = tokenValue(value, type);
+            }
+            token.$extensions = { [MODES_EXTENSION]: modes };
+        }
+
+        insertToken(tree, variable.name.split('/'), token);
+    }
+
+    if (styles) {
+        for (const style of styles.text) {
+            insertToken(tree, style.name.split('/'), typographyToken(style));
+        }
+        for (const style of styles.effects) {
+            insertToken(tree, style.name.split('/'), shadowToken(style));
+        }
+    }
+
+    return JSON.stringify(tree, null, 2) + '\n';
+}
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** DTCG `$type` of a variable, or undefined for plain strings and booleans. */
+function tokenType(variable: ExportVariable): string | undefined {
+    if (variable.type === 'COLOR') return 'color';
+
+    if (variable.type === 'FLOAT') {
+        if (variable.scopes.includes('FONT_WEIGHT')) return 'fontWeight';
+        if (variable.scopes.some(function (scope) { return DIMENSION_SCOPES.includes(scope); })) return 'dimension';
+        return 'number';
+    }
+
+    if (variable.type === 'STRING') {
+        if (variable.scopes.includes('FONT_FAMILY')) return 'fontFamily';
+        const value = Object.values(variable.values)[0];
+        if (value && value.kind === 'string' && CUBIC_BEZIER.test(value.value)) return 'cubicBezier';
+    }
+    return undefined;
+}
+
+// ─── Values ──────────────────────────────────────────────────────────────────
+
+function tokenValue(value: ExportValue, type: string | undefined): unknown {
+    switch (value.kind) {
+        case 'alias':
+            return reference(value.name);
+        case 'color':
+            return formatHex(value.color);
+        case 'number':
+            return type === 'dimension' ? formatPx(value.value) : value.value;
+        case 'string': {
+            const curve = value.value.match(CUBIC_BEZIER);
+            if (type === 'cubicBezier' && curve) return curve[1].split(',').map(function (n) { return parseFloat(n); });
+            return value.value;
+        }
+        default:
+            return value.value;
+    }
+}
+
+/** Text styles become typography tokens that reference their bound variables. */
+function typographyToken(style: ExportTextStyle): DesignTokenNode {
+    const bound = style.variables;
+    const value: Record<string, unknown> = {
+        fontFamily: bound.fontFamily ? reference(bound.fontFamily) : style.fontFamily,
+        fontSize: bound.fontSize ? reference(bound.fontSize) : formatPx(style.fontSize),
+    };
+    if (bound.fontWeight) value.fontWeight = reference(bound.fontWeight);
+    else if (style.fontWeight !== null) value.fontWeight = style.fontWeight;
+    if (bound.lineHeight) value.lineHeight = reference(bound.lineHeight);
+    else if (style.lineHeight !== null) value.lineHeight = formatPx(style.lineHeight);
+    value.letterSpacing = bound.letterSpacing ? reference(bound.letterSpacing) : formatPx(style.letterSpacing);
+
+    return { $type: 'typography', $value: value };
+}
+
+function shadowToken(style: ExportEffectStyle): DesignTokenNode {
+    const layers = style.shadows.map(function (layer) {
+        const shadow: Record<string, unknown> = {
+            color: formatHex(layer.color),
+            offsetX: formatPx(layer.x),
+            offsetY: formatPx(layer.y),
+            blur: formatPx(layer.blur),
+            spread: formatPx(layer.spread),
+        };
+        if (layer.type === 'INNER_SHADOW') shadow.inset = true;
+        return shadow;
+    });
+    return { $type: 'shadow', $value: layers.length === 1 ? layers[0] : layers };
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+/** `colors/red/500` → `{colors.red.500}` */
+function reference(name: string): string {
+    return '{' + name.split('/').join('.') + '}';
+}
+
+function formatPx(n: number): string {
+    return Math.round(n * 1000) / 1000 + 'px';
+}
+
+/**
+ * Place a token at its path, creating groups on the way. A token whose path
+ * runs through another token (`text-sm` and `text-sm/bold`) is skipped.
+ */
+function insertToken(tree: DesignTokenNode, path: string[], token: DesignTokenNode): void {
+    let node = tree;
+    for (const segment of path.slice(0, -1)) {
+        const child = node[segment] as DesignTokenNode | undefined;
+        if (child && '$value' in child) return;
+        if (!child) node[segment] = {};
+        node = node[segment] as DesignTokenNode;
+    }
+    const leaf = path[path.length - 1];
+    if (!(leaf in node)) node[leaf] = token;
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { flattenDesignTokens, parseDtcgTokens, resolveReferences, toFontWeight, toPx } from './dtcgParser';
+import tokens from './__fixtures__/dtcg-tokens.json';
+
+describe('parseDtcgTokens', () => {
+    const parsed = parseDtcgTokens(tokens);
+
+    it('converts hex and srgb colors, keeping alpha', () => {
+        const blue = parsed.colors.find((c) => c.path.join('/') === 'blue/500');
+        expect(blue?.rawValue).toBe('#3b82f6');
+        expect(blue?.figmaColor.b).toBeCloseTo(0.965, 3);
+
+        const red = parsed.colors.find((c) => c.path.join('/') === 'red/500');
+        expect(red?.figmaColor).toEqual({ r: 1, g: 0, b: 0, a: 0.5 });
+    });
+
+    it('converts oklch colors to sRGB', () => {
+        const green = parsed.colors.find((c) => c.path.join('/') === 'green/500');
+        expect(green?.figmaColor.r).toBeCloseTo(0.188, 2);
+        expect(green?.figmaColor.g).toBeCloseTo(0.740, 2);
+        expect(green?.figmaColor.b).toBeCloseTo(0.266, 2);
+    });
+
+    it('keeps references as aliases with the resolved value', () => {
+        const primary = parsed.colors.find((c) => c.path.join('/') === 'primary');
+        expect(primary?.alias).toEqual({ category: 'colors', path: ['blue', '500'] });
+        expect(primary?.rawValue).toBe('#3b82f6');
+    });
+
+    it('skips unsupported color spaces and colorless shadows with a warning', () => {
+        expect(parsed.colors.some((c) => c.path.join('/') === 'wide')).toBe(false);
+        expect(parsed.shadows.map((s) => s.name)).toEqual(['drop-shadow/md']);
+        expect(parsed.warnings).toEqual([
+            'color.wide: display-p3 color can\'t be converted; skipped.',
+            'shadow.broken: a shadow layer has no color that can be converted; skipped.',
+        ]);
+    });
+
+    it('routes dimensions by group and converts rem to px', () => {
+        expect(parsed.spacing).toEqual([
+            { path: ['sm'], value: 8, rawValue: '0.5rem' },
+            { path: ['md'], value: 16, rawValue: '16px' },
+        ]);
+        expect(parsed.radius).toEqual([{ path: ['lg'], value: 8, rawValue: '8px' }]);
+    });
+
+    it('reads shadow layers', () => {
+        const layer = parsed.shadows[0].shadows[0];
+        expect(layer).toMatchObject({ x: 0, y: 4, blur: 6, spread: -1, type: 'DROP_SHADOW' });
+        expect(layer.color.a).toBeCloseTo(0.2, 2);
+    });
+
+    it('reads typography, font families and named weights', () => {
+        expect(parsed.typography).toEqual([
+            expect.objectContaining({ name: 'body', fontSize: 16, lineHeight: 1.5, letterSpacing: 0, fontWeight: 400 }),
+        ]);
+        expect(parsed.fonts).toEqual([expect.objectContaining({ family: 'Inter', rawValue: 'Inter, sans-serif' })]);
+        expect(parsed.fontWeights).toEqual([expect.objectContaining({ value: 700, rawValue: 'bold' })]);
+    });
+});
+
+describe('resolveReferences', () => {
+    it('resolves chains and embedded references, leaving cycles untouched', () => {
+        const resolved = resolveReferences(flattenDesignTokens({
+            size: {
+                $type: 'dimension',
+                base: { $value: '4px' },
+                alias: { $value: '{size.alias2}' },
+                alias2: { $value: '{size.base}' },
+                double: { $value: 'calc({size.base} * 2)' },
+                loop: { $value: '{size.loop}' },
+            },
+        }));
+        const byName = new Map(resolved.map((t) => [t.path.join('.'), t]));
+
+        expect(byName.get('size.alias')?.resolved).toBe('4px');
+        expect(byName.get('size.alias')?.reference).toBe('size.alias2');
+        expect(byName.get('size.double')?.resolved).toBe('calc(4px * 2)');
+        expect(byName.get('size.loop')?.resolved).toBe('{size.loop}');
+    });
+});
+
+describe('unit helpers', () => {
+    it('converts lengths to px', () => {
+        expect(toPx('1.5rem')).toBe(24);
+        expect(toPx({ value: 12, unit: 'px' })).toBe(12);
+        expect(toPx('auto')).toBeNull();
+    });
+
+    it('maps weight names to numbers', () => {
+        expect(toFontWeight('semi-bold')).toBe(600);
+        expect(toFontWeight(300)).toBe(300);
+    });
+});
@@ -0,0 +1,609 @@
+// ─── DTCG Token Parser ───────────────────────────────────────────────────────
+// Parses W3C Design Tokens Community Group (DTCG) JSON: nested groups,
+// `$value` / `$type` (inherited from parent groups) and `{group.token}`
+// references. References between variable-backed tokens are kept as aliases
+// so they become Figma variable aliases instead of flattened values.
+// Tokens whose value can't be converted, and aliases to them, are skipped
+// with a warning rather than created without a value.
+
+import { hslToRgba, oklchToRgba, parseColorValue, parseDimension, type FigmaColor } from './colorUtils';
+import { createEmptyTokenSet, type ParsedTokenSet, type ShadowLayer, type TokenReference } from './parser';
+import type { TokenCategory } from '../adapters/types';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface DesignToken {
+    path: string[];              // e.g. ["color", "brand", "primary"]
+    type: string | undefined;    // e.g. "color"
+    value: unknown;              // raw `$value`, may contain references
+    /** Collection the token is imported into, when a file spans several */
+    origin?: string;
+    /** Category to use when the group names don't identify one */
+    categoryHint?: TokenCategory;
+}
+
+export interface ResolvedDesignToken extends DesignToken {
+    /** Value with every reference replaced by the referenced value */
+    resolved: unknown;
+    /** Dotted path of the target when the value is exactly one reference */
+    reference: string | null;
+}
+
+/** Property names that mark a token and its type. */
+export interface TokenKeys {
+    valueKey: string;
+    typeKey: string;
+}
+
+const DTCG_KEYS: TokenKeys = { valueKey: '$value', typeKey: '$type' };
+
+// ─── Flattening ──────────────────────────────────────────────────────────────
+
+/**
+ * Flatten a nested token tree into a list of tokens.
+ * Group-level types are inherited by every token below the group.
+ */
+export function flattenDesignTokens(tree: Record<string, any>, keys: TokenKeys = DTCG_KEYS): DesignToken[] {
+    const tokens: DesignToken[] = [];
+
+    function walk(node: Record<string, any>, path: string[], inheritedType: string | undefined) {
+        const type = typeof node[keys.typeKey] === 'string' ? node[keys.typeKey] : inheritedType;
+
+        if (keys.valueKey in node) {
+            tokens.push({ path, type, value: node[keys.valueKey] });
+            return;
+        }
+
+        for (const [key, child] of Object.entries(node)) {
+            if (key.startsWith('$')) continue;
+            if (child && typeof child === 'object' && !Array.isArray(child)) {
+                walk(child, path.concat(key), type);
+            }
+        }
+    }
+
+    walk(tree, [], undefined);
+    return tokens;
+}
+
+// ─── Reference Resolution ────────────────────────────────────────────────────
+
+const REFERENCE = /^\{([^{}]+)\}$/;
+const EMBEDDED_REFERENCE = /\{([^{}]+)\}/g;
+
+/** Return the dotted target path when a value is exactly one `{reference}`. */
+export function referencePath(value: unknown): string | null {
+    if (typeof value !== 'string') return null;
+    const match = value.trim().match(REFERENCE);
+    return match ? match[1].trim() : null;
+}
+
+/**
+ * Resolve references across a token list.
+ * A value that is exactly one reference takes the target's resolved value
+ * (and type, if it has none); references inside a longer string are
+ * substituted as text, then passed through `evaluate` (e.g. for math).
+ * Unknown and circular references are left untouched.
+ */
+export function resolveReferences(
+    tokens: DesignToken[],
+    evaluate?: (value: string) => string
+): ResolvedDesignToken[] {
+    const index = new Map<string, DesignToken>();
+    for (const token of tokens) {
+        index.set(token.path.join('.'), token);
+    }
+
+    const resolved = new Map<string, unknown>();
+    const resolving = new Set<string>();
+
+    function resolveToken(key: string): unknown {
+        if (resolved.has(key)) return resolved.get(key);
+        const token = index.get(key)!;
+        if (resolving.has(key)) return token.value;
+
+        resolving.add(key);
+        const value = resolveValue(token.value);
+        resolving.delete(key);
+
+        resolved.set(key, value);
+        return value;
+    }
+
+    function resolveValue(value: unknown): unknown {
+        if (typeof value === 'string') {
+            const target = referencePath(value);
+            if (target !== null) {
+                return index.has(target) ? resolveToken(target) : value;
+            }
+            const substituted = value.replace(EMBEDDED_REFERENCE, function (whole: string, path: string) {
+                const key = path.trim();
+                if (!index.has(key)) return whole;
+                const inner = resolveToken(key);
+                return typeof inner === 'string' || typeof inner === 'number' ? String(inner) : whole;
+            });
+            return evaluate ? evaluate(substituted) : substituted;
+        }
+        if (Array.isArray(value)) {
+            return value.map(resolveValue);
+        }
+        if (value && typeof value === 'object') {
+            const result: Record<string, unknown> = {};
+            for (const [k, v] of Object.entries(value)) {
+                result[k] = resolveValue(v);
+            }
+            return result;
+        }
+        return value;
+    }
+
+    function resolveType(token: DesignToken, seen: Set<string>): string | undefined {
+        if (token.type) return token.type;
+        const target = referencePath(token.value);
+        if (target === null || seen.has(target) || !index.has(target)) return undefined;
+        seen.add(target);
+        return resolveType(index.get(target)!, seen);
+    }
+
+    return tokens.map(function (token) {
+        return {
+            path: token.path,
+            type: resolveType(token, new Set()),
+            value: token.value,
+            origin: token.origin,
+            categoryHint: token.categoryHint,
+            resolved: resolveToken(token.path.join('.')),
+            reference: referencePath(token.value),
+        };
+    });
+}
+
+// ─── Categorization ──────────────────────────────────────────────────────────
+
+/**
+ * Group names that route dimension / number tokens to a category.
+ * Keys are lowercase with separators removed.
+ */
+const GROUP_CATEGORIES: Record<string, TokenCategory> = {
+    spacing: 'spacing',
+    space: 'spacing',
+    size: 'spacing',
+    sizing: 'spacing',
+    radius: 'radius',
+    radii: 'radius',
+    borderradius: 'radius',
+    rounded: 'radius',
+    breakpoint: 'breakpoints',
+    breakpoints: 'breakpoints',
+    screen: 'breakpoints',
+    screens: 'breakpoints',
+    container: 'containers',
+    containers: 'containers',
+    blur: 'blur',
+    borderwidth: 'borderWidth',
+    letterspacing: 'tracking',
+    tracking: 'tracking',
+    lineheight: 'leading',
+    lineheights: 'leading',
+    leading: 'leading',
+    opacity: 'opacity',
+    fontweight: 'fontWeights',
+    fontweights: 'fontWeights',
+    weight: 'fontWeights',
+    easing: 'easing',
+    ease: 'easing',
+    cubicbezier: 'easing',
+};
+
+/** Group names that mark standalone font sizes. */
+const FONT_SIZE_GROUPS = ['fontsize', 'fontsizes', 'text'];
+
+/** Group names stripped from the front of color and font paths. */
+const COLOR_GROUPS = ['color', 'colors'];
+const FONT_FAMILY_GROUPS = ['font', 'fonts', 'fontfamily', 'fontfamilies', 'family'];
+
+const FONT_WEIGHT_KEYWORDS: Record<string, number> = {
+    thin: 100,
+    hairline: 100,
+    extralight: 200,
+    ultralight: 200,
+    light: 300,
+    normal: 400,
+    regular: 400,
+    book: 400,
+    medium: 500,
+    semibold: 600,
+    demibold: 600,
+    bold: 700,
+    extrabold: 800,
+    ultrabold: 800,
+    black: 900,
+    heavy: 900,
+    extrablack: 950,
+    ultrablack: 950,
+};
+
+/** Where a token ends up in the parsed set. */
+interface Destination {
+    ref: TokenReference;
+    kind: 'COLOR' | 'FLOAT' | 'STRING';
+    origin?: string;
+}
+
+/**
+ * Convert resolved design tokens into a ParsedTokenSet.
+ * Handles color, dimension, number, fontWeight, fontFamily, cubicBezier,
+ * shadow and typography tokens; other types are skipped.
+ *
+ * `context` holds every token references may point at (defaults to
+ * `tokens`); targets from another origin alias across collections.
+ */
+export function buildTokenSet(
+    tokens: ResolvedDesignToken[],
+    context: ResolvedDesignToken[] = tokens
+): ParsedTokenSet {
+    const result = createEmptyTokenSet();
+    const warnings: string[] = [];
+    const destinations = new Map<string, Destination>();
+
+    // Pass 1: route variable-backed tokens so references can find their target;
+    // a target whose value can't be converted would be created empty
+    for (const token of context) {
+        const destination = routeToken(token);
+        if (destination && convertValue(token, destination) !== null) destinations.set(token.path.join('.'), destination);
+    }
+
+    // Pass 2: convert values and attach aliases
+    for (const token of tokens) {
+        const name = token.path.join('.');
+        const destination = routeToken(token);
+        const target = token.reference !== null ? destinations.get(token.reference) : undefined;
+        let alias: TokenReference | undefined;
+        if (destination && target && target.kind === destination.kind) {
+            alias = target.origin !== token.origin
+                ? { collection: target.origin, category: target.ref.category, path: target.ref.path }
+                : target.ref;
+        }
+
+        if (destination) {
+            // Aliases to such a token share its value, so they're skipped too
+            if (!addVariableToken(result, token, destination, alias)) {
+                warnings.push(name + ': ' + describeValue(token.resolved) + ' can\'t be converted; skipped.');
+            }
+            continue;
+        }
+
+        if (token.type === 'shadow') {
+            const layers = toShadowLayers(token.resolved);
+            if (!layers) {
+                warnings.push(name + ': a shadow layer has no color that can be converted; skipped.');
+            } else if (layers.length > 0) {
+                result.shadows.push({
+                    name: 'drop-shadow/' + stripGroup(token.path, ['shadow', 'shadows', 'boxshadow', 'elevation']).join('/'),
+                    shadows: layers,
+                    rawValue: JSON.stringify(token.resolved),
+                });
+            }
+        } else if (token.type === 'typography') {
+            addTypography(result, token);
+        } else if (token.type === 'fontFamily') {
+            const families = Array.isArray(token.resolved) ? token.resolved : [token.resolved];
+            if (typeof families[0] === 'string') {
+                result.fonts.push({
+                    name: stripGroup(token.path, FONT_FAMILY_GROUPS).join('-'),
+                    family: families[0].replace(/['"]/g, '').trim(),
+                    rawValue: families.join(', '),
+                });
+            }
+        } else if (isFontSize(token)) {
+            const size = toPx(token.resolved);
+            if (size !== null) {
+                result.typography.push({
+                    name: stripGroup(token.path, FONT_SIZE_GROUPS).join('-'),
+                    fontSize: size,
+                    rawValue: formatRaw(token.resolved),
+                });
+            }
+        }
+    }
+
+    if (warnings.length > 0) result.warnings = warnings;
+    return result;
+}
+
+/**
+ * Parse a DTCG token tree into a ParsedTokenSet.
+ */
+export function parseDtcgTokens(tree: Record<string, any>): ParsedTokenSet {
+    return buildTokenSet(resolveReferences(flattenDesignTokens(tree)));
+}
+
+/**
+ * Where a token is stored once imported, or null for tokens that become
+ * styles (shadows, typography) or are skipped.
+ */
+export function tokenDestination(token: ResolvedDesignToken): TokenReference | null {
+    const destination = routeToken(token);
+    return destination ? destination.ref : null;
+}
+
+// ─── Token Routing ───────────────────────────────────────────────────────────
+
+function routeToken(token: ResolvedDesignToken): Destination | null {
+    const destination = routeByType(token);
+    if (destination) destination.origin = token.origin;
+    return destination;
+}
+
+function routeByType(token: ResolvedDesignToken): Destination | null {
+    switch (token.type) {
+        case 'color':
+            return { ref: { category: 'colors', path: stripGroup(token.path, COLOR_GROUPS) }, kind: 'COLOR' };
+
+        case 'cubicBezier':
+            return { ref: { category: 'easing', path: stripGroup(token.path, ['easing', 'ease', 'cubicbezier', 'motion']) }, kind: 'STRING' };
+
+        case 'fontWeight':
+            return { ref: { category: 'fontWeights', path: stripGroup(token.path, ['fontweight', 'fontweights', 'weight', 'font']) }, kind: 'FLOAT' };
+
+        case 'dimension':
+        case 'number': {
+            if (isFontSize(token)) return null;
+            const groupIndex = token.path.findIndex(function (segment, i) {
+                return i < token.path.length - 1 && normalizeGroup(segment) in GROUP_CATEGORIES;
+            });
+            if (groupIndex < 0) {
+                if (token.categoryHint) {
+                    return { ref: { category: token.categoryHint, path: token.path.map(sanitizeSegment) }, kind: 'FLOAT' };
+                }
+                // Unlabelled dimensions are most often spacing; bare numbers have no home
+                if (token.type === 'number') return null;
+                return { ref: { category: 'spacing', path: token.path.map(sanitizeSegment) }, kind: 'FLOAT' };
+            }
+            const category = GROUP_CATEGORIES[normalizeGroup(token.path[groupIndex])];
+            if (category === 'easing') return null;
+            return {
+                ref: { category: category, path: token.path.slice(groupIndex + 1).map(sanitizeSegment) },
+                kind: 'FLOAT',
+            };
+        }
+
+        default:
+            return null;
+    }
+}
+
+/** The token's value as its destination stores it, or null when it can't be converted. */
+function convertValue(token: ResolvedDesignToken, destination: Destination): FigmaColor | number[] | number | null {
+    switch (destination.ref.category) {
+        case 'colors': return toColor(token.resolved);
+        case 'easing': return toCubicBezier(token.resolved);
+        case 'fontWeights': return toFontWeight(token.resolved);
+        default: return toPx(token.resolved);
+    }
+}
+
+/** Add a variable-backed token. Returns false when its value can't be converted. */
+function addVariableToken(
+    result: ParsedTokenSet,
+    token: ResolvedDesignToken,
+    destination: Destination,
+    alias: TokenReference | undefined
+): boolean {
+    const { category, path } = destination.ref;
+    const rawValue = formatRaw(token.resolved);
+
+    if (category === 'colors') {
+        const color = toColor(token.resolved);
+        if (!color) return false;
+        result.colors.push({ path, figmaColor: color, rawValue, alias });
+        return true;
+    }
+
+    if (category === 'easing') {
+        const curve = toCubicBezier(token.resolved);
+        if (!curve) return false;
+        result.easing.push({ path, value: curve, rawValue: 'cubic-bezier(' + curve.join(', ') + ')', alias });
+        return true;
+    }
+
+    const value = category === 'fontWeights' ? toFontWeight(token.resolved) : toPx(token.resolved);
+    if (value === null) return false;
+
+    switch (category) {
+        case 'spacing': result.spacing.push({ path, value, rawValue, alias }); break;
+        case 'radius': result.radius.push({ path, value, rawValue, alias }); break;
+        case 'breakpoints': result.breakpoints.push({ path, value, rawValue, alias }); break;
+        case 'containers': result.containers.push({ path, value, rawValue, alias }); break;
+        case 'blur': result.blur.push({ path, value, rawValue, alias }); break;
+        case 'borderWidth': result.borderWidth.push({ path, value, rawValue, alias }); break;
+        case 'tracking': result.tracking.push({ path, value, rawValue, alias }); break;
+        case 'leading': result.leading.push({ path, value, rawValue, alias }); break;
+        case 'opacity': result.opacity.push({ path, value, rawValue, alias }); break;
+        case 'fontWeights': result.fontWeights.push({ path, value, rawValue, alias }); break;
+    }
+    return true;
+}
+
+function addTypography(result: ParsedTokenSet, token: ResolvedDesignToken): void {
+    const value = token.resolved;
+    if (!value || typeof value !== 'object') return;
+    const typo = value as Record<string, unknown>;
+
+    const fontSize = toPx(typo.fontSize);
+    if (fontSize === null) return;
+
+    // Unitless line heights stay ratios, dimensions become px
+    let lineHeight: number | undefined;
+    if (typeof typo.lineHeight === 'number') {
+        lineHeight = typo.lineHeight;
+    } else if (typo.lineHeight !== undefined) {
+        lineHeight = toPx(typo.lineHeight) ?? undefined;
+    }
+
+    const letterSpacing = typo.letterSpacing !== undefined ? toPx(typo.letterSpacing) ?? undefined : undefined;
+    const fontWeight = typo.fontWeight !== undefined ? toFontWeight(typo.fontWeight) ?? undefined : undefined;
+
+    result.typography.push({
+        name: stripGroup(token.path, ['typography', 'text', 'type']).join('-'),
+        fontSize,
+        lineHeight,
+        letterSpacing,
+        fontWeight,
+        rawValue: JSON.stringify(value),
+    });
+}
+
+// ─── Value Conversion ────────────────────────────────────────────────────────
+
+/**
+ * Convert a color string or a DTCG color object to Figma RGBA. Color
+ * objects in srgb, srgb-linear, hsl, oklab and oklch are converted; other
+ * spaces fall back to their `hex`, if they have one.
+ */
+function toColor(value: unknown): FigmaColor | null {
+    if (typeof value === 'string') return parseColorValue(value);
+    if (!value || typeof value !== 'object') return null;
+
+    const color = value as { colorSpace?: string; components?: unknown[]; alpha?: number; hex?: string };
+    const alpha = typeof color.alpha === 'number' ? color.alpha : 1;
+    // `none` components count as zero
+    const components = Array.isArray(color.components) && color.components.length === 3
+        ? color.components.map(function (c) { return c === 'none' ? 0 : c; })
+        : null;
+    if (components && components.every(isFiniteNumber)) {
+        const [c1, c2, c3] = components as number[];
+        switch (color.colorSpace) {
+            case 'srgb': return { r: c1, g: c2, b: c3, a: alpha };
+            case 'srgb-linear': return { r: linearToSrgb(c1), g: linearToSrgb(c2), b: linearToSrgb(c3), a: alpha };
+            case 'hsl': return hslToRgba(((c1 % 360) + 360) % 360, c2, c3, alpha);
+            case 'oklch': return oklchToRgba(c1, c2, c3, alpha);
+            case 'oklab': return oklchToRgba(c1, Math.sqrt(c2 * c2 + c3 * c3), Math.atan2(c3, c2) * 180 / Math.PI, alpha);
+        }
+    }
+    if (typeof color.hex === 'string') {
+        const parsed = parseColorValue(color.hex);
+        if (parsed && typeof color.alpha === 'number') parsed.a = color.alpha;
+        return parsed;
+    }
+    return null;
+}
+
+/** Convert a dimension string, number or `{ value, unit }` object to px. */
+export function toPx(value: unknown): number | null {
+    if (typeof value === 'number') return value;
+    if (typeof value === 'string') return parseDimension(value);
+    if (value && typeof value === 'object' && 'value' in value) {
+        const dim = value as { value: unknown; unit?: string };
+        if (!isFiniteNumber(dim.value)) return null;
+        return dim.unit === 'rem' || dim.unit === 'em' ? dim.value * 16 : dim.value;
+    }
+    return null;
+}
+
+/** Convert a numeric or keyword font weight (e.g. "semi-bold") to a number. */
+export function toFontWeight(value: unknown): number | null {
+    if (typeof value === 'number') return value;
+    if (typeof value !== 'string') return null;
+    const numeric = parseFloat(value);
+    if (!isNaN(numeric)) return numeric;
+    const keyword = FONT_WEIGHT_KEYWORDS[value.toLowerCase().replace(/[\s_-]/g, '')];
+    return keyword !== undefined ? keyword : null;
+}
+
+function toCubicBezier(value: unknown): [number, number, number, number] | null {
+    if (Array.isArray(value) && value.length === 4 && value.every(isFiniteNumber)) {
+        return value as [number, number, number, number];
+    }
+    if (typeof value === 'string') {
+        const match = value.match(/cubic-bezier\(\s*([^)]+)\)/);
+        if (match) {
+            const nums = match[1].split(',').map(function (n) { return parseFloat(n); });
+            if (nums.length === 4 && nums.every(isFiniteNumber)) {
+                return nums as [number, number, number, number];
+            }
+        }
+    }
+    return null;
+}
+
+/** Shadow layers of a shadow value, or null when a layer's color is missing or can't be converted. */
+function toShadowLayers(value: unknown): ShadowLayer[] | null {
+    const layers = Array.isArray(value) ? value : [value];
+    const result: ShadowLayer[] = [];
+
+    for (const layer of layers) {
+        if (!layer || typeof layer !== 'object') continue;
+        const shadow = layer as Record<string, unknown>;
+        const color = toColor(shadow.color);
+        if (!color) return null;
+        result.push({
+            x: toPx(shadow.offsetX) ?? 0,
+            y: toPx(shadow.offsetY) ?? 0,
+            blur: toPx(shadow.blur) ?? 0,
+            spread: toPx(shadow.spread) ?? 0,
+            color,
+            type: shadow.inset === true ? 'INNER_SHADOW' : 'DROP_SHADOW',
+        });
+    }
+
+    return result;
+}
+
+function linearToSrgb(c: number): number {
+    const v = c <= 0.0031308 ? 12.92 * c : 1.055 * Math.pow(c, 1 / 2.4) - 0.055;
+    return Math.min(1, Math.max(0, v));
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+/** Font sizes become text styles rather than variables. */
+function isFontSize(token: ResolvedDesignToken): boolean {
+    if (token.type !== 'dimension') return false;
+    return token.categoryHint === 'typography' || findGroup(token.path, FONT_SIZE_GROUPS) >= 0;
+}
+
+function isFiniteNumber(value: unknown): value is number {
+    return typeof value === 'number' && isFinite(value);
+}
+
+function normalizeGroup(segment: string): string {
+    return segment.toLowerCase().replace(/[\s_-]/g, '');
+}
+
+function findGroup(path: string[], groups: string[]): number {
+    return path.findIndex(function (segment, i) {
+        return i < path.length - 1 && groups.indexOf(normalizeGroup(segment)) >= 0;
+    });
+}
+
+/**
+ * Drop everything up to and including the first matching group name.
+ * Paths without a matching group are kept whole.
+ */
+function stripGroup(path: string[], groups: string[]): string[] {
+    const index = findGroup(path, groups);
+    return path.slice(index + 1).map(sanitizeSegment);
+}
+
+/** Dots are not allowed in Figma variable names ("0.5" → "0_5"). */
+function sanitizeSegment(segment: string): string {
+    return segment.replace(/\./g, '_');
+}
+
+/** Short description of a value for warnings, e.g. `display-p3 color`. */
+function describeValue(value: unknown): string {
+    if (value && typeof value === 'object' && typeof (value as { colorSpace?: unknown }).colorSpace === 'string') {
+        return (value as { colorSpace: string }).colorSpace + ' color';
+    }
+    return formatRaw(value);
+}
+
+function formatRaw(value: unknown): string {
+    if (typeof value === 'string') return value;
+    if (value && typeof value === 'object' && 'value' in value && 'unit' in value) {
+        const dim = value as { value: number; unit: string };
+        return dim.value + dim.unit;
+    }
+    return JSON.stringify(value);
+}
@@ -7,7 +7,7 @@ const cache = new Map<string, string>();
 /**
  * Build a raw.githubusercontent.com URL.
  */
-function buildRawUrl(owner: string, repo: string, path: string, branch = 'main'): string {
+export function rawGitHubUrl(owner: string, repo: string, path: string, branch = 'main'): string {
     return `https://raw.githubusercontent.com/${owner}/${repo}/${branch}/${path}`;
 }
 
@@ -23,7 +23,7 @@ export async function fetchRawFromGitHub(
     path: string,
     branch = 'main'
 ): Promise<string> {
-    const url = buildRawUrl(owner, repo, path, branch);
+    const url = rawGitHubUrl(owner, repo, path, branch);
 
     if (cache.has(url)) {
         return cache.get(url)!;
@@ -60,6 +60,18 @@ export async function fetchRawUrl(url: string): Promise<string> {
     return text;
 }
 
+/**
+ * List the tags of a repository's published releases, newest first.
+ * Drafts and pre-releases are left out. Cached like file content.
+ */
+export async function fetchGitHubReleases(owner: string, repo: string): Promise<string[]> {
+    const url = `https://api.github.com/repos/${owner}/${repo}/releases?per_page=100`;
+    const releases = JSON.parse(await fetchRawUrl(url)) as { tag_name: string; draft: boolean; prerelease: boolean }[];
+    return releases
+        .filter((release) => !release.draft && !release.prerelease)
+        .map((release) => release.tag_name);
+}
+
 /** Clear the session cache. Useful for manual refresh. */
 export function clearCache(): void {
     cache.clear();
@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { styleForWeight, timePhases, type ImportProgress } from './figmaSync';
+
+describe('timePhases', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    const progress = (phase: string): ImportProgress => ({ current: 0, total: 1, phase, message: '' });
+
+    it('reports the timings of the phases finished so far', () => {
+        const reports: ImportProgress[] = [];
+        const timer = timePhases((p) => reports.push(p));
+
+        timer.onProgress(progress('Colors'));
+        vi.advanceTimersByTime(120);
+        timer.onProgress(progress('Colors'));
+        vi.advanceTimersByTime(30);
+        timer.onProgress(progress('Spacing'));
+
+        expect(reports.map((r) => r.timings)).toEqual([[], [], [{ phase: 'Colors', ms: 150 }]]);
+    });
+
+    it('adds up a phase that runs again and ends the last one on finish', () => {
+        const timer = timePhases(() => {});
+        timer.onProgress(progress('Colors'));
+        vi.advanceTimersByTime(100);
+        timer.onProgress(progress('Styles'));
+        vi.advanceTimersByTime(50);
+        timer.onProgress(progress('Colors'));
+        vi.advanceTimersByTime(25);
+
+        expect(timer.finish()).toEqual([{ phase: 'Colors', ms: 125 }, { phase: 'Styles', ms: 50 }]);
+    });
+});
+
+describe('styleForWeight', () => {
+    const inter = ['Thin', 'ExtraLight', 'Light', 'Regular', 'Medium', 'Semi Bold', 'Bold', 'Extra-Bold', 'Black', 'Bold Italic'];
+
+    it('matches style names however they are spaced or hyphenated', () => {
+        expect(styleForWeight(inter, 600)).toBe('Semi Bold');
+        expect(styleForWeight(inter, 200)).toBe('ExtraLight');
+        expect(styleForWeight(inter, 800)).toBe('Extra-Bold');
+        expect(styleForWeight(['Book', 'Heavy'], 400)).toBe('Book');
+    });
+
+    it('rounds to the nearest weight, within 100 to 900', () => {
+        expect(styleForWeight(inter, 550)).toBe('Semi Bold');
+        expect(styleForWeight(inter, 50)).toBe('Thin');
+        expect(styleForWeight(inter, 950)).toBe('Black');
+    });
+
+    it('finds nothing for a weight the family lacks', () => {
+        expect(styleForWeight(['Regular', 'Bold'], 600)).toBeNull();
+        expect(styleForWeight(['Bold Italic'], 700)).toBeNull();
+    });
+});
@@ -2,9 +2,12 @@
 // Orchestrates the full import pipeline: takes parsed tokens and creates
 // Figma Variables (with scopes), Effect Styles, and Text Styles.
 
-import type { ParsedTokenSet, ParsedColor, ParsedFloat, ParsedShadow, ParsedTypography, ParsedFont } from './parser';
+import type { ParsedTokenSet, ParsedColor, ParsedFloat, ParsedShadow, ParsedTypography, ParsedFont, ThemeMode, TokenReference } from './parser';
+import type { TokenCategory } from '../adapters/types';
 import type { FigmaColor } from './colorUtils';
-import { parseColorValue } from './colorUtils';
+import { parseColorValue, parseDimension } from './colorUtils';
+import { stampProvenance, type ImportOrigin } from './provenance';
+import { recordWrittenValues } from './conflicts';
 import {
     findOrCreateCollection,
     ensureModes,
@@ -13,9 +16,14 @@ import {
     setStringVariable,
     setVariableAlias,
     findOrCreateVariable,
+    findOrCreateStyle,
+    findVariableByName,
     getVariablesInCollection,
+    openImportSession,
     resolveColorAlias,
+    resolveFloatAlias,
     type CollectionInfo,
+    type ImportSession,
 } from './variableManager';
 
 // ─── Types ───────────────────────────────────────────────────────────────────
@@ -37,23 +45,97 @@ export interface ImportOptions {
     importBorderWidth: boolean;
     importOpacity: boolean;
     importSkew: boolean;
+    importEasing: boolean;
+    /** Where the tokens came from, stamped on every variable and style written */
+    origin?: ImportOrigin;
 }
 
 export interface ThemeImportOptions extends ImportOptions {
-    lightTokens: Record<string, string>;
-    darkTokens: Record<string, string>;
+    /** Modes in collection order; the first one becomes the default mode */
+    modes: ThemeMode[];
+    /** Collection to alias matching colors to; empty to store raw values */
     primitiveCollectionName: string;
 }
 
+export interface PrimitiveImportResult extends CollectionInfo {
+    /** Families and weights whose text styles had no real font style and used another */
+    fontFallbacks: FontFallback[];
+}
+
+export interface FontFallback {
+    family: string;
+    /** Omitted when the whole family is missing */
+    weight?: number;
+    /** Font the text styles use instead */
+    fontName: FontName;
+}
+
+export interface ThemeImportResult extends CollectionInfo {
+    /** Token names each mode had no value for, keyed by mode name */
+    missing: Record<string, string[]>;
+}
+
 export interface ImportProgress {
     current: number;
     total: number;
     phase: string;
     message: string;
+    /** Time spent in each phase finished so far, in the order they first ran */
+    timings?: PhaseTiming[];
+}
+
+export interface PhaseTiming {
+    phase: string;
+    ms: number;
 }
 
 export type ProgressCallback = (progress: ImportProgress) => void;
 
+export interface PhaseTimer {
+    /** Report progress; starting a new phase ends the previous one */
+    onProgress: ProgressCallback;
+    /** End the current phase and return every phase's total */
+    finish: () => PhaseTiming[];
+}
+
+// ─── Phase Timing ────────────────────────────────────────────────────────────
+
+/**
+ * Wrap a progress callback so every report carries the timings of the
+ * phases finished so far. A phase runs from its first report until another
+ * phase reports; a phase that runs again, e.g. once per job, adds up.
+ */
+export function timePhases(report: ProgressCallback): PhaseTimer {
+    var timings: PhaseTiming[] = [];
+    var phase = '';
+    var started = Date.now();
+
+    var endPhase = function () {
+        var now = Date.now();
+        if (phase) {
+            var timing = timings.find(function (t) { return t.phase === phase; });
+            if (timing) timing.ms += now - started;
+            else timings.push({ phase: phase, ms: now - started });
+        }
+        started = now;
+    };
+
+    return {
+        onProgress: function (progress) {
+            if (progress.phase !== phase) {
+                endPhase();
+                phase = progress.phase;
+            }
+            report({ ...progress, timings: timings.slice() });
+        },
+        finish: function () {
+            endPhase();
+            phase = '';
+            return timings.slice();
+        },
+    };
+}
+
 // ─── Scope Helpers ───────────────────────────────────────────────────────────
 
 /**
@@ -63,7 +145,185 @@ function applyScopes(variable: Variable, scopes: VariableScope[]): void {
     variable.scopes = scopes;
 }
 
-function mapFontFamily(fontFamily: string): string {
+/**
+ * Stamp a variable or style with the adapter, source and raw value it came
+ * from. Variables also record the values just written, to spot local edits.
+ */
+function recordProvenance(target: Variable | BaseStyle, options: ImportOptions, rawValue: string): void {
+    if (options.origin) stampProvenance(target, options.origin, rawValue);
+    if ('valuesByMode' in target) recordWrittenValues(target);
+}
+
+// ─── Variable Naming ─────────────────────────────────────────────────────────
+
+/** Figma variable group for each category that is stored as variables. */
+export const VARIABLE_GROUPS: Partial<Record<TokenCategory, string>> = {
+    colors: 'colors',
+    spacing: 'spacing',
+    radius: 'radius',
+    blur: 'blur',
+    opacity: 'opacity',
+    breakpoints: 'breakpoint',
+    containers: 'container',
+    fontWeights: 'typography/weight',
+    tracking: 'typography/tracking',
+    leading: 'typography/leading',
+    borderWidth: 'border-width',
+    skew: 'skew',
+    easing: 'easing',
+};
+
+/** Option flag that enables each variable-backed category. */
+const CATEGORY_OPTIONS: Partial<Record<TokenCategory, keyof ImportOptions>> = {
+    colors: 'importColors',
+    spacing: 'importSpacing',
+    radius: 'importRadius',
+    blur: 'importBlur',
+    opacity: 'importOpacity',
+    breakpoints: 'importBreakpoints',
+    containers: 'importContainers',
+    fontWeights: 'importFontWeights',
+    tracking: 'importTracking',
+    leading: 'importLeading',
+    borderWidth: 'importBorderWidth',
+    skew: 'importSkew',
+    easing: 'importEasing',
+};
+
+/** Build the Figma variable name of a token, e.g. colors/red/500. */
+export function variableName(category: TokenCategory, path: string[]): string {
+    return VARIABLE_GROUPS[category] + '/' + path.join('/');
+}
+
+// ─── Float Categories ────────────────────────────────────────────────────────
+
+/** A category of float tokens that `importPrimitives` writes as plain variables. */
+export interface FloatCategory {
+    category: TokenCategory;
+    /** Progress phase */
+    phase: string;
+    scopes: VariableScope[];
+    /** The category's tokens that are written as variables */
+    tokens: (tokens: ParsedTokenSet) => ParsedFloat[];
+}
+
+/** Named line heights, which only text styles use; they're never variables. */
+const NAMED_LEADING = ['tight', 'snug', 'normal', 'relaxed', 'loose'];
+
+/**
+ * The float categories in the order `importPrimitives` writes them. The
+ * import plan reads the same table, so it lists exactly what is written.
+ */
+export const FLOAT_CATEGORIES: FloatCategory[] = [
+    { category: 'spacing', phase: 'Spacing', scopes: ['GAP', 'WIDTH_HEIGHT', 'PARAGRAPH_SPACING'], tokens: function (t) { return t.spacing; } },
+    { category: 'radius', phase: 'Radius', scopes: ['CORNER_RADIUS'], tokens: function (t) { return t.radius; } },
+    { category: 'opacity', phase: 'Opacity', scopes: ['OPACITY'], tokens: function (t) { return t.opacity; } },
+    { category: 'breakpoints', phase: 'Breakpoints', scopes: ['WIDTH_HEIGHT'], tokens: function (t) { return t.breakpoints; } },
+    { category: 'containers', phase: 'Containers', scopes: ['WIDTH_HEIGHT'], tokens: function (t) { return t.containers; } },
+    { category: 'tracking', phase: 'Tracking', scopes: ['LETTER_SPACING'], tokens: function (t) { return t.tracking; } },
+    {
+        category: 'leading',
+        phase: 'Leading',
+        scopes: ['LINE_HEIGHT'],
+        tokens: function (t) { return t.leading.filter(function (ld) { return NAMED_LEADING.indexOf(ld.path[0]) < 0; }); },
+    },
+    { category: 'borderWidth', phase: 'Border Width', scopes: ['STROKE_FLOAT'], tokens: function (t) { return t.borderWidth; } },
+    // No Figma property takes a skew, keep it out of every picker
+    { category: 'skew', phase: 'Skew', scopes: [], tokens: function (t) { return t.skew; } },
+];
+
+/** Categories written whatever their option says. */
+const ALWAYS_WRITTEN: TokenCategory[] = ['opacity'];
+
+/** Whether `importPrimitives` writes a variable-backed category with these options. */
+export function writesCategory(category: TokenCategory, options: ImportOptions): boolean {
+    if (ALWAYS_WRITTEN.indexOf(category) >= 0) return true;
+    const flag = CATEGORY_OPTIONS[category];
+    return !!flag && !!options[flag];
+}
+
+/**
+ * Names of the token variables `importPrimitives` writes with these options,
+ * which a reference in the same collection may alias. The typography
+ * variables it derives from text sizes aren't tokens, so no reference names them.
+ */
+export function writtenTokenNames(tokens: ParsedTokenSet, options: ImportOptions): Set<string> {
+    const names = new Set<string>();
+    const add = function (category: TokenCategory, list: { path: string[] }[]) {
+        if (!writesCategory(category, options)) return;
+        for (const token of list) names.add(variableName(category, token.path));
+    };
+    add('fontWeights', tokens.fontWeights);
+    add('colors', tokens.colors);
+    add('blur', tokens.blur);
+    FLOAT_CATEGORIES.forEach(function (group) { add(group.category, group.tokens(tokens)); });
+    add('easing', tokens.easing);
+    return names;
+}
+
+/** Names of the text, effect and grid styles `importPrimitives` writes with these options. */
+export function writtenStyleNames(tokens: ParsedTokenSet, options: ImportOptions): string[] {
+    const names: string[] = [];
+    if (options.importTypography) {
+        const weightMatrix = options.importFontWeights && tokens.fontWeights.length > 0;
+        for (const typo of tokens.typography) {
+            if (!weightMatrix) names.push('text-' + typo.name);
+            else for (const fw of tokens.fontWeights) names.push('text-' + typo.name + '/' + fw.path.join('/'));
+        }
+    }
+    if (options.importShadows) {
+        for (const shadow of tokens.shadows) names.push(shadow.name);
+    }
+    if (options.importBlur) {
+        for (const blur of tokens.blur) names.push(variableName('blur', blur.path));
+        for (const blur of backdropBlurTokens(tokens)) names.push('backdrop-blur/' + blur.path.join('/'));
+    }
+    if (options.importMaxWidth) {
+        for (const mw of tokens.maxWidth || []) names.push('max-width/' + mw.path.join('/'));
+    }
+    return names;
+}
+
+/** Tokens written as backdrop-blur variables and styles: every blur, then the explicit backdrop blurs. */
+export function backdropBlurTokens(tokens: ParsedTokenSet): ParsedFloat[] {
+    return tokens.blur.concat(tokens.backdropBlur || []);
+}
+
+/**
+ * Point a token's variable at the variable its reference names.
+ * Returns null when the token has no reference or the target is not part of
+ * this import, so the caller writes the resolved value instead. `written`
+ * holds the names this job writes (`writtenTokenNames`): a target in this
+ * collection outside it would be created empty, with no value in any mode.
+ */
+function aliasTokenVariable(
+    session: ImportSession,
+    collection: VariableCollection,
+    modeId: string,
+    name: string,
+    type: VariableResolvedDataType,
+    alias: TokenReference | undefined,
+    written: Set<string>
+): Variable | null {
+    if (!alias) return null;
+
+    let target: Variable | null;
+    if (alias.collection && alias.collection !== collection.name) {
+        // Other collections are imported first; alias only what already exists
+        target = findVariableByName(session, alias.collection, variableName(alias.category, alias.path));
+        if (!target || target.resolvedType !== type) return null;
+    } else {
+        const targetName = variableName(alias.category, alias.path);
+        if (!written.has(targetName)) return null;
+        target = findOrCreateVariable(session, collection, targetName, type);
+    }
+
+    const variable = findOrCreateVariable(session, collection, name, type);
+    setVariableAlias(variable, modeId, target);
+    return variable;
+}
+
+export function mapFontFamily(fontFamily: string): string {
     if (fontFamily === 'ui-sans-serif' || fontFamily === 'system-ui') return 'Inter';
     if (fontFamily === 'ui-serif') return 'Georgia';
     if (fontFamily === 'ui-monospace') return 'Roboto Mono';
@@ -74,29 +334,37 @@ function mapFontFamily(fontFamily: string): string {
 
 /**
  * Import primitive tokens into a single-mode collection.
- * Async because Text Styles require font loading.
+ * Async because Text Styles require font loading. Pass the import's session
+ * to share its variable index between jobs; otherwise one is opened.
  */
 export async function importPrimitives(
     tokens: ParsedTokenSet,
     options: ImportOptions,
-    onProgress?: ProgressCallback
-): Promise<CollectionInfo> {
+    onProgress?: ProgressCallback,
+    session?: ImportSession
+): Promise<PrimitiveImportResult> {
     var total = countTokens(tokens, options);
     var current = 0;
+    var fontFallbacks: FontFallback[] = [];
 
-    var info = await findOrCreateCollection(options.collectionName);
+    session = session || await openImportSession();
+    var info = findOrCreateCollection(session, options.collectionName);
     var modeId = Object.values(info.modeIds)[0];
+    // Same-collection aliases only point at variables this job writes
+    var written = writtenTokenNames(tokens, options);
 
     // ── Pre-process Fonts & Weights (Needed for Text Styles) ──
     // We create variables for them first so we can bind them.
 
     let defaultFontFamilyVar: Variable | undefined;
     if (options.importTypography && tokens.fonts) {
+        onProgress && onProgress({ current: current, total: total, phase: 'Font Families', message: 'Importing font families...' });
         for (const font of tokens.fonts) {
             const name = 'typography/family/' + font.name;
             const mappedFamily = mapFontFamily(font.family);
-            const v = await setStringVariable(info.collection, modeId, name, mappedFamily);
+            const v = setStringVariable(session, info.collection, modeId, name, mappedFamily);
             applyScopes(v, ['FONT_FAMILY'] as VariableScope[]);
+            recordProvenance(v, options, font.rawValue);
             if (font.name === 'sans') defaultFontFamilyVar = v;
         }
     }
@@ -105,9 +373,11 @@ export async function importPrimitives(
     if (options.importFontWeights) {
         onProgress && onProgress({ current: current, total: total, phase: 'Font Weights', message: 'Importing font weights...' });
         for (const fw of tokens.fontWeights) {
-            const name = 'typography/weight/' + fw.path.join('/');
-            const v = await setFloatVariable(info.collection, modeId, name, fw.value);
+            const name = variableName('fontWeights', fw.path);
+            const v = aliasTokenVariable(session, info.collection, modeId, name, 'FLOAT', fw.alias, written)
+                || setFloatVariable(session, info.collection, modeId, name, fw.value);
             applyScopes(v, ['FONT_WEIGHT'] as VariableScope[]);
+            recordProvenance(v, options, fw.rawValue);
             if (fw.path.includes('normal') || fw.value === 400) defaultFontWeightVar = v;
             current++;
         }
@@ -125,9 +395,11 @@ export async function importPrimitives(
         onProgress && onProgress({ current: current, total: total, phase: 'Colors', message: 'Importing colors...' });
         for (var i = 0; i < tokens.colors.length; i++) {
             var color = tokens.colors[i];
-            var name = 'colors/' + color.path.join('/');
-            var v = await setColorVariable(info.collection, modeId, name, color.figmaColor);
+            var name = variableName('colors', color.path);
+            var v = aliasTokenVariable(session, info.collection, modeId, name, 'COLOR', color.alias, written)
+                || setColorVariable(session, info.collection, modeId, name, color.figmaColor);
             applyScopes(v, ['ALL_FILLS', 'STROKE_COLOR', 'EFFECT_COLOR'] as VariableScope[]);
+            recordProvenance(v, options, color.rawValue);
             current++;
             if (current % 20 === 0) {
                 onProgress && onProgress({ current: current, total: total, phase: 'Colors', message: 'Colors: ' + current + '/' + total });
@@ -135,149 +407,47 @@ export async function importPrimitives(
         }
     }
 
-    // ── Spacing ──
-    if (options.importSpacing) {
-        onProgress && onProgress({ current: current, total: total, phase: 'Spacing', message: 'Importing spacing...' });
-        for (var i = 0; i < tokens.spacing.length; i++) {
-            var sp = tokens.spacing[i];
-            var name = 'spacing/' + sp.path.join('/');
-            var v = await setFloatVariable(info.collection, modeId, name, sp.value);
-            applyScopes(v, ['GAP', 'WIDTH_HEIGHT', 'PARAGRAPH_SPACING'] as VariableScope[]);
-            current++;
-        }
-    }
-
-    // ── Radius ──
-    if (options.importRadius) {
-        onProgress && onProgress({ current: current, total: total, phase: 'Radius', message: 'Importing radius...' });
-        for (var i = 0; i < tokens.radius.length; i++) {
-            var rad = tokens.radius[i];
-            var name = 'radius/' + rad.path.join('/');
-            var v = await setFloatVariable(info.collection, modeId, name, rad.value);
-            applyScopes(v, ['CORNER_RADIUS'] as VariableScope[]);
-            current++;
-        }
-    }
-
     // ── Blur (Variables & Styles) ──
     if (options.importBlur) {
         onProgress && onProgress({ current: current, total: total, phase: 'Blur', message: 'Importing blur...' });
         // Layer Blur
         for (var i = 0; i < tokens.blur.length; i++) {
             var bl = tokens.blur[i];
-            var name = 'blur/' + bl.path.join('/');
-            var v = await setFloatVariable(info.collection, modeId, name, bl.value);
+            var name = variableName('blur', bl.path);
+            var v = aliasTokenVariable(session, info.collection, modeId, name, 'FLOAT', bl.alias, written)
+                || setFloatVariable(session, info.collection, modeId, name, bl.value);
             applyScopes(v, ['EFFECT_FLOAT'] as VariableScope[]);
+            recordProvenance(v, options, bl.rawValue);
 
             // Create Effect Style
-            await createBlurStyle(name, bl.value, false, v); // isBackdrop = false
+            var blurStyle = createBlurStyle(session, name, bl.value, false, v); // isBackdrop = false
+            recordProvenance(blurStyle, options, bl.rawValue);
             current++;
         }
 
-        // Backdrop Blur (Background Blur) derived from standard Blur tokens
-        // User requested backdrop-blur styles to be generated even if explicit tokens are missing,
-        // using the same scale as standard blur.
-        for (var i = 0; i < tokens.blur.length; i++) {
-            var bl = tokens.blur[i];
-            // Name: backdrop-blur/xs, etc.
-            var name = 'backdrop-blur/' + bl.path.join('/');
-
-            // Create Variable for it? Or reuse blur variable?
-            // User screenshot shows defaults.
-            // We can create a SEPARATE variable group for backdrop-blur if we want, or just bind to blur variables.
-            // But since we are iterating tokens.blur, we might not have unique backdrop-blur tokens.
-            // We'll create the STYLE.
-            // Optional: Create specific variable `backdrop-blur/xs` -> value 4.
-            // Check if variable already exists (from tokens.backdropBlur)?
-            // If tokens.backdropBlur is empty, we create it here.
-            // If we inject it, it's better. 
-            // BUT simpler: just create the STYLE and bind it to the `blur/xs` variable?
-            // Or create a new variable `backdrop-blur/xs`.
-
-            const variableName = 'backdrop-blur/' + bl.path.join('/');
-            const v = await setFloatVariable(info.collection, modeId, variableName, bl.value);
+        // Backdrop Blur (Background Blur): one variable and style per blur
+        // token, so the scale exists even without explicit backdrop tokens.
+        // Explicit backdrop tokens come last and win on a shared name.
+        for (const bb of backdropBlurTokens(tokens)) {
+            const name = 'backdrop-blur/' + bb.path.join('/');
+            const v = setFloatVariable(session, info.collection, modeId, name, bb.value);
             applyScopes(v, ['EFFECT_FLOAT'] as VariableScope[]);
-
-            await createBlurStyle(variableName, bl.value, true, v);
-        }
-
-        // Also process explicit backdrop tokens if any (and avoid duplicates?)
-        if (tokens.backdropBlur && tokens.backdropBlur.length > 0) {
-            // If we already processed them via 'blur' loop (if names overlap), we might duplicate.
-            // But tokens.blur usually has 'xs', 'sm'. tokens.backdropBlur usually has 'xs', 'sm'.
-            // If they are identical, we just overwrote them. That's fine.
-            for (const bb of tokens.backdropBlur) {
-                const name = 'backdrop-blur/' + bb.path.join('/');
-                const v = await setFloatVariable(info.collection, modeId, name, bb.value);
-                applyScopes(v, ['EFFECT_FLOAT'] as VariableScope[]);
-                await createBlurStyle(name, bb.value, true, v);
-            }
-        }
-    }
-
-    // ── Opacity ──
-    if (tokens.opacity.length > 0) {
-        onProgress && onProgress({ current: current, total: total, phase: 'Opacity', message: 'Importing opacity...' });
-        for (var i = 0; i < tokens.opacity.length; i++) {
-            var op = tokens.opacity[i];
-            var name = 'opacity/' + op.path.join('/');
-            var v = await setFloatVariable(info.collection, modeId, name, op.value);
-            applyScopes(v, ['OPACITY'] as VariableScope[]);
-            current++;
-        }
-    }
-
-    // ── Breakpoints ──
-    if (options.importBreakpoints) {
-        onProgress && onProgress({ current: current, total: total, phase: 'Breakpoints', message: 'Importing breakpoints...' });
-        for (var i = 0; i < tokens.breakpoints.length; i++) {
-            var bp = tokens.breakpoints[i];
-            var name = 'breakpoint/' + bp.path.join('/');
-            var v = await setFloatVariable(info.collection, modeId, name, bp.value);
-            applyScopes(v, ['WIDTH_HEIGHT'] as VariableScope[]);
-            current++;
-        }
-    }
-
-    // ── Containers ──
-    if (options.importContainers) {
-        onProgress && onProgress({ current: current, total: total, phase: 'Containers', message: 'Importing containers...' });
-        for (var i = 0; i < tokens.containers.length; i++) {
-            var cont = tokens.containers[i];
-            var name = 'container/' + cont.path.join('/');
-            var v = await setFloatVariable(info.collection, modeId, name, cont.value);
-            applyScopes(v, ['WIDTH_HEIGHT'] as VariableScope[]);
-            current++;
-        }
-    }
-
-    // ── Tracking (Letter Spacing) ──
-    let trackingVars: Record<string, Variable> = {};
-    if (options.importTracking) {
-        onProgress && onProgress({ current: current, total: total, phase: 'Tracking', message: 'Importing tracking...' });
-        for (var i = 0; i < tokens.tracking.length; i++) {
-            var tr = tokens.tracking[i];
-            var name = 'typography/tracking/' + tr.path.join('/');
-            var v = await setFloatVariable(info.collection, modeId, name, tr.value);
-            applyScopes(v, ['LETTER_SPACING'] as VariableScope[]);
-            // Store for binding if needed (though text styles usually don't map 1:1 to these unless specifically requested)
-            current++;
+            recordProvenance(v, options, bb.rawValue);
+            const style = createBlurStyle(session, name, bb.value, true, v);
+            recordProvenance(style, options, bb.rawValue);
         }
     }
 
-    // ── Leading (Line Height) ──
-    if (options.importLeading) {
-        onProgress && onProgress({ current: current, total: total, phase: 'Leading', message: 'Importing leading...' });
-        for (var i = 0; i < tokens.leading.length; i++) {
-            var ld = tokens.leading[i];
-
-            // Phase 20: Remove specific named leading variables
-            const ignore = ['tight', 'snug', 'normal', 'relaxed', 'loose'];
-            if (ignore.includes(ld.path[0])) continue;
-
-            var name = 'typography/leading/' + ld.path.join('/');
-            var v = await setFloatVariable(info.collection, modeId, name, ld.value);
-            applyScopes(v, ['LINE_HEIGHT'] as VariableScope[]);
+    // ── Float Categories (Spacing, Radius, Opacity, Sizes, Tracking, Leading...) ──
+    for (const group of FLOAT_CATEGORIES) {
+        if (!writesCategory(group.category, options)) continue;
+        onProgress && onProgress({ current: current, total: total, phase: group.phase, message: 'Importing ' + group.phase.toLowerCase() + '...' });
+        for (const token of group.tokens(tokens)) {
+            const name = variableName(group.category, token.path);
+            const v = aliasTokenVariable(session, info.collection, modeId, name, 'FLOAT', token.alias, written)
+                || setFloatVariable(session, info.collection, modeId, name, token.value);
+            applyScopes(v, group.scopes);
+            recordProvenance(v, options, token.rawValue);
             current++;
         }
     }
@@ -287,65 +457,47 @@ export async function importPrimitives(
         onProgress && onProgress({ current: current, total: total, phase: 'Max Width', message: 'Importing max-width grids...' });
         for (const mw of tokens.maxWidth) {
             const name = 'max-width/' + mw.path.join('/');
-            await createGridStyle(name, mw.value);
+            const style = createGridStyle(session, name, mw.value);
+            recordProvenance(style, options, mw.rawValue);
             current++;
         }
     }
 
-    // ── Border Width ──
-    if (options.importBorderWidth && tokens.borderWidth) {
-        onProgress && onProgress({ current: current, total: total, phase: 'Border Width', message: 'Importing border width...' });
-        for (const bw of tokens.borderWidth) {
-            const name = 'border-width/' + bw.path.join('/');
-            const v = await setFloatVariable(info.collection, modeId, name, bw.value);
-            applyScopes(v, ['STROKE_FLOAT'] as VariableScope[]);
-            current++;
-        }
-    }
-
-    // ── Opacity ──
-    if (options.importOpacity && tokens.opacity) {
-        onProgress && onProgress({ current: current, total: total, phase: 'Opacity', message: 'Importing opacity...' });
-        for (const op of tokens.opacity) {
-            const name = 'opacity/' + op.path.join('/');
-            // Opacity in CSS is 0-1, but Figma API expects 0-1?
-            // User requested name "0", value "0". Name "100", value "100"?
-            // If parser returns raw value from Tailwind (e.g. 0.5), we import it as is.
-            // If user wants 0-100 integers, we might need conversion.
-            // But Tailwind opacity-50 is 0.5.
-            // User screenshot shows value "0.5" for "0-5"? And "1", "2", "3" for others?
-            // Wait, screenshot shows "0-5" -> 0.5? And "1" -> 1?
-            // Typically opacity is 0-1 float.
-            // If user provided custom values like 0, 1, 2... 100, then they are integers.
-            // I will respect the parsed value from parser.
-            const v = await setFloatVariable(info.collection, modeId, name, op.value);
-            applyScopes(v, ['OPACITY'] as VariableScope[]);
-            current++;
-        }
-    }
-
-    // ── Skew ──
-    if (options.importSkew && tokens.skew) {
-        onProgress && onProgress({ current: current, total: total, phase: 'Skew', message: 'Importing skew...' });
-        for (const sk of tokens.skew) {
-            const name = 'skew/' + sk.path.join('/');
-            const v = await setFloatVariable(info.collection, modeId, name, sk.value);
-            // Explicitly remove all scopes as requested (skew has no scopes)
+    // ── Easing (cubic-bezier strings) ──
+    if (options.importEasing && tokens.easing) {
+        onProgress && onProgress({ current: current, total: total, phase: 'Easing', message: 'Importing easing...' });
+        for (const ez of tokens.easing) {
+            const name = variableName('easing', ez.path);
+            const v = aliasTokenVariable(session, info.collection, modeId, name, 'STRING', ez.alias, written)
+                || setStringVariable(session, info.collection, modeId, name, ez.rawValue);
+            // No Figma property takes an easing curve, keep it out of every picker
             applyScopes(v, []);
+            recordProvenance(v, options, ez.rawValue);
             current++;
         }
     }
 
     // ── Typography (Float Variables + Text Styles with variable binding) ──
     if (options.importTypography) {
+        onProgress && onProgress({ current: current, total: total, phase: 'Typography', message: 'Loading fonts...' });
+
+        // Use 'Inter' as default family string if variable missing
+        const familyName = defaultFontFamilyVar ? (defaultFontFamilyVar.valuesByMode[modeId] as string) : 'Inter';
+        const weightMatrix = options.importFontWeights && tokens.fontWeights && tokens.fontWeights.length > 0;
+        const weights = weightMatrix
+            ? tokens.fontWeights.map(function (fw) { return fw.value; })
+            : tokens.typography.map(function (typo) { return typo.fontWeight || 400; });
+        const fonts = await loadWeightFonts(familyName, weights, fontFallbacks);
+
         onProgress && onProgress({ current: current, total: total, phase: 'Typography', message: 'Importing typography...' });
         for (var i = 0; i < tokens.typography.length; i++) {
             var typo = tokens.typography[i];
 
             // 1. Create Font Size Variable
             var sizeVarName = 'typography/size/' + typo.name;
-            var sizeVar = await setFloatVariable(info.collection, modeId, sizeVarName, typo.fontSize);
+            var sizeVar = setFloatVariable(session, info.collection, modeId, sizeVarName, typo.fontSize);
             applyScopes(sizeVar, ['FONT_SIZE'] as VariableScope[]);
+            recordProvenance(sizeVar, options, typo.rawValue);
 
             // 2. Create Line Height Variable (Specific to this text style)
             // We calculate the pixel value for the variable to match our logic
@@ -356,8 +508,9 @@ export async function importPrimitives(
             }
 
             var lhVarName = 'typography/leading/' + typo.name;
-            var lhVar = await setFloatVariable(info.collection, modeId, lhVarName, lineHeightPx);
+            var lhVar = setFloatVariable(session, info.collection, modeId, lhVarName, lineHeightPx);
             applyScopes(lhVar, ['LINE_HEIGHT'] as VariableScope[]);
+            recordProvenance(lhVar, options, typo.rawValue);
 
             // 3. Create Letter Spacing Variable
             // Check if letterSpacing is defined; if not, default to 0 (per user check)
@@ -368,19 +521,16 @@ export async function importPrimitives(
             let lsVar: Variable | undefined;
             if (typo.letterSpacing !== undefined) {
                 var lsVarName = 'typography/letter-spacing/' + typo.name;
-                lsVar = await setFloatVariable(info.collection, modeId, lsVarName, lsValue);
+                lsVar = setFloatVariable(session, info.collection, modeId, lsVarName, lsValue);
             } else {
                 var normalName = 'typography/tracking/normal';
-                lsVar = await setFloatVariable(info.collection, modeId, normalName, 0);
+                lsVar = setFloatVariable(session, info.collection, modeId, normalName, 0);
             }
             applyScopes(lsVar, ['LETTER_SPACING'] as VariableScope[]);
-
-            // 4. Create Text Style & Bind
-            // Use 'Inter' as default family string if variable missing
-            const familyName = defaultFontFamilyVar ? (defaultFontFamilyVar.valuesByMode[modeId] as string) : 'Inter';
+            recordProvenance(lsVar, options, typo.letterSpacing !== undefined ? typo.rawValue : '0');
 
             // 4. Create Text Styles (Size x Weight Matrix)
-            if (options.importFontWeights && tokens.fontWeights && tokens.fontWeights.length > 0) {
+            if (weightMatrix) {
                 // Generate all weights for this size
                 for (const fw of tokens.fontWeights) {
                     const weightName = fw.path.join('/');
@@ -388,21 +538,24 @@ export async function importPrimitives(
 
                     // Find specific variable for this weight
                     const wName = 'typography/weight/' + weightName;
-                    const wVar = await setFloatVariable(info.collection, modeId, wName, fw.value);
+                    const wVar = setFloatVariable(session, info.collection, modeId, wName, fw.value);
+                    recordProvenance(wVar, options, fw.rawValue);
 
                     // Clone typo and override weight for this specific style
                     const specificTypo = { ...typo, fontWeight: fw.value };
 
-                    await createTextStyle(
+                    const textStyle = createTextStyle(
+                        session,
                         styleName,
                         specificTypo,
-                        familyName,
+                        fonts.get(fw.value) || null,
                         sizeVar,
                         lhVar,
                         lsVar,
                         defaultFontFamilyVar,
                         wVar
                     );
+                    if (textStyle) recordProvenance(textStyle, options, typo.rawValue);
                 }
             } else {
                 // Fallback: Create single style (original behavior)
@@ -411,20 +564,23 @@ export async function importPrimitives(
                     const match = tokens.fontWeights.find(fw => fw.value === typo.fontWeight);
                     if (match) {
                         const wName = 'typography/weight/' + match.path.join('/');
-                        specificWeightVar = await setFloatVariable(info.collection, modeId, wName, match.value);
+                        specificWeightVar = setFloatVariable(session, info.collection, modeId, wName, match.value);
+                        recordProvenance(specificWeightVar, options, match.rawValue);
                     }
                 }
 
-                await createTextStyle(
+                const textStyle = createTextStyle(
+                    session,
                     'text-' + typo.name,
                     typo,
-                    familyName,
+                    fonts.get(typo.fontWeight || 400) || null,
                     sizeVar,
                     lhVar,
                     lsVar,
                     defaultFontFamilyVar,
                     specificWeightVar
                 );
+                if (textStyle) recordProvenance(textStyle, options, typo.rawValue);
             }
             current++;
         }
@@ -438,126 +594,294 @@ export async function importPrimitives(
         onProgress && onProgress({ current: current, total: total, phase: 'Shadows', message: 'Importing shadows...' });
         for (var i = 0; i < tokens.shadows.length; i++) {
             var shadow = tokens.shadows[i];
-            await createShadowStyle(shadow.name, shadow);
+            var shadowStyle = createShadowStyle(session, shadow.name, shadow);
+            recordProvenance(shadowStyle, options, shadow.rawValue);
             current++;
         }
     }
 
     onProgress && onProgress({ current: total, total: total, phase: 'Done', message: 'Import complete!' });
-    return info;
+    return { collection: info.collection, modeIds: info.modeIds, fontFallbacks: fontFallbacks };
 }
 
-// ─── Theme Collection Import (Light/Dark with Aliases) ───────────────────────
+// ─── Theme Collection Import (Modes with Aliases) ────────────────────────────
 
 export async function importThemeTokens(
     options: ThemeImportOptions,
-    onProgress?: ProgressCallback
-): Promise<CollectionInfo> {
-    var allKeys = new Set([
-        ...Object.keys(options.lightTokens),
-        ...Object.keys(options.darkTokens),
-    ]);
-    var total = allKeys.size;
+    onProgress?: ProgressCallback,
+    session?: ImportSession
+): Promise<ThemeImportResult> {
+    onProgress && onProgress({ current: 0, total: 1, phase: 'Theme', message: 'Matching theme tokens to primitives...' });
+    session = session || await openImportSession();
+    var resolved = await resolveThemeVariables(options, session);
+    var total = resolved.variables.length;
     var current = 0;
 
-    var info = await findOrCreateCollection(options.collectionName);
-    info = ensureModes(info, ['Light', 'Dark']);
-    var lightModeId = info.modeIds['Light'];
-    var darkModeId = info.modeIds['Dark'];
+    var info = findOrCreateCollection(session, options.collectionName);
+    info = ensureModes(info, options.modes.map(function (mode) { return mode.name; }));
+
+    onProgress && onProgress({ current: current, total: total, phase: 'Theme', message: 'Importing theme tokens...' });
+
+    for (const planned of resolved.variables) {
+        var variable = findOrCreateVariable(session, info.collection, planned.name, planned.type);
+        applyScopes(variable, planned.scopes);
+
+        for (var m = 0; m < options.modes.length; m++) {
+            var modeId = info.modeIds[options.modes[m].name];
+            var value = planned.values[m];
+            if (isVariable(value)) {
+                setVariableAlias(variable, modeId, value);
+            } else if (value !== null) {
+                variable.setValueForMode(modeId, value);
+            }
+        }
+        recordProvenance(variable, options, JSON.stringify(planned.rawValues));
+
+        current++;
+        if (current % 10 === 0) {
+            onProgress && onProgress({ current: current, total: total, phase: 'Theme', message: 'Theme: ' + current + '/' + total });
+        }
+    }
 
-    const allCollections = await figma.variables.getLocalVariableCollectionsAsync();
-    var primitiveCollections = allCollections
-        .find(function (c: VariableCollection) { return c.name === options.primitiveCollectionName; });
+    onProgress && onProgress({ current: total, total: total, phase: 'Done', message: 'Theme import complete!' });
+    return { collection: info.collection, modeIds: info.modeIds, missing: resolved.missing };
+}
+
+/** A theme variable as `importThemeTokens` will write it. */
+export interface ResolvedThemeVariable {
+    name: string;
+    type: VariableResolvedDataType;
+    scopes: VariableScope[];
+    /** Per mode, in `options.modes` order: the primitive to alias, or a raw value */
+    values: (Variable | FigmaColor | number | null)[];
+    /** Source value per mode name, for modes that define the token */
+    rawValues: Record<string, string>;
+}
+
+/**
+ * Work out every theme variable without touching the document: its type,
+ * and per mode the primitive it aliases (explicit references first, then
+ * value matches) or the raw value. Modes without a value reuse the first
+ * mode that has one and are reported in `missing`.
+ */
+export async function resolveThemeVariables(
+    options: ThemeImportOptions,
+    session?: ImportSession
+): Promise<{ variables: ResolvedThemeVariable[]; missing: Record<string, string[]> }> {
+    session = session || await openImportSession();
+    var allKeys = new Set<string>();
+    options.modes.forEach(function (mode) {
+        Object.keys(mode.tokens).forEach(function (key) { allKeys.add(key); });
+    });
+
+    var primitiveCollections = session.collections.get(options.primitiveCollectionName);
 
     var primitiveVars: Variable[] = [];
     var primitiveModeId = '';
     if (primitiveCollections) {
-        primitiveVars = await getVariablesInCollection(primitiveCollections.id);
+        primitiveVars = getVariablesInCollection(session, primitiveCollections.id);
         if (primitiveCollections.modes.length > 0) {
             primitiveModeId = primitiveCollections.modes[0].modeId;
         }
     }
 
-    onProgress && onProgress({ current: current, total: total, phase: 'Theme', message: 'Importing theme tokens...' });
+    var missing: Record<string, string[]> = {};
+    options.modes.forEach(function (mode) { missing[mode.name] = []; });
 
-    var keysArray = Array.from(allKeys);
-    for (var i = 0; i < keysArray.length; i++) {
-        var key = keysArray[i];
+    var variables: ResolvedThemeVariable[] = [];
+    for (const key of Array.from(allKeys)) {
         var cleanName = key.replace(/^--/, '');
-        var lightValue = options.lightTokens[key];
-        var darkValue = options.darkTokens[key];
-
-        var lightColor = lightValue ? parseColorValue(lightValue) : null;
-        var darkColor = darkValue ? parseColorValue(darkValue) : null;
-
-        if (lightColor || darkColor) {
-            var variable = await findOrCreateVariable(info.collection, cleanName, 'COLOR');
-            applyScopes(variable, ['ALL_FILLS', 'STROKE_COLOR', 'EFFECT_COLOR'] as VariableScope[]);
-
-            if (lightColor) {
-                var alias = resolveColorAlias(lightColor, primitiveVars, primitiveModeId);
-                if (alias) {
-                    setVariableAlias(variable, lightModeId, alias);
-                } else {
-                    variable.setValueForMode(lightModeId, lightColor);
-                }
+
+        // Explicit aliases win over value matching
+        var targets: (Variable | null)[] = [];
+        var colors: (FigmaColor | null)[] = [];
+        var sizes: (number | null)[] = [];
+        var sourceValues: Record<string, string> = {};
+        for (const mode of options.modes) {
+            if (mode.tokens[key]) sourceValues[mode.name] = mode.tokens[key];
+            var ref = mode.aliases && mode.aliases[key];
+            var target = ref
+                ? findVariableByName(session, ref.collection || options.primitiveCollectionName, variableName(ref.category, ref.path))
+                : null;
+            targets.push(target);
+            colors.push(mode.tokens[key] ? parseColorValue(mode.tokens[key]) : null);
+            sizes.push(mode.tokens[key] ? parseThemeDimension(mode.tokens[key]) : null);
+        }
+
+        // Colors, or lengths such as radius and border sizes
+        var type: VariableResolvedDataType | null = null;
+        if (colors.some(Boolean) || targets.some(function (t) { return t && t.resolvedType === 'COLOR'; })) {
+            type = 'COLOR';
+        } else if (sizes.some(function (size) { return size !== null; }) || targets.some(function (t) { return t && t.resolvedType === 'FLOAT'; })) {
+            type = 'FLOAT';
+        }
+        if (!type) continue;
+
+        var rawValues: (FigmaColor | number | null)[] = type === 'COLOR' ? colors : sizes;
+        var explicits = targets.map(function (t) { return t && t.resolvedType === type ? t : null; });
+
+        var fallback = 0;
+        while (!explicits[fallback] && rawValues[fallback] === null) fallback++;
+
+        var values: (Variable | FigmaColor | number | null)[] = [];
+        for (var m = 0; m < options.modes.length; m++) {
+            var explicit = explicits[m];
+            var value = rawValues[m];
+            if (!explicit && value === null) {
+                missing[options.modes[m].name].push(cleanName);
+                explicit = explicits[fallback];
+                value = rawValues[fallback];
             }
 
-            if (darkColor) {
-                var alias = resolveColorAlias(darkColor, primitiveVars, primitiveModeId);
-                if (alias) {
-                    setVariableAlias(variable, darkModeId, alias);
-                } else {
-                    variable.setValueForMode(darkModeId, darkColor);
-                }
+            if (explicit) {
+                values.push(explicit);
+            } else if (value !== null) {
+                var alias = typeof value === 'number'
+                    ? resolveFloatAlias(value, primitiveVars.filter(dimensionGroupFilter(cleanName)), primitiveModeId)
+                    : resolveColorAlias(value, primitiveVars, primitiveModeId);
+                values.push(alias || value);
+            } else {
+                values.push(null);
             }
         }
 
-        current++;
-        if (current % 10 === 0) {
-            onProgress && onProgress({ current: current, total: total, phase: 'Theme', message: 'Theme: ' + current + '/' + total });
-        }
+        variables.push({
+            name: cleanName,
+            type: type,
+            scopes: type === 'COLOR'
+                ? ['ALL_FILLS', 'STROKE_COLOR', 'EFFECT_COLOR'] as VariableScope[]
+                : dimensionScopes(cleanName),
+            values: values,
+            rawValues: sourceValues,
+        });
     }
 
-    onProgress && onProgress({ current: total, total: total, phase: 'Done', message: 'Theme import complete!' });
-    return info;
+    return { variables: variables, missing: missing };
 }
 
-// ─── Text Style Creation ─────────────────────────────────────────────────────
+function isVariable(value: Variable | FigmaColor | number | null): value is Variable {
+    return value !== null && typeof value === 'object' && 'resolvedType' in value;
+}
 
+function parseThemeDimension(value: string): number | null {
+    return /^-?[\d.]+(px|rem|em)$/.test(value.trim()) ? parseDimension(value) : null;
+}
 
+/** Scopes for a theme length, from its name (radius/box, border, size/field). */
+function dimensionScopes(name: string): VariableScope[] {
+    if (/radius/.test(name)) return ['CORNER_RADIUS'] as VariableScope[];
+    if (/border/.test(name)) return ['STROKE_FLOAT'] as VariableScope[];
+    return ['WIDTH_HEIGHT', 'GAP'] as VariableScope[];
+}
+
+/** Theme lengths only alias primitives of the same kind, so 8px radius isn't spacing/2. */
+function dimensionGroupFilter(name: string): (variable: Variable) => boolean {
+    var group = /radius/.test(name) ? VARIABLE_GROUPS.radius
+        : /border/.test(name) ? VARIABLE_GROUPS.borderWidth
+        : VARIABLE_GROUPS.spacing;
+    return function (variable) { return variable.name.indexOf(group + '/') === 0; };
+}
+
+// ─── Font Styles ─────────────────────────────────────────────────────────────
+
+/** Font style names for each weight, lowercase without spaces or hyphens. */
+const WEIGHT_STYLES: Record<number, string[]> = {
+    100: ['thin', 'hairline'],
+    200: ['extralight', 'ultralight'],
+    300: ['light'],
+    400: ['regular', 'normal', 'book', 'roman'],
+    500: ['medium'],
+    600: ['semibold', 'demibold'],
+    700: ['bold'],
+    800: ['extrabold', 'ultrabold'],
+    900: ['black', 'heavy'],
+};
+
+/** Used when neither a weight's own style nor its family's regular style loads. */
+const INTER_REGULAR: FontName = { family: 'Inter', style: 'Regular' };
 
 /**
- * Create or update a Figma TextStyle with variables bound.
+ * Resolve each weight to a real style of the family and load every font
+ * once. A missing family is replaced by Inter and added to `fallbacks` once.
+ * A weight with no style of its own, or whose style fails to load, uses the
+ * family's regular style, then Inter Regular, and is added to `fallbacks`.
  */
-async function createTextStyle(
+async function loadWeightFonts(family: string, weights: number[], fallbacks: FontFallback[]): Promise<Map<number, FontName>> {
+    var available = new Map<string, string[]>();
+    for (const font of await figma.listAvailableFontsAsync()) {
+        const styles = available.get(font.fontName.family) || [];
+        styles.push(font.fontName.style);
+        available.set(font.fontName.family, styles);
+    }
+
+    var requested = mapFontFamily(family);
+    var figmaFont = available.has(requested) ? requested : 'Inter';
+    var styles = available.get(figmaFont) || [];
+    var regular: FontName = { family: figmaFont, style: styleForWeight(styles, 400) || 'Regular' };
+    if (figmaFont !== requested) fallbacks.push({ family: requested, fontName: regular });
+
+    // Load each distinct font once, starting every load up front
+    var loaded = new Map<string, Promise<boolean>>();
+    var load = function (fontName: FontName): Promise<boolean> {
+        const key = fontName.family + '/' + fontName.style;
+        if (!loaded.has(key)) {
+            loaded.set(key, figma.loadFontAsync(fontName).then(function () { return true; }, function () { return false; }));
+        }
+        return loaded.get(key) as Promise<boolean>;
+    };
+    var wanted = new Map<number, FontName>();
+    for (const weight of weights) {
+        const style = styleForWeight(styles, weight);
+        const fontName = style ? { family: figmaFont, style: style } : regular;
+        wanted.set(weight, fontName);
+        load(fontName);
+    }
+
+    var fonts = new Map<number, FontName>();
+    for (const weight of Array.from(wanted.keys())) {
+        const preferred = wanted.get(weight) as FontName;
+        let fontName: FontName | null = preferred;
+        if (!await load(fontName)) fontName = await load(regular) ? regular : null;
+        if (!fontName) fontName = await load(INTER_REGULAR) ? INTER_REGULAR : null;
+        if (!fontName) continue;
+
+        fonts.set(weight, fontName);
+        if (figmaFont === requested && (fontName !== preferred || !styleForWeight(styles, weight))) {
+            fallbacks.push({ family: requested, weight: weight, fontName: fontName });
+        }
+    }
+    return fonts;
+}
+
+/** The family's style for a weight, e.g. 600 → `Semi Bold`, or null when it has none. */
+export function styleForWeight(styles: string[], weight: number): string | null {
+    var names = WEIGHT_STYLES[Math.min(900, Math.max(100, Math.round(weight / 100) * 100))];
+    for (const style of styles) {
+        if (names.indexOf(style.toLowerCase().replace(/[\s-]/g, '')) >= 0) return style;
+    }
+    return null;
+}
+
+// ─── Text Style Creation ─────────────────────────────────────────────────────
+
+/**
+ * Create or update a Figma TextStyle with variables bound. Skipped when no
+ * font could be loaded for its weight.
+ */
+function createTextStyle(
+    session: ImportSession,
     name: string,
     typo: ParsedTypography,
-    fontFamily: string,
+    fontName: FontName | null,
     fontSizeVariable: Variable,
     lineHeightVariable: Variable,
     letterSpacingVariable?: Variable,
     fontFamilyVariable?: Variable,
     fontWeightVariable?: Variable
-): Promise<void> {
-    var figmaFont = mapFontFamily(fontFamily);
-    var fontName = { family: figmaFont, style: 'Regular' };
-
-    // Load the font before modifying the text style
-    try {
-        await figma.loadFontAsync(fontName);
-    } catch (e) {
-        fontName = { family: 'Inter', style: 'Regular' };
-        try {
-            await figma.loadFontAsync(fontName);
-        } catch (e2) {
-            return; // Neither font available, skip
-        }
-    }
+): TextStyle | null {
+    if (!fontName) return null; // No font available, skip
 
-    var existing = (await figma.getLocalTextStylesAsync()).find(function (s: TextStyle) { return s.name === name; });
-    var style = existing || figma.createTextStyle();
-    style.name = name;
+    var style = findOrCreateStyle(session.textStyles, name, function () { return figma.createTextStyle(); });
     style.fontName = fontName;
     style.fontSize = typo.fontSize;
 
@@ -611,15 +935,13 @@ async function createTextStyle(
         // Binding usually fails if variable type doesn't match or feature not supported in context
         // console.warn('Binding failed', e);
     }
+    return style;
 }
 
 // ─── Effect Style Creation ───────────────────────────────────────────────────
 
-async function createShadowStyle(name: string, shadow: ParsedShadow): Promise<void> {
-    const allEffectStyles = await figma.getLocalEffectStylesAsync();
-    var existing = allEffectStyles.find(function (s: EffectStyle) { return s.name === name; });
-    var style = existing || figma.createEffectStyle();
-    style.name = name;
+function createShadowStyle(session: ImportSession, name: string, shadow: ParsedShadow): EffectStyle {
+    var style = findOrCreateStyle(session.effectStyles, name, function () { return figma.createEffectStyle(); });
 
     style.effects = shadow.shadows.map(function (layer) {
         return {
@@ -632,13 +954,11 @@ async function createShadowStyle(name: string, shadow: ParsedShadow): Promise<vo
             blendMode: 'NORMAL' as BlendMode,
         };
     });
+    return style;
 }
 
-async function createBlurStyle(name: string, radius: number, isBackdrop: boolean, variable?: Variable): Promise<void> {
-    const allEffectStyles = await figma.getLocalEffectStylesAsync();
-    var existing = allEffectStyles.find(function (s: EffectStyle) { return s.name === name; });
-    var style = existing || figma.createEffectStyle();
-    style.name = name;
+function createBlurStyle(session: ImportSession, name: string, radius: number, isBackdrop: boolean, variable?: Variable): EffectStyle {
+    var style = findOrCreateStyle(session.effectStyles, name, function () { return figma.createEffectStyle(); });
 
     style.effects = [{
         type: isBackdrop ? 'BACKGROUND_BLUR' : 'LAYER_BLUR',
@@ -648,13 +968,11 @@ async function createBlurStyle(name: string, radius: number, isBackdrop: boolean
             radius: { type: 'VARIABLE_ALIAS', id: variable.id }
         } : undefined
     } as Effect];
+    return style;
 }
 
-async function createGridStyle(name: string, width: number): Promise<void> {
-    const allGridStyles = await figma.getLocalGridStylesAsync();
-    var existing = allGridStyles.find(function (s: GridStyle) { return s.name === name; });
-    var style = existing || figma.createGridStyle();
-    style.name = name;
+function createGridStyle(session: ImportSession, name: string, width: number): GridStyle {
+    var style = findOrCreateStyle(session.gridStyles, name, function () { return figma.createGridStyle(); });
 
     style.layoutGrids = [{
         pattern: 'COLUMNS',
@@ -665,6 +983,7 @@ async function createGridStyle(name: string, width: number): Promise<void> {
         offset: 0,
         visible: true,
     }];
+    return style;
 }
 
 // ─── Helpers ─────────────────────────────────────────────────────────────────
@@ -672,28 +991,17 @@ async function createGridStyle(name: string, width: number): Promise<void> {
 function countTokens(tokens: ParsedTokenSet, options: ImportOptions): number {
     var count = 0;
     if (options.importColors) count += tokens.colors.length;
-    if (options.importSpacing) count += tokens.spacing.length;
-    if (options.importRadius) count += tokens.radius.length;
     if (options.importShadows) count += tokens.shadows.length;
-    if (options.importBlur) {
-        count += tokens.blur.length;
-        count += (tokens.backdropBlur || []).length;
-    }
+    if (options.importBlur) count += tokens.blur.length;
     if (options.importTypography) {
         count += tokens.typography.length;
         count += (tokens.fonts || []).length;
     }
-    count += tokens.opacity.length;
-    if (options.importBreakpoints) count += tokens.breakpoints.length;
-    if (options.importContainers) count += tokens.containers.length;
     if (options.importFontWeights) count += tokens.fontWeights.length;
-    if (options.importTracking) count += tokens.tracking.length;
-    if (options.importTracking) count += tokens.tracking.length;
-    if (options.importLeading) count += tokens.leading.length;
-    if (options.importLeading) count += tokens.leading.length;
+    FLOAT_CATEGORIES.forEach(function (group) {
+        if (writesCategory(group.category, options)) count += group.tokens(tokens).length;
+    });
     if (options.importMaxWidth && tokens.maxWidth) count += tokens.maxWidth.length;
-    if (options.importBorderWidth && tokens.borderWidth) count += tokens.borderWidth.length;
-    if (options.importOpacity && tokens.opacity) count += tokens.opacity.length;
-    if (options.importSkew && tokens.skew) count += tokens.skew.length;
+    if (options.importEasing && tokens.easing) count += tokens.easing.length;
     return count;
 }
@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+import { compareVariable, effectGroups, findRenames, inScope, variableGroups, type PlannedVariable } from './importPlan';
+import type { ImportOptions } from './figmaSync';
+import type { ExportCollection, ExportVariable } from './variableReader';
+import primitives from './__fixtures__/primitives-collection.json';
+import theme from './__fixtures__/theme-collection.json';
+
+const collection = primitives as ExportCollection;
+const themeCollection = theme as ExportCollection;
+
+/** Options with every category off except the given ones. */
+const options = (enabled: Partial<ImportOptions> = {}): ImportOptions => ({
+    collectionName: 'TailwindCSS',
+    importColors: false,
+    importSpacing: false,
+    importRadius: false,
+    importShadows: false,
+    importBlur: false,
+    importTypography: false,
+    importBreakpoints: false,
+    importContainers: false,
+    importFontWeights: false,
+    importTracking: false,
+    importLeading: false,
+    importMaxWidth: false,
+    importBorderWidth: false,
+    importOpacity: false,
+    importSkew: false,
+    importEasing: false,
+    ...enabled,
+});
+
+const variable = (from: ExportCollection, name: string) => from.variables.find((v) => v.name === name) as ExportVariable;
+
+const planned = (name: string, type: VariableResolvedDataType, values: PlannedVariable['values'], modes = ['Mode 1']): PlannedVariable =>
+    ({ name, type, values, modes });
+
+describe('compareVariable', () => {
+    it('creates variables the file does not have, listing each value', () => {
+        const entry = compareVariable('TailwindCSS', planned('spacing/8', 'FLOAT', [{ kind: 'number', value: 32 }]), null, '');
+        expect(entry).toEqual({ action: 'create', kind: 'variable', collection: 'TailwindCSS', name: 'spacing/8', changes: ['32'] });
+    });
+
+    it('leaves matching values unchanged, colors within rounding', () => {
+        const red = planned('colors/red/500', 'COLOR', [{ kind: 'color', color: { r: 0.98401, g: 0.173, b: 0.212, a: 1 } }]);
+        expect(compareVariable('TailwindCSS', red, variable(collection, 'colors/red/500'), 'Mode 1').action).toBe('unchanged');
+    });
+
+    it('reports value updates', () => {
+        const entry = compareVariable('TailwindCSS', planned('spacing/4', 'FLOAT', [{ kind: 'number', value: 20 }]), variable(collection, 'spacing/4'), 'Mode 1');
+        expect(entry.action).toBe('update');
+        expect(entry.changes).toEqual(['16 → 20']);
+    });
+
+    it('reports an alias replaced by a raw value as an alias change', () => {
+        const brand = planned('colors/brand', 'COLOR', [{ kind: 'color', color: { r: 0, g: 0, b: 1, a: 1 } }]);
+        const entry = compareVariable('TailwindCSS', brand, variable(collection, 'colors/brand'), 'Mode 1');
+        expect(entry.action).toBe('alias');
+        expect(entry.changes).toEqual(['{colors/red/500} → #0000ff']);
+    });
+
+    it('blocks a variable whose type would change', () => {
+        const entry = compareVariable('TailwindCSS', planned('radius/lg', 'STRING', [{ kind: 'string', value: '8px' }]), variable(collection, 'radius/lg'), 'Mode 1');
+        expect(entry.action).toBe('type-change');
+        expect(entry.changes[0]).toContain('radius/lg is a float variable, but the source has a string value');
+    });
+
+    it('compares the first mode by position and the rest by name', () => {
+        const background = planned('background', 'COLOR', [
+            { kind: 'alias', collection: 'TailwindCSS', name: 'colors/white' },
+            { kind: 'color', color: { r: 0.067, g: 0.067, b: 0.067, a: 1 } },
+        ], ['Day', 'Dark']);
+        const entry = compareVariable('shadcn/ui', background, variable(themeCollection, 'background'), 'Light');
+        expect(entry.action).toBe('update');
+        expect(entry.changes).toEqual(['Dark: #000000 → #111111']);
+    });
+
+    it('skips modes without a planned value', () => {
+        const radius = planned('radius', 'FLOAT', [{ kind: 'number', value: 10 }, null], ['Light', 'Dark']);
+        expect(compareVariable('shadcn/ui', radius, variable(themeCollection, 'radius'), 'Light').action).toBe('unchanged');
+    });
+});
+
+describe('scope', () => {
+    it('covers only the variable groups an import writes, opacity always', () => {
+        expect(variableGroups(options({ importSpacing: true }))).toEqual(['spacing/', 'opacity/']);
+        expect(variableGroups(options({ importBlur: true, importTypography: true }))).toEqual([
+            'blur/', 'opacity/', 'backdrop-blur/',
+            'typography/family/', 'typography/size/', 'typography/leading/', 'typography/letter-spacing/',
+        ]);
+    });
+
+    it('covers the effect style groups of shadows and blur', () => {
+        expect(effectGroups(options({ importShadows: true }))).toEqual(['drop-shadow/', 'inset-shadow/', 'text-shadow/']);
+        expect(effectGroups(options({ importBlur: true }))).toEqual(['blur/', 'backdrop-blur/']);
+    });
+
+    it('matches names by group, never deprecated ones', () => {
+        const scope = variableGroups(options({ importSpacing: true }));
+        expect(inScope('spacing/old', scope)).toBe(true);
+        expect(inScope('colors/old', scope)).toBe(false);
+        expect(inScope('colors/old', null)).toBe(true);
+        expect(inScope('deprecated/spacing/old', null)).toBe(false);
+    });
+});
+
+describe('findRenames', () => {
+    /** Variables in the fixture, each stamped by the given adapter. */
+    const stamped = (adapterId: string) => new Map(collection.variables.map((v) => [v.id, {
+        getSharedPluginData: (_namespace: string, key: string) => key === 'adapterId' ? adapterId : '',
+    } as unknown as Variable]));
+    const number = (name: string, value: number) => planned(name, 'FLOAT', [{ kind: 'number', value }]);
+    const rename = (next: PlannedVariable[], renameMap = {}, scope: string[] | null = null, adapterId = 'tailwind') => {
+        const current = structuredClone(collection);
+        const renames = findRenames('TailwindCSS', next, current, scope, renameMap, stamped(adapterId), 'tailwind');
+        return { renames, names: current.variables.map((v) => v.name) };
+    };
+
+    it('renames what the rename map names, in the cached collection too', () => {
+        const brand = planned('colors/primary', 'COLOR', [{ kind: 'alias', collection: 'TailwindCSS', name: 'colors/red/500' }]);
+        const { renames, names } = rename([brand], { 'colors/brand': 'colors/primary', 'colors/white': 'colors/snow' });
+        expect(renames).toEqual([{ id: 'VariableID:3', collection: 'TailwindCSS', from: 'colors/brand', to: 'colors/primary', detected: false }]);
+        expect(names).toContain('colors/primary');
+        expect(names).not.toContain('colors/brand');
+    });
+
+    it('detects a rename from an identical value the same adapter wrote', () => {
+        expect(rename([number('spacing/hairline', 1)]).renames).toEqual([
+            { id: 'VariableID:6', collection: 'TailwindCSS', from: 'spacing/px', to: 'spacing/hairline', detected: true },
+        ]);
+        expect(rename([number('spacing/hairline', 1)], {}, null, 'shadcn').renames).toEqual([]);
+    });
+
+    it('never matches across top-level groups or ambiguous values', () => {
+        expect(rename([number('container/md', 768)]).renames).toEqual([]);
+        expect(rename([number('spacing/hairline', 1), number('spacing/thin', 1)]).renames).toEqual([]);
+    });
+
+    it('only renames variables in scope', () => {
+        expect(rename([number('spacing/hairline', 1)], {}, ['colors/']).renames).toEqual([]);
+    });
+});
@@ -0,0 +1,770 @@
+// ─── Import Plan ─────────────────────────────────────────────────────────────
+// Dry run of an import: works out every variable, text style and effect
+// style the import would write and compares it with what the file already
+// has, without changing anything. Each one is classified as create, update,
+// unchanged, alias change, type change, or orphaned (managed by StyleForge
+// but no longer in the source). A type change blocks the import: Figma
+// can't change a variable's type, so the import would fail partway. Orphans list the layers and styles that still use them,
+// for pruning. What StyleForge manages comes from the provenance it stamps
+// on everything it writes; files imported before that fall back to matching
+// names. Only the groups this import writes can have orphans, so a category
+// left out of the import is never pruned.
+// Variables edited by hand since StyleForge last wrote them, where the
+// import would change them again, are listed as conflicts. Variables that
+// were renamed, by the rename map or detected from their values, are
+// listed as renames and compared under their new name.
+
+import { colorsMatch, formatHex, type FigmaColor } from './colorUtils';
+import type { ParsedTokenSet, ParsedTypography, ShadowLayer, TokenReference } from './parser';
+import type { TokenCategory } from '../adapters/types';
+import {
+    FLOAT_CATEGORIES,
+    VARIABLE_GROUPS,
+    backdropBlurTokens,
+    mapFontFamily,
+    resolveThemeVariables,
+    variableName,
+    writesCategory,
+    writtenTokenNames,
+    type ImportOptions,
+    type ThemeImportOptions,
+} from './figmaSync';
+import {
+    listCollections,
+    readCollection,
+    readVariableValue,
+    type ExportCollection,
+    type ExportValue,
+    type ExportVariable,
+    type ResolvedValue,
+} from './variableReader';
+import { DEPRECATED_GROUP, findUsages, type Usage } from './prune';
+import { readProvenance } from './provenance';
+import { readWrittenValues } from './conflicts';
+import { describeTypeChange } from './variableManager';
+import type { RenameMap, VariableRename } from './renames';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** One collection's worth of work, in the order the import runs it. */
+export type ImportJob =
+    | { kind: 'primitives'; tokens: ParsedTokenSet; options: ImportOptions }
+    | { kind: 'theme'; options: ThemeImportOptions };
+
+export type PlanAction = 'create' | 'update' | 'unchanged' | 'alias' | 'type-change' | 'orphan';
+
+export interface PlanEntry {
+    action: PlanAction;
+    kind: 'variable' | 'text-style' | 'effect-style';
+    /** Collection of a variable; empty for styles */
+    collection: string;
+    name: string;
+    /**
+     * What changes, e.g. `#ffffff → #fafafa` or `Dark: {colors/gray/900} → #111111`;
+     * for a type change, why it can't be imported
+     */
+    changes: string[];
+    /** Variable or style ID of an orphan, for pruning */
+    id?: string;
+    /** Layers and styles that still use an orphan */
+    usage?: Usage;
+}
+
+/** A mode whose local edit the import would overwrite. */
+export interface ConflictValue {
+    /** Mode name; empty for single-mode collections */
+    mode: string;
+    /** What StyleForge last wrote */
+    written: string;
+    local: string;
+    incoming: string;
+}
+
+export interface Conflict {
+    /** Variable ID, for keeping or overwriting the local edit */
+    id: string;
+    collection: string;
+    name: string;
+    values: ConflictValue[];
+}
+
+export interface ImportPlan {
+    entries: PlanEntry[];
+    counts: Record<PlanAction, number>;
+    conflicts: Conflict[];
+    renames: VariableRename[];
+}
+
+export type PlannedValue = ResolvedValue | { kind: 'alias'; collection: string; name: string };
+
+/** A variable as an import would write it. */
+export interface PlannedVariable {
+    name: string;
+    type: VariableResolvedDataType;
+    /** Per mode, in collection mode order; null when no mode has a value */
+    values: (PlannedValue | null)[];
+    modes: string[];
+}
+
+interface TextStyleValues {
+    fontSize: number;
+    lineHeight: number | null;
+    letterSpacing: number;
+}
+
+type EffectStyleValues = { shadows: ShadowLayer[] } | { blur: number };
+
+/** Collections read from the file so far, by name. */
+type ExistingCollections = Map<string, Promise<ExportCollection | null>>;
+
+/** Name prefixes of the groups an import writes; null for a whole collection. */
+export type Scope = string[] | null;
+
+// ─── Planner ─────────────────────────────────────────────────────────────────
+
+/**
+ * Compare what the jobs would write with the current document.
+ * Theme values are matched against primitives already in the file, so on a
+ * first import they show as raw values where the import will alias them.
+ */
+export async function planImport(jobs: ImportJob[], renameMap: RenameMap = {}): Promise<ImportPlan> {
+    const existing: ExistingCollections = new Map();
+    const entries: PlanEntry[] = [];
+    const conflicts: Conflict[] = [];
+    const renames: VariableRename[] = [];
+    const expectedVariables = new Map<string, Set<string>>();
+    const expectedText = new Map<string, TextStyleValues>();
+    const expectedEffects = new Map<string, EffectStyleValues>();
+    // Groups this import writes, per collection and per adapter's styles
+    const variableScopes = new Map<string, Scope>();
+    const textScopes = new Map<string, string[]>();
+    const effectScopes = new Map<string, string[]>();
+    const localVariables = new Map<string, Variable>();
+    for (const variable of await figma.variables.getLocalVariablesAsync()) localVariables.set(variable.id, variable);
+
+    for (const job of jobs) {
+        const collectionName = job.options.collectionName;
+        const current = await readExisting(existing, collectionName);
+        const planned = await plannedVariables(job, current, existing);
+        // A theme collection is written whole
+        const scope = job.kind === 'primitives' ? variableGroups(job.options) : null;
+        if (current) {
+            const adapterId = job.options.origin ? job.options.origin.adapterId : '';
+            renames.push(...findRenames(collectionName, planned, current, scope, renameMap, localVariables, adapterId));
+        }
+
+        const names = expectedVariables.get(collectionName) || new Set<string>();
+        const byName = current ? variablesByName(current) : new Map<string, ExportVariable>();
+        for (const variable of planned) {
+            names.add(variable.name);
+            const before = byName.get(variable.name) || null;
+            entries.push(compareVariable(collectionName, variable, before, current ? current.modes[0] : ''));
+            const conflict = before && await findConflict(collectionName, variable, before, current ? current.modes[0] : '', localVariables);
+            if (conflict) conflicts.push(conflict);
+        }
+        expectedVariables.set(collectionName, names);
+
+        const previous = variableScopes.get(collectionName);
+        variableScopes.set(collectionName, previous === null || scope === null ? null : (previous || []).concat(scope));
+
+        if (job.kind === 'primitives') {
+            const options = job.options;
+            const adapterId = options.origin ? options.origin.adapterId : '';
+            if (options.importTypography) {
+                textScopes.set(adapterId, ['text-']);
+                plannedTextStyles(job.tokens, options).forEach(function (values, name) { expectedText.set(name, values); });
+            }
+            if (options.importShadows || options.importBlur) {
+                effectScopes.set(adapterId, (effectScopes.get(adapterId) || []).concat(effectGroups(options)));
+            }
+            if (options.importShadows) {
+                for (const shadow of job.tokens.shadows) expectedEffects.set(shadow.name, { shadows: shadow.shadows });
+            }
+            if (options.importBlur) {
+                for (const blur of job.tokens.blur) {
+                    expectedEffects.set(variableName('blur', blur.path), { blur: blur.value });
+                    expectedEffects.set('backdrop-blur/' + blur.path.join('/'), { blur: blur.value });
+                }
+                for (const blur of job.tokens.backdropBlur || []) {
+                    expectedEffects.set('backdrop-blur/' + blur.path.join('/'), { blur: blur.value });
+                }
+            }
+        }
+    }
+
+    // Variables the import would leave behind
+    for (const [collectionName, names] of Array.from(expectedVariables.entries())) {
+        const current = await readExisting(existing, collectionName);
+        if (!current) continue;
+        const scope = variableScopes.get(collectionName) || null;
+        const legacy = !current.variables.some(function (variable) {
+            const target = localVariables.get(variable.id);
+            return target && readProvenance(target);
+        });
+        for (const variable of current.variables) {
+            const target = localVariables.get(variable.id);
+            if (!target || names.has(variable.name) || !inScope(variable.name, scope)) continue;
+            if (ownedBy(target, legacy)) {
+                entries.push({
+                    action: 'orphan',
+                    kind: 'variable',
+                    collection: collectionName,
+                    name: variable.name,
+                    changes: [],
+                    id: variable.id,
+                });
+            }
+        }
+    }
+
+    entries.push(...await compareTextStyles(expectedText, textScopes));
+    entries.push(...await compareEffectStyles(expectedEffects, effectScopes));
+
+    const orphans = entries.filter(function (entry) { return entry.action === 'orphan' && entry.id; });
+    const usages = await findUsages(orphans.map(function (entry) { return entry.id as string; }));
+    for (const entry of orphans) {
+        entry.usage = usages.get(entry.id as string);
+    }
+
+    const counts: Record<PlanAction, number> = { create: 0, update: 0, unchanged: 0, alias: 0, 'type-change': 0, orphan: 0 };
+    for (const entry of entries) counts[entry.action]++;
+    return { entries, counts, conflicts, renames };
+}
+
+/**
+ * Why the jobs can't be imported: each variable the file already has under
+ * another type, once the renames are applied. The import runs this before
+ * it writes anything, since the plan it confirmed may be stale.
+ */
+export async function findTypeChanges(jobs: ImportJob[], renames: VariableRename[] = []): Promise<string[]> {
+    const existing: ExistingCollections = new Map();
+    const renamed = new Map<string, string>();
+    for (const rename of renames) renamed.set(rename.id, rename.to);
+
+    const messages: string[] = [];
+    for (const job of jobs) {
+        const collectionName = job.options.collectionName;
+        const current = await readExisting(existing, collectionName);
+        if (!current) continue;
+        const types = new Map<string, VariableResolvedDataType>();
+        for (const variable of current.variables) types.set(renamed.get(variable.id) || variable.name, variable.type);
+
+        for (const variable of await plannedVariables(job, current, existing)) {
+            const type = types.get(variable.name);
+            if (type && type !== variable.type) messages.push(describeTypeChange(collectionName, variable.name, type, variable.type));
+        }
+    }
+    return messages;
+}
+
+// ─── Planned Variables ───────────────────────────────────────────────────────
+
+function plannedVariables(job: ImportJob, current: ExportCollection | null, existing: ExistingCollections): Promise<PlannedVariable[]> {
+    return job.kind === 'primitives'
+        ? plannedPrimitives(job.tokens, job.options, current, existing)
+        : plannedTheme(job.options);
+}
+
+/** The variables `importPrimitives` writes, with the value each one gets. */
+async function plannedPrimitives(
+    tokens: ParsedTokenSet,
+    options: ImportOptions,
+    current: ExportCollection | null,
+    existing: ExistingCollections
+): Promise<PlannedVariable[]> {
+    const mode = current ? current.modes[0] : 'Mode 1';
+    const planned = new Map<string, PlannedVariable>();
+    const written = writtenTokenNames(tokens, options);
+
+    const add = async function (name: string, type: VariableResolvedDataType, value: ResolvedValue, alias?: TokenReference) {
+        const target = await aliasTarget(alias, type, options.collectionName, written, existing);
+        planned.set(name, { name, type, values: [target || value], modes: [mode] });
+    };
+    const addFloats = async function (category: TokenCategory, floats: { path: string[]; value: number; alias?: TokenReference }[]) {
+        for (const token of floats) {
+            await add(variableName(category, token.path), 'FLOAT', { kind: 'number', value: token.value }, token.alias);
+        }
+    };
+
+    if (options.importTypography) {
+        for (const font of tokens.fonts || []) {
+            await add('typography/family/' + font.name, 'STRING', { kind: 'string', value: mapFontFamily(font.family) });
+        }
+    }
+    if (options.importFontWeights) await addFloats('fontWeights', tokens.fontWeights);
+    if (options.importColors) {
+        for (const color of tokens.colors) {
+            await add(variableName('colors', color.path), 'COLOR', { kind: 'color', color: color.figmaColor }, color.alias);
+        }
+    }
+    if (options.importBlur) {
+        await addFloats('blur', tokens.blur);
+        for (const blur of backdropBlurTokens(tokens)) {
+            await add('backdrop-blur/' + blur.path.join('/'), 'FLOAT', { kind: 'number', value: blur.value });
+        }
+    }
+    for (const group of FLOAT_CATEGORIES) {
+        if (writesCategory(group.category, options)) await addFloats(group.category, group.tokens(tokens));
+    }
+    if (options.importEasing) {
+        for (const ez of tokens.easing) {
+            await add(variableName('easing', ez.path), 'STRING', { kind: 'string', value: ez.rawValue }, ez.alias);
+        }
+    }
+
+    if (options.importTypography) {
+        for (const typo of tokens.typography) {
+            await add('typography/size/' + typo.name, 'FLOAT', { kind: 'number', value: typo.fontSize });
+            await add('typography/leading/' + typo.name, 'FLOAT', { kind: 'number', value: lineHeightPx(typo) });
+            if (typo.letterSpacing !== undefined) {
+                await add('typography/letter-spacing/' + typo.name, 'FLOAT', { kind: 'number', value: typo.letterSpacing });
+            } else {
+                await add(VARIABLE_GROUPS.tracking + '/normal', 'FLOAT', { kind: 'number', value: 0 });
+            }
+            // Text styles re-set every weight variable to its raw value
+            if (options.importFontWeights) {
+                for (const fw of tokens.fontWeights) {
+                    await add(variableName('fontWeights', fw.path), 'FLOAT', { kind: 'number', value: fw.value });
+                }
+            }
+        }
+    }
+
+    return Array.from(planned.values());
+}
+
+/** The variables `importThemeTokens` writes, from the same resolution it uses. */
+async function plannedTheme(options: ThemeImportOptions): Promise<PlannedVariable[]> {
+    const resolved = await resolveThemeVariables(options);
+    const collectionNames = new Map<string, string>();
+    for (const collection of await figma.variables.getLocalVariableCollectionsAsync()) {
+        collectionNames.set(collection.id, collection.name);
+    }
+
+    const modes = options.modes.map(function (mode) { return mode.name; });
+    return resolved.variables.map(function (variable) {
+        const values = variable.values.map(function (value): PlannedValue | null {
+            if (value === null) return null;
+            if (typeof value === 'number') return { kind: 'number', value };
+            if ('resolvedType' in value) {
+                return { kind: 'alias', collection: collectionNames.get(value.variableCollectionId) || '', name: value.name };
+            }
+            return { kind: 'color', color: value };
+        });
+        return { name: variable.name, type: variable.type, values, modes };
+    });
+}
+
+/**
+ * Where an alias would point, following `aliasTokenVariable`: other
+ * collections only when the target already exists, this collection only
+ * when the import writes the target.
+ */
+async function aliasTarget(
+    alias: TokenReference | undefined,
+    type: VariableResolvedDataType,
+    collectionName: string,
+    written: Set<string>,
+    existing: ExistingCollections
+): Promise<PlannedValue | null> {
+    if (!alias) return null;
+    const name = variableName(alias.category, alias.path);
+
+    if (alias.collection && alias.collection !== collectionName) {
+        const target = await readExisting(existing, alias.collection);
+        const variable = target && variablesByName(target).get(name);
+        return variable && variable.type === type ? { kind: 'alias', collection: alias.collection, name } : null;
+    }
+
+    return written.has(name) ? { kind: 'alias', collection: collectionName, name } : null;
+}
+
+/** The text styles `importPrimitives` writes: one per size, or per size and weight. */
+function plannedTextStyles(tokens: ParsedTokenSet, options: ImportOptions): Map<string, TextStyleValues> {
+    const styles = new Map<string, TextStyleValues>();
+
+    for (const typo of tokens.typography) {
+        const values = { fontSize: typo.fontSize, lineHeight: lineHeightPx(typo), letterSpacing: typo.letterSpacing || 0 };
+        if (options.importFontWeights && tokens.fontWeights.length > 0) {
+            for (const fw of tokens.fontWeights) styles.set('text-' + typo.name + '/' + fw.path.join('/'), values);
+        } else {
+            styles.set('text-' + typo.name, values);
+        }
+    }
+    return styles;
+}
+
+/** The line height `importPrimitives` binds: ratios become px, default 1.5. */
+function lineHeightPx(typo: ParsedTypography): number {
+    const lineHeight = typo.lineHeight || typo.fontSize * 1.5;
+    return lineHeight < 4 ? typo.fontSize * lineHeight : lineHeight;
+}
+
+// ─── Scope ───────────────────────────────────────────────────────────────────
+
+/** The variable groups `importPrimitives` writes with these options. */
+export function variableGroups(options: ImportOptions): string[] {
+    const groups: string[] = [];
+    for (const category of Object.keys(VARIABLE_GROUPS) as TokenCategory[]) {
+        if (writesCategory(category, options)) groups.push(VARIABLE_GROUPS[category] + '/');
+    }
+    if (options.importBlur) groups.push('backdrop-blur/');
+    if (options.importTypography) {
+        groups.push('typography/family/', 'typography/size/', 'typography/leading/', 'typography/letter-spacing/');
+    }
+    return groups;
+}
+
+/** The effect style groups `importPrimitives` writes with these options. */
+export function effectGroups(options: ImportOptions): string[] {
+    const groups: string[] = [];
+    if (options.importShadows) groups.push('drop-shadow/', 'inset-shadow/', 'text-shadow/');
+    if (options.importBlur) groups.push('blur/', 'backdrop-blur/');
+    return groups;
+}
+
+/** Whether a name is in one of the scope's groups. Deprecated names never are. */
+export function inScope(name: string, scope: Scope): boolean {
+    if (name.indexOf(DEPRECATED_GROUP) === 0) return false;
+    return !scope || scope.some(function (group) { return name.indexOf(group) === 0; });
+}
+
+/**
+ * Whether an import rewrites a style: its adapter writes the style's group,
+ * or, for an unstamped style in a file that predates provenance, any
+ * adapter does.
+ */
+function styleInScope(style: BaseStyle, scopes: Map<string, string[]>, legacy: boolean): boolean {
+    const provenance = readProvenance(style);
+    if (!provenance) {
+        return legacy && Array.from(scopes.values()).some(function (groups) { return inScope(style.name, groups); });
+    }
+    const groups = scopes.get(provenance.adapterId);
+    return !!groups && inScope(style.name, groups);
+}
+
+// ─── Renames ─────────────────────────────────────────────────────────────────
+
+/**
+ * Existing variables the import should rename instead of recreating: those
+ * the rename map names, then variables the same adapter wrote whose values
+ * match exactly one new variable in the same top-level group, and vice
+ * versa. Only groups this import writes are matched, so a value shared
+ * across groups (container/xl, breakpoint/xl) is never taken for a rename.
+ * Each is renamed in the cached collection too, so it compares as an
+ * update under its new name.
+ */
+export function findRenames(
+    collectionName: string,
+    planned: PlannedVariable[],
+    current: ExportCollection,
+    scope: Scope,
+    renameMap: RenameMap,
+    localVariables: Map<string, Variable>,
+    adapterId: string
+): VariableRename[] {
+    const renames: VariableRename[] = [];
+    const plannedNames = new Set(planned.map(function (variable) { return variable.name; }));
+    const currentNames = new Set(current.variables.map(function (variable) { return variable.name; }));
+    const created = planned.filter(function (variable) { return !currentNames.has(variable.name); });
+    const taken = new Set<string>();
+
+    const rename = function (variable: ExportVariable, to: string, detected: boolean) {
+        renames.push({ id: variable.id, collection: collectionName, from: variable.name, to, detected });
+        taken.add(to);
+        variable.name = to;
+    };
+
+    for (const variable of current.variables) {
+        const to = renameMap[variable.name];
+        if (to && !currentNames.has(to) && plannedNames.has(to) && !taken.has(to)) rename(variable, to, false);
+    }
+
+    const candidates = current.variables.filter(function (variable) {
+        if (plannedNames.has(variable.name) || !inScope(variable.name, scope)) return false;
+        const target = localVariables.get(variable.id);
+        const provenance = target && readProvenance(target);
+        return !!provenance && provenance.adapterId === adapterId;
+    });
+    for (const next of created) {
+        if (taken.has(next.name)) continue;
+        const matches = candidates.filter(function (variable) {
+            return topGroup(variable.name) === topGroup(next.name) && sameVariable(variable, next, current.modes[0]);
+        });
+        if (matches.length !== 1) continue;
+        const claims = created.filter(function (other) {
+            return !taken.has(other.name) && topGroup(other.name) === topGroup(matches[0].name)
+                && sameVariable(matches[0], other, current.modes[0]);
+        });
+        if (claims.length !== 1) continue;
+        rename(matches[0], next.name, true);
+        candidates.splice(candidates.indexOf(matches[0]), 1);
+    }
+    if (renames.length > 0) nameIndexes.delete(current);
+    return renames;
+}
+
+/** First segment of a variable name, e.g. `colors` for colors/red/500. */
+function topGroup(name: string): string {
+    return name.split('/')[0];
+}
+
+/** Whether an existing variable already holds every value a planned one gets. */
+function sameVariable(before: ExportVariable, variable: PlannedVariable, firstMode: string): boolean {
+    if (before.type !== variable.type) return false;
+    let compared = 0;
+    for (let i = 0; i < variable.values.length; i++) {
+        const value = variable.values[i];
+        if (!value) continue;
+        const old = before.values[i === 0 ? firstMode : variable.modes[i]];
+        if (!old || !sameValue(old, value)) return false;
+        compared++;
+    }
+    return compared > 0;
+}
+
+// ─── Comparison ──────────────────────────────────────────────────────────────
+
+/**
+ * Compare a planned variable with the one of the same name in the file, if
+ * any. The file's first mode is renamed to match, so it's passed in and the
+ * first value compares against it.
+ */
+export function compareVariable(collectionName: string, variable: PlannedVariable, before: ExportVariable | null, firstMode: string): PlanEntry {
+    const entry: PlanEntry = { action: 'create', kind: 'variable', collection: collectionName, name: variable.name, changes: [] };
+    if (!before) {
+        variable.values.forEach(function (value, i) {
+            if (value) entry.changes.push(modePrefix(variable.modes, i) + describeValue(value));
+        });
+        return entry;
+    }
+
+    if (before.type !== variable.type) {
+        entry.action = 'type-change';
+        entry.changes.push(describeTypeChange(collectionName, variable.name, before.type, variable.type));
+        return entry;
+    }
+
+    let aliasChanged = false;
+    let valueChanged = false;
+    variable.values.forEach(function (value, i) {
+        const mode = i === 0 ? firstMode : variable.modes[i];
+        const old = before.values[mode];
+        if (!value || (old && sameValue(old, value))) return;
+
+        if ((old && old.kind === 'alias') || value.kind === 'alias') aliasChanged = true;
+        else valueChanged = true;
+        entry.changes.push(modePrefix(variable.modes, i) + (old ? describeValue(old) : '(none)') + ' → ' + describeValue(value));
+    });
+
+    entry.action = aliasChanged ? 'alias' : valueChanged ? 'update' : 'unchanged';
+    return entry;
+}
+
+/**
+ * The modes of an existing variable that were edited since StyleForge last
+ * wrote them and that the import would change again. An edit matching the
+ * incoming value isn't a conflict.
+ */
+async function findConflict(
+    collectionName: string,
+    variable: PlannedVariable,
+    before: ExportVariable,
+    firstMode: string,
+    localVariables: Map<string, Variable>
+): Promise<Conflict | null> {
+    const target = localVariables.get(before.id);
+    const written = target && readWrittenValues(target);
+    if (!target || !written) return null;
+
+    const collection = await figma.variables.getVariableCollectionByIdAsync(target.variableCollectionId);
+    if (!collection) return null;
+
+    const values: ConflictValue[] = [];
+    for (let i = 0; i < variable.values.length; i++) {
+        const mode = i === 0 ? firstMode : variable.modes[i];
+        const found = collection.modes.find(function (m) { return m.name === mode; });
+        const incoming = variable.values[i];
+        const local = before.values[mode];
+        if (!found || !incoming || !local || !(found.modeId in written)) continue;
+
+        const last = written[found.modeId];
+        if (JSON.stringify(target.valuesByMode[found.modeId]) === JSON.stringify(last)) continue;
+        if (sameValue(local, incoming)) continue;
+
+        const lastValue = await readVariableValue(last, mode);
+        values.push({
+            mode: variable.modes.length > 1 ? variable.modes[i] : '',
+            written: lastValue ? describeValue(lastValue) : '(none)',
+            local: describeValue(local),
+            incoming: describeValue(incoming),
+        });
+    }
+    return values.length > 0 ? { id: target.id, collection: collectionName, name: variable.name, values } : null;
+}
+
+async function compareTextStyles(expected: Map<string, TextStyleValues>, scopes: Map<string, string[]>): Promise<PlanEntry[]> {
+    const entries: PlanEntry[] = [];
+    const styles = await figma.getLocalTextStylesAsync();
+    const byName = new Map<string, TextStyle>();
+    for (const style of styles) byName.set(style.name, style);
+
+    expected.forEach(function (values, name) {
+        const style = byName.get(name);
+        const after = describeText(values);
+        if (!style) {
+            entries.push({ action: 'create', kind: 'text-style', collection: '', name, changes: [after] });
+            return;
+        }
+        const before = describeText(readTextStyle(style));
+        entries.push(before === after
+            ? { action: 'unchanged', kind: 'text-style', collection: '', name, changes: [] }
+            : { action: 'update', kind: 'text-style', collection: '', name, changes: [before + ' → ' + after] });
+    });
+
+    const legacy = !styles.some(readProvenance);
+    for (const style of styles) {
+        if (!expected.has(style.name) && styleInScope(style, scopes, legacy)) {
+            entries.push({ action: 'orphan', kind: 'text-style', collection: '', name: style.name, changes: [], id: style.id });
+        }
+    }
+    return entries;
+}
+
+async function compareEffectStyles(expected: Map<string, EffectStyleValues>, scopes: Map<string, string[]>): Promise<PlanEntry[]> {
+    const entries: PlanEntry[] = [];
+    const styles = await figma.getLocalEffectStylesAsync();
+    const byName = new Map<string, EffectStyle>();
+    for (const style of styles) byName.set(style.name, style);
+
+    expected.forEach(function (values, name) {
+        const style = byName.get(name);
+        const after = describeEffect(values);
+        if (!style) {
+            entries.push({ action: 'create', kind: 'effect-style', collection: '', name, changes: [after] });
+            return;
+        }
+        const before = describeEffect(readEffectStyle(style));
+        entries.push(before === after
+            ? { action: 'unchanged', kind: 'effect-style', collection: '', name, changes: [] }
+            : { action: 'update', kind: 'effect-style', collection: '', name, changes: [before + ' → ' + after] });
+    });
+
+    const legacy = !styles.some(readProvenance);
+    for (const style of styles) {
+        if (!expected.has(style.name) && styleInScope(style, scopes, legacy)) {
+            entries.push({ action: 'orphan', kind: 'effect-style', collection: '', name: style.name, changes: [], id: style.id });
+        }
+    }
+    return entries;
+}
+
+/**
+ * Whether StyleForge wrote a variable: stamped by any adapter, or unstamped
+ * in a collection whose variables predate provenance.
+ */
+function ownedBy(target: Variable, legacy: boolean): boolean {
+    return readProvenance(target) ? true : legacy;
+}
+
+function sameValue(old: ExportValue, value: PlannedValue): boolean {
+    if (old.kind === 'alias' || value.kind === 'alias') {
+        return old.kind === 'alias' && value.kind === 'alias' && old.collection === value.collection && old.name === value.name;
+    }
+    if (old.kind === 'color' && value.kind === 'color') return colorsMatch(old.color, value.color);
+    if (old.kind === 'number' && value.kind === 'number') return Math.abs(old.value - value.value) < 0.0001;
+    if (old.kind === 'string' && value.kind === 'string') return old.value === value.value;
+    return old.kind === 'boolean' && value.kind === 'boolean' && old.value === value.value;
+}
+
+// ─── Reading ─────────────────────────────────────────────────────────────────
+
+/** Name indexes of the collections read so far; renames drop a collection's index. */
+const nameIndexes = new WeakMap<ExportCollection, Map<string, ExportVariable>>();
+
+/** A collection's variables by name, indexed once instead of searched per lookup. */
+function variablesByName(collection: ExportCollection): Map<string, ExportVariable> {
+    let index = nameIndexes.get(collection);
+    if (!index) {
+        index = new Map();
+        for (const variable of collection.variables) index.set(variable.name, variable);
+        nameIndexes.set(collection, index);
+    }
+    return index;
+}
+
+function readExisting(existing: ExistingCollections, name: string): Promise<ExportCollection | null> {
+    let collection = existing.get(name);
+    if (!collection) {
+        collection = listCollections().then(function (collections) {
+            return collections.some(function (c) { return c.name === name; }) ? readCollection(name) : null;
+        });
+        existing.set(name, collection);
+    }
+    return collection;
+}
+
+function readTextStyle(style: TextStyle): TextStyleValues {
+    return {
+        fontSize: style.fontSize,
+        lineHeight: style.lineHeight.unit === 'PIXELS' ? style.lineHeight.value
+            : style.lineHeight.unit === 'PERCENT' ? style.fontSize * style.lineHeight.value / 100
+            : null,
+        letterSpacing: style.letterSpacing.unit === 'PIXELS' ? style.letterSpacing.value
+            : style.fontSize * style.letterSpacing.value / 100,
+    };
+}
+
+function readEffectStyle(style: EffectStyle): EffectStyleValues {
+    const blur = style.effects.find(function (e) { return e.type === 'LAYER_BLUR' || e.type === 'BACKGROUND_BLUR'; });
+    if (blur && 'radius' in blur) return { blur: blur.radius };
+
+    const shadows: ShadowLayer[] = [];
+    for (const effect of style.effects) {
+        if (effect.type !== 'DROP_SHADOW' && effect.type !== 'INNER_SHADOW') continue;
+        shadows.push({
+            x: effect.offset.x,
+            y: effect.offset.y,
+            blur: effect.radius,
+            spread: effect.spread || 0,
+            color: effect.color,
+            type: effect.type,
+        });
+    }
+    return { shadows };
+}
+
+// ─── Descriptions ────────────────────────────────────────────────────────────
+
+function modePrefix(modes: string[], index: number): string {
+    return modes.length > 1 ? modes[index] + ': ' : '';
+}
+
+function describeValue(value: ExportValue | PlannedValue): string {
+    switch (value.kind) {
+        case 'alias': return '{' + value.name + '}';
+        case 'color': return formatHex(value.color);
+        case 'number': return String(round(value.value));
+        default: return String(value.value);
+    }
+}
+
+/** `14px / 20px / 0px`: size, line height, letter spacing */
+function describeText(values: TextStyleValues): string {
+    return round(values.fontSize) + 'px / '
+        + (values.lineHeight === null ? 'auto' : round(values.lineHeight) + 'px') + ' / '
+        + round(values.letterSpacing) + 'px';
+}
+
+function describeEffect(values: EffectStyleValues): string {
+    if ('blur' in values) return 'blur ' + round(values.blur) + 'px';
+    return values.shadows.map(function (layer) {
+        return (layer.type === 'INNER_SHADOW' ? 'inset ' : '')
+            + round(layer.x) + 'px ' + round(layer.y) + 'px ' + round(layer.blur) + 'px ' + round(layer.spread) + 'px '
+            + formatHex(layer.color as FigmaColor);
+    }).join(', ');
+}
+
+function round(n: number): number {
+    return Math.round(n * 1000) / 1000;
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { parseJsonFloatTokens, parseJsonTokens } from './jsonTokenParser';
+import tokens from './__fixtures__/json-modes.json';
+
+describe('parseJsonTokens', () => {
+    const { modes } = parseJsonTokens(tokens);
+
+    it('makes one mode per mode key, in the order keys first appear', () => {
+        expect(modes.map((m) => m.name)).toEqual(['Light', 'Dark', 'High Contrast']);
+    });
+
+    it('leaves tokens out of modes they have no value for', () => {
+        const [light, dark, contrast] = modes;
+        expect(light.tokens['colors/accent']).toBe('#f4f4f5');
+        expect(dark.tokens).not.toHaveProperty('colors/accent');
+        expect(contrast.tokens).not.toHaveProperty('colors/primary');
+        expect(contrast.tokens['colors/background']).toBe('#000000');
+    });
+
+    it('skips single values and composite tokens', () => {
+        for (const mode of modes) {
+            expect(mode.tokens).not.toHaveProperty('font/sans');
+            expect(mode.tokens).not.toHaveProperty('typography/body');
+        }
+    });
+
+    it('strips the category prefix on request', () => {
+        const light = parseJsonTokens(tokens, { stripCategoryPrefix: true }).modes[0];
+        expect(Object.keys(light.tokens)).toEqual(['background', 'primary', 'accent', 'lg']);
+    });
+});
+
+describe('parseJsonFloatTokens', () => {
+    it('reads per-mode and single dimensions in px', () => {
+        expect(parseJsonFloatTokens(tokens, 'radius')).toEqual([
+            { name: 'sm', values: { '*': 4 } },
+            { name: 'lg', values: { Light: 8, Dark: 8, 'High Contrast': 0 } },
+        ]);
+    });
+});
@@ -1,62 +1,69 @@
 // ─── JSON Token Parser ───────────────────────────────────────────────────────
 // Generic parser for the flat JSON format used by local token files.
-// Handles tokens in the `{ "path/name": { "Light": "#hex", "Dark": "#hex" } }` format.
+// Handles tokens in the `{ "path/name": { "Light": "#hex", "Dark": "#hex" } }` format,
+// with any number of mode keys.
 
-import { parseColorValue, type FigmaColor } from './colorUtils';
+import type { FigmaColor } from './colorUtils';
+import type { ThemeMode } from './parser';
 
 // ─── Types ───────────────────────────────────────────────────────────────────
 
 export interface JsonThemeTokens {
-    light: Record<string, string>;
-    dark: Record<string, string>;
+    /** One entry per mode key, in the order the keys first appear. */
+    modes: ThemeMode[];
 }
 
 export interface JsonColorToken {
     name: string;
-    light: FigmaColor | null;
-    dark: FigmaColor | null;
+    values: Record<string, FigmaColor | null>;
 }
 
 export interface JsonFloatToken {
     name: string;
-    light: number;
-    dark: number;
+    /** Pixel value per mode key; single-value tokens are stored under `'*'`. */
+    values: Record<string, number>;
 }
 
 // ─── Parser ──────────────────────────────────────────────────────────────────
 
 /**
- * Parse a flat JSON token file into light/dark theme token maps.
- * Expects format: `{ "category/name": { "Light": "#value", "Dark": "#value" } }`
+ * Parse a flat JSON token file into one token map per mode.
+ * Expects format: `{ "category/name": { "Light": "#value", "Dark": "#value" } }`,
+ * where the mode keys can be any names (`"Light"`, `"Dark"`, `"HC"`, ...).
  *
  * Non-color tokens (fonts, animations) are skipped for the color map.
+ * A token without a value for some mode is simply absent from that mode's map.
  */
 export function parseJsonTokens(
     data: Record<string, any>,
     options?: { stripCategoryPrefix?: boolean }
 ): JsonThemeTokens {
-    const light: Record<string, string> = {};
-    const dark: Record<string, string> = {};
+    const modes: ThemeMode[] = [];
+    const modeFor = function (name: string): ThemeMode {
+        let mode = modes.find(function (m) { return m.name === name; });
+        if (!mode) {
+            mode = { name, tokens: {} };
+            modes.push(mode);
+        }
+        return mode;
+    };
 
     for (const [key, value] of Object.entries(data)) {
         // Skip non-mode tokens (strings like font families, cubicBezier, etc.)
-        if (typeof value === 'string') continue;
-
-        // Skip typography composite objects (those with a 'size' property)
-        if (typeof value === 'object' && value !== null && 'size' in value) continue;
+        // and typography composite objects (those with a 'size' property)
+        if (!isModeValue(value)) continue;
 
-        // Handle mode-based tokens: { "Light": "...", "Dark": "..." }
-        if (typeof value === 'object' && value !== null && ('Light' in value || 'Dark' in value)) {
-            const tokenName = options?.stripCategoryPrefix
-                ? stripPrefix(key)
-                : key;
+        const tokenName = options?.stripCategoryPrefix
+            ? stripPrefix(key)
+            : key;
 
-            if (value.Light) light[tokenName] = value.Light;
-            if (value.Dark) dark[tokenName] = value.Dark;
+        for (const [modeName, modeValue] of Object.entries(value)) {
+            if (modeValue === '' || modeValue === null) continue;
+            modeFor(modeName).tokens[tokenName] = String(modeValue);
         }
     }
 
-    return { light, dark };
+    return { modes };
 }
 
 /**
@@ -75,24 +82,19 @@ export function parseJsonFloatTokens(
 
         const name = key.replace(`${categoryPrefix}/`, '');
 
-        if (typeof value === 'object' && value !== null && ('Light' in value || 'Dark' in value)) {
-            const lightVal = parseDimensionValue(value.Light);
-            const darkVal = parseDimensionValue(value.Dark);
-            if (lightVal !== null || darkVal !== null) {
-                results.push({
-                    name,
-                    light: lightVal ?? darkVal ?? 0,
-                    dark: darkVal ?? lightVal ?? 0,
-                });
+        if (isModeValue(value)) {
+            const values: Record<string, number> = {};
+            for (const [modeName, modeValue] of Object.entries(value)) {
+                const parsed = parseDimensionValue(modeValue as string);
+                if (parsed !== null) values[modeName] = parsed;
+            }
+            if (Object.keys(values).length > 0) {
+                results.push({ name, values });
             }
         } else if (typeof value === 'string') {
             const parsed = parseDimensionValue(value);
             if (parsed !== null) {
-                results.push({
-                    name,
-                    light: parsed,
-                    dark: parsed,
-                });
+                results.push({ name, values: { '*': parsed } });
             }
         }
     }
@@ -102,6 +104,19 @@ export function parseJsonFloatTokens(
 
 // ─── Helpers ─────────────────────────────────────────────────────────────────
 
+/**
+ * A per-mode token is an object of scalar values keyed by mode name.
+ * Composite objects (typography with `size`, nested groups) are not.
+ */
+function isModeValue(value: unknown): value is Record<string, string | number> {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+    if ('size' in value) return false;
+    const entries = Object.values(value);
+    return entries.length > 0 && entries.every(function (v) {
+        return typeof v === 'string' || typeof v === 'number';
+    });
+}
+
 function stripPrefix(key: string): string {
     // "colors/background" → "background"
     // "primitives/gray-50" → "gray-50"
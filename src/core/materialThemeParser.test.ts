@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { materialSchemeModes, parseMaterialTheme } from './materialThemeParser';
+import theme from './__fixtures__/material-theme.json';
+
+const PALETTES = 'Material Palettes';
+
+describe('parseMaterialTheme', () => {
+    const { palettes, modes } = parseMaterialTheme(theme, PALETTES);
+    const tone = (palette: string, value: string) => ({ collection: PALETTES, category: 'colors', path: [palette, value] });
+
+    it('imports every palette tone in tone order', () => {
+        expect(palettes.colors.filter((c) => c.path[0] === 'primary').map((c) => c.path[1]))
+            .toEqual(['0', '10', '20', '40', '80', '100']);
+        expect(palettes.colors).toHaveLength(15);
+    });
+
+    it('makes a mode per scheme with readable names', () => {
+        expect(modes.map((m) => m.name)).toEqual(['Light', 'Dark', 'Light High Contrast']);
+    });
+
+    it('aliases roles to the tone with the same value', () => {
+        const [light, dark] = modes;
+        expect(light.tokens.primary).toBe('#6750A4');
+        expect(light.aliases?.primary).toEqual(tone('primary', '40'));
+        expect(dark.aliases?.primary).toEqual(tone('primary', '80'));
+        expect(dark.aliases?.surface).toEqual(tone('neutral', '6'));
+    });
+
+    it('prefers the role\'s own palette when tones share a value', () => {
+        const light = modes[0];
+        expect(light.aliases?.onPrimary).toEqual(tone('primary', '100'));
+        expect(light.aliases?.shadow).toEqual(tone('neutral', '0'));
+    });
+});
+
+describe('materialSchemeModes', () => {
+    it('lists the scheme modes of an export, or none', () => {
+        expect(materialSchemeModes(JSON.stringify(theme))).toEqual(['Light', 'Dark', 'Light High Contrast']);
+        expect(materialSchemeModes('not json')).toEqual([]);
+    });
+});
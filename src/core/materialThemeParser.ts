@@ -0,0 +1,115 @@
+// ─── Material Theme Parser ───────────────────────────────────────────────────
+// Reads Material Theme Builder JSON exports. Tonal `palettes` become one
+// primitive color set (colors/primary/40, colors/neutral-variant/90, ...) and
+// every entry in `schemes` becomes a mode whose role tokens (primary,
+// onPrimary, surfaceContainer, ...) alias the palette tone with the same value.
+
+import { parseColorValue, colorsMatch, type FigmaColor } from './colorUtils';
+import { createEmptyTokenSet, type ParsedColor, type ParsedTokenSet, type ThemeMode, type TokenReference } from './parser';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface MaterialThemeTokens {
+    /** Tonal palettes, one color per palette tone */
+    palettes: ParsedTokenSet;
+    /** One mode per scheme, in export order */
+    modes: ThemeMode[];
+}
+
+/**
+ * Palettes to search first for a role, so `onSecondary` aliases the
+ * secondary palette even when another palette has the same tone value.
+ */
+const ROLE_PALETTES: [RegExp, string][] = [
+    [/tertiary/i, 'tertiary'],
+    [/secondary/i, 'secondary'],
+    [/primary|surfaceTint/i, 'primary'],
+    [/error/i, 'error'],
+    [/variant|outline/i, 'neutral-variant'],
+    [/./, 'neutral'],
+];
+
+// ─── Parser ──────────────────────────────────────────────────────────────────
+
+/**
+ * Parse a Material Theme Builder export. `paletteCollection` is the name of
+ * the collection the palettes are imported into, for the role aliases.
+ */
+export function parseMaterialTheme(data: Record<string, any>, paletteCollection: string): MaterialThemeTokens {
+    const palettes = createEmptyTokenSet();
+    palettes.colors = parsePalettes(data.palettes);
+
+    const schemes: Record<string, Record<string, string>> = isObject(data.schemes) ? data.schemes : {};
+    const modes = Object.keys(schemes).map(function (scheme) {
+        return buildSchemeMode(scheme, schemes[scheme], palettes.colors, paletteCollection);
+    });
+
+    return { palettes, modes };
+}
+
+/** Mode names for the schemes in an export, or none if it doesn't parse. */
+export function materialSchemeModes(source: string): string[] {
+    try {
+        const data = JSON.parse(source);
+        return isObject(data.schemes) ? Object.keys(data.schemes).map(schemeModeName) : [];
+    } catch (error) {
+        return [];
+    }
+}
+
+/** `light-medium-contrast` → `Light Medium Contrast` */
+function schemeModeName(scheme: string): string {
+    return scheme.split(/[-_\s]+/).map(function (w) { return w.charAt(0).toUpperCase() + w.slice(1); }).join(' ');
+}
+
+function parsePalettes(palettes: unknown): ParsedColor[] {
+    const colors: ParsedColor[] = [];
+    if (!isObject(palettes)) return colors;
+
+    for (const [palette, tones] of Object.entries(palettes)) {
+        if (!isObject(tones)) continue;
+        const ordered = Object.keys(tones).sort(function (a, b) { return parseFloat(a) - parseFloat(b); });
+        for (const tone of ordered) {
+            const rawValue = String(tones[tone]);
+            const figmaColor = parseColorValue(rawValue);
+            if (figmaColor) colors.push({ path: [palette, tone], figmaColor, rawValue });
+        }
+    }
+    return colors;
+}
+
+/**
+ * Build one mode from a scheme. Roles whose value isn't a palette tone (the
+ * builder can derive extra tones) keep their raw value.
+ */
+function buildSchemeMode(
+    scheme: string,
+    roles: Record<string, string>,
+    paletteColors: ParsedColor[],
+    paletteCollection: string
+): ThemeMode {
+    const tokens: Record<string, string> = {};
+    const aliases: Record<string, TokenReference> = {};
+
+    for (const [role, value] of Object.entries(roles)) {
+        if (typeof value !== 'string') continue;
+        const color = parseColorValue(value);
+        if (!color) continue;
+
+        tokens[role] = value;
+        const tone = findTone(role, color, paletteColors);
+        if (tone) aliases[role] = { collection: paletteCollection, category: 'colors', path: tone.path };
+    }
+
+    return { name: schemeModeName(scheme), tokens, aliases };
+}
+
+function findTone(role: string, color: FigmaColor, paletteColors: ParsedColor[]): ParsedColor | undefined {
+    const preferred = ROLE_PALETTES.find(function (entry) { return entry[0].test(role); });
+    const matches = paletteColors.filter(function (c) { return colorsMatch(c.figmaColor, color); });
+    return matches.find(function (c) { return preferred !== undefined && c.path[0] === preferred[1]; }) || matches[0];
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
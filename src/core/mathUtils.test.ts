@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateExpression, evaluateMath } from './mathUtils';
+
+describe('evaluateMath', () => {
+    it('evaluates arithmetic and keeps the unit', () => {
+        expect(evaluateMath('8px * 2')).toBe('16px');
+        expect(evaluateMath('2rem - 0.5rem')).toBe('1.5rem');
+        expect(evaluateMath('(16 + 4) / 2')).toBe('10');
+        expect(evaluateMath('4 * -2')).toBe('-8');
+    });
+
+    it('leaves values that are not expressions unchanged', () => {
+        expect(evaluateMath('#fff')).toBe('#fff');
+        expect(evaluateMath('Inter, sans-serif')).toBe('Inter, sans-serif');
+        expect(evaluateMath('1 / 0')).toBe('1 / 0');
+    });
+});
+
+describe('evaluateExpression', () => {
+    it('needs at least one operator', () => {
+        expect(evaluateExpression('10')).toBeNull();
+        expect(evaluateExpression('10px + 2px')).toEqual({ value: 12, unit: 'px' });
+    });
+});
@@ -0,0 +1,119 @@
+// ─── Math Expression Evaluation ──────────────────────────────────────────────
+// Evaluates arithmetic in token values such as "8px * 2" or "(16 + 4) / 2",
+// as written by Tokens Studio and Sass. The result keeps the operands' unit.
+
+const NUMBER = /^(\d*\.?\d+(?:e[+-]?\d+)?)(px|rem|em|%|deg|ms|s)?/i;
+
+type MathToken =
+    | { kind: 'number'; value: number; unit: string }
+    | { kind: 'op'; value: string };
+
+/**
+ * Evaluate an arithmetic expression with optional units.
+ * Returns the value unchanged when it is not a pure expression (plain
+ * numbers, colors, font stacks, ...).
+ */
+export function evaluateMath(value: string): string {
+    const result = evaluateExpression(value);
+    if (result === null) return value;
+    return formatNumber(result.value) + result.unit;
+}
+
+/**
+ * Evaluate an arithmetic expression to a number and unit.
+ * Returns null when the value is not an expression with at least one operator.
+ */
+export function evaluateExpression(value: string): { value: number; unit: string } | null {
+    const tokens = tokenize(value.trim());
+    if (!tokens || !tokens.some(function (t) { return t.kind === 'op' && t.value !== '(' && t.value !== ')'; })) {
+        return null;
+    }
+
+    let pos = 0;
+    let unit = '';
+
+    function peek(): MathToken | undefined {
+        return tokens![pos];
+    }
+
+    // expression := term (('+' | '-') term)*
+    function expression(): number {
+        let left = term();
+        let next = peek();
+        while (next && next.kind === 'op' && (next.value === '+' || next.value === '-')) {
+            pos++;
+            const right = term();
+            left = next.value === '+' ? left + right : left - right;
+            next = peek();
+        }
+        return left;
+    }
+
+    // term := factor (('*' | '/') factor)*
+    function term(): number {
+        let left = factor();
+        let next = peek();
+        while (next && next.kind === 'op' && (next.value === '*' || next.value === '/')) {
+            pos++;
+            const right = factor();
+            left = next.value === '*' ? left * right : left / right;
+            next = peek();
+        }
+        return left;
+    }
+
+    // factor := number | '-' factor | '(' expression ')'
+    function factor(): number {
+        const token = tokens![pos++];
+        if (!token) throw new Error('Unexpected end of expression');
+        if (token.kind === 'number') {
+            if (token.unit && !unit) unit = token.unit;
+            return token.value;
+        }
+        if (token.value === '-') return -factor();
+        if (token.value === '(') {
+            const inner = expression();
+            const close = tokens![pos++];
+            if (!close || close.value !== ')') throw new Error('Unbalanced parentheses');
+            return inner;
+        }
+        throw new Error('Unexpected operator ' + token.value);
+    }
+
+    try {
+        const result = expression();
+        if (pos !== tokens.length || !isFinite(result)) return null;
+        return { value: result, unit };
+    } catch (e) {
+        return null;
+    }
+}
+
+function tokenize(input: string): MathToken[] | null {
+    const tokens: MathToken[] = [];
+    let rest = input;
+
+    while (rest.length > 0) {
+        const space = rest.match(/^\s+/);
+        if (space) {
+            rest = rest.slice(space[0].length);
+            continue;
+        }
+        if ('+-*/()'.indexOf(rest[0]) >= 0) {
+            tokens.push({ kind: 'op', value: rest[0] });
+            rest = rest.slice(1);
+            continue;
+        }
+        const number = rest.match(NUMBER);
+        if (!number) return null;
+        tokens.push({ kind: 'number', value: parseFloat(number[1]), unit: (number[2] || '').toLowerCase() });
+        rest = rest.slice(number[0].length);
+    }
+
+    return tokens;
+}
+
+/** Round away floating point noise (0.1 + 0.2 → 0.3). */
+function formatNumber(value: number): string {
+    return String(Math.round(value * 10000) / 10000);
+}
@@ -0,0 +1,39 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { parseOpenProps } from './openPropsParser';
+
+describe('parseOpenProps', () => {
+    const parsed = parseOpenProps(readFileSync(new URL('./__fixtures__/open-props.css', import.meta.url), 'utf8'));
+
+    it('maps color steps to color scales', () => {
+        expect(parsed.colors.map((c) => c.path.join('/'))).toEqual(['gray/0', 'gray/12', 'blue/6']);
+    });
+
+    it('maps sizes, radii and border sizes onto the theme namespaces', () => {
+        expect(parsed.spacing).toEqual([
+            { path: ['1'], value: 4, rawValue: '.25rem' },
+            { path: ['3'], value: 16, rawValue: '1rem' },
+        ]);
+        expect(parsed.radius).toEqual([{ path: ['2'], value: 5, rawValue: '5px' }]);
+        expect(parsed.borderWidth).toEqual([{ path: ['1'], value: 1, rawValue: '1px' }]);
+    });
+
+    it('maps the font scales', () => {
+        expect(parsed.typography).toEqual([{ name: '2', fontSize: 17.6, rawValue: '1.1rem' }]);
+        expect(parsed.fontWeights).toEqual([{ path: ['7'], value: 700, rawValue: '700' }]);
+        expect(parsed.leading).toEqual([{ path: ['3'], value: 1.5, rawValue: '1.5' }]);
+        expect(parsed.fonts).toEqual([{ name: 'sans', family: 'system-ui', rawValue: 'system-ui, sans-serif' }]);
+    });
+
+    it('resolves var() and calc() in shadows', () => {
+        expect(parsed.shadows).toHaveLength(1);
+        expect(parsed.shadows[0].rawValue).toBe('0 1px 2px -1px hsl(220 3% 15% / 10%)');
+        expect(parsed.shadows[0].shadows[0]).toMatchObject({ x: 0, y: 1, blur: 2, spread: -1 });
+        expect(parsed.shadows[0].shadows[0].color.a).toBeCloseTo(0.1);
+    });
+
+    it('reads easings and ignores props it has no namespace for', () => {
+        expect(parsed.easing).toEqual([{ path: ['3'], value: [0.25, 0, 0.3, 1], rawValue: 'cubic-bezier(0.25, 0, 0.3, 1)' }]);
+        expect(JSON.stringify(parsed)).not.toContain('layer');
+    });
+});
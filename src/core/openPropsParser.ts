@@ -0,0 +1,68 @@
+// ─── Open Props Parser ───────────────────────────────────────────────────────
+// Maps Open Props custom properties onto the Tailwind v4 theme namespaces so
+// `categorizeTokens` handles them: `--gray-5` → `--color-gray-5`,
+// `--size-3` → `--spacing-3`, `--font-size-2` → `--text-2`, ... Values are
+// resolved first, since shadows are built from `var()` and `calc()`.
+
+import { categorizeTokens, extractCSSVariables, type CSSVariable, type ParsedTokenSet } from './parser';
+import { parseColorValue } from './colorUtils';
+import { evaluateMath } from './mathUtils';
+
+/** Open Props names and the theme variable each one becomes. */
+const RENAMES: [RegExp, string][] = [
+    [/^--size-(\d+)$/, '--spacing-$1'],
+    [/^--radius-(\d+)$/, '--radius-$1'],
+    [/^--border-size-(\d+)$/, '--border-width-$1'],
+    [/^--shadow-(\d+)$/, '--shadow-$1'],
+    [/^--inner-shadow-(\d+)$/, '--inset-shadow-$1'],
+    [/^--ease-([\w-]+)$/, '--ease-$1'],
+    [/^--font-size-(\d+)$/, '--text-$1'],
+    [/^--font-weight-(\d+)$/, '--font-weight-$1'],
+    [/^--font-lineheight-(\d+)$/, '--leading-$1'],
+    [/^--font-letterspacing-(\d+)$/, '--tracking-$1'],
+    [/^--font-(sans|serif|mono)$/, '--font-$1'],
+];
+
+/** Color scales are `--<hue>-<step>`, e.g. `--gray-0` to `--gray-12`. */
+const COLOR_STEP = /^--([a-z]+)-(\d+)$/;
+
+/** Parse Open Props CSS into a token set. */
+export function parseOpenProps(css: string): ParsedTokenSet {
+    const declared = extractCSSVariables(css);
+    const values = new Map<string, string>();
+    for (const v of declared) {
+        values.set(v.name, v.rawValue);
+    }
+
+    const vars: CSSVariable[] = [];
+    for (const v of declared) {
+        const rawValue = resolveValue(v.rawValue, values, 0);
+        const renamed = RENAMES.find(function (rule) { return rule[0].test(v.name); });
+        if (renamed) {
+            vars.push({ name: v.name.replace(renamed[0], renamed[1]), rawValue });
+        } else if (COLOR_STEP.test(v.name) && parseColorValue(rawValue)) {
+            vars.push({ name: v.name.replace(COLOR_STEP, '--color-$1-$2'), rawValue });
+        }
+    }
+
+    return categorizeTokens(vars);
+}
+
+/**
+ * Substitute `var(--x, fallback)` references and evaluate the `calc()`
+ * they produce, e.g. `calc(var(--shadow-strength) + 9%)` → `10%`.
+ */
+function resolveValue(value: string, values: Map<string, string>, depth: number): string {
+    if (depth > 10) return value;
+
+    const substituted = value.replace(/var\(\s*(--[\w-]+)\s*(?:,\s*([^()]+))?\)/g, function (match, name: string, fallback?: string) {
+        const referenced = values.get(name);
+        if (referenced !== undefined) return resolveValue(referenced, values, depth + 1);
+        return fallback ? fallback.trim() : match;
+    });
+
+    return substituted.replace(/calc\(([^()]*)\)/g, function (match, expression: string) {
+        const result = evaluateMath(expression);
+        return result === expression ? match : result;
+    });
+}
@@ -0,0 +1,117 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import {
+    categorizeTokens,
+    isNamespaceCleared,
+    mergeThemeVariables,
+    parseRootAndDark,
+    parseThemeModes,
+    parseThemeOverrides,
+    type CSSVariable,
+} from './parser';
+
+const fixture = (name: string) => readFileSync(new URL('./__fixtures__/' + name, import.meta.url), 'utf8');
+
+const DEFAULTS: CSSVariable[] = [
+    { name: '--color-red-500', rawValue: 'oklch(0.637 0.237 25.331)' },
+    { name: '--color-blue-500', rawValue: 'oklch(0.623 0.214 259.815)' },
+    { name: '--font-sans', rawValue: 'ui-sans-serif, system-ui' },
+    { name: '--font-weight-bold', rawValue: '700' },
+    { name: '--spacing', rawValue: '0.25rem' },
+    { name: '--radius-sm', rawValue: '0.25rem' },
+    { name: '--radius-lg', rawValue: '0.5rem' },
+];
+
+describe('categorizeTokens', () => {
+    it('gives each text size only its own line height, letter spacing and weight', () => {
+        const typography = categorizeTokens([
+            { name: '--text-sm', rawValue: '0.875rem' },
+            { name: '--text-sm--line-height', rawValue: 'calc(1.25 / 0.875)' },
+            { name: '--text-sm--letter-spacing', rawValue: '0.01em' },
+            { name: '--text-sm--font-weight', rawValue: '500' },
+            { name: '--text-base', rawValue: '1rem' },
+        ]).typography;
+
+        expect(typography[0]).toMatchObject({ name: 'sm', fontSize: 14, fontWeight: 500 });
+        expect(typography[0].lineHeight).toBeCloseTo(1.4286, 4);
+        expect(typography[1]).toEqual(expect.objectContaining({ name: 'base', fontSize: 16 }));
+        expect(typography[1].lineHeight).toBeUndefined();
+        expect(typography[1].letterSpacing).toBeUndefined();
+        expect(typography[1].fontWeight).toBeUndefined();
+    });
+});
+
+describe('parseThemeOverrides', () => {
+    it('reads every @theme block, keeping resets and skipping nested rules', () => {
+        expect(parseThemeOverrides(fixture('theme-overrides.css')).map((v) => v.name)).toEqual([
+            '--color-*', '--color-brand', '--font-*', '--spacing', '--gap-card', '--radius-lg', '--radius-pill',
+        ]);
+    });
+});
+
+describe('mergeThemeVariables', () => {
+    const overrides = parseThemeOverrides(fixture('theme-overrides.css'));
+    const merged = new Map(mergeThemeVariables(DEFAULTS, overrides).map((v) => [v.name, v.rawValue]));
+
+    it('clears namespaces reset to initial, but not namespaces sharing their prefix', () => {
+        expect(merged.has('--color-red-500')).toBe(false);
+        expect(merged.has('--font-sans')).toBe(false);
+        expect(merged.get('--font-weight-bold')).toBe('700');
+    });
+
+    it('drops single variables reset to initial', () => {
+        expect(merged.has('--radius-lg')).toBe(false);
+        expect(merged.get('--radius-sm')).toBe('0.25rem');
+    });
+
+    it('overrides and extends the defaults', () => {
+        expect(merged.get('--spacing')).toBe('0.2rem');
+        expect(merged.get('--radius-pill')).toBe('9999px');
+    });
+
+    it('resolves var() against the merged theme, falling back when missing', () => {
+        expect(merged.get('--gap-card')).toBe('0.2rem');
+        expect(merged.get('--color-brand')).toBe('oklch(0.62 0.19 259)');
+    });
+
+    it('clears everything with --*: initial', () => {
+        const result = mergeThemeVariables(DEFAULTS, [{ name: '--*', rawValue: 'initial' }, { name: '--color-x', rawValue: '#000' }]);
+        expect(result).toEqual([{ name: '--color-x', rawValue: '#000' }]);
+    });
+});
+
+describe('isNamespaceCleared', () => {
+    it('detects namespace and global resets', () => {
+        const overrides = parseThemeOverrides(fixture('theme-overrides.css'));
+        expect(isNamespaceCleared(overrides, '--color')).toBe(true);
+        expect(isNamespaceCleared(overrides, '--spacing')).toBe(false);
+        expect(isNamespaceCleared([{ name: '--*', rawValue: 'initial' }], '--spacing')).toBe(true);
+    });
+});
+
+describe('parseThemeModes', () => {
+    const modes = parseThemeModes(fixture('themes.css'));
+    const mode = (name: string) => modes.find((m) => m.name === name)!;
+
+    it('makes a mode of every theme selector, the base mode first', () => {
+        expect(modes.map((m) => m.name)).toEqual(['Light', 'Dark', 'Ocean', 'Rose', 'Rose Dark']);
+    });
+
+    it('inherits what a mode does not redefine from :root', () => {
+        expect(mode('Ocean').tokens).toEqual({ '--background': '#e0f2fe', '--foreground': '#111111', '--radius': '0.5rem' });
+    });
+
+    it('inherits a combined mode from its theme', () => {
+        expect(mode('Rose Dark').tokens['--background']).toBe('#4c0519');
+        expect(mode('Rose Dark').tokens['--foreground']).toBe('#881337');
+    });
+
+    it('merges .dark and prefers-color-scheme: dark in source order', () => {
+        expect(mode('Dark').tokens['--background']).toBe('#000000');
+        expect(mode('Dark').tokens['--foreground']).toBe('#eeeeee');
+    });
+
+    it('keeps only Light and Dark for parseRootAndDark', () => {
+        expect(parseRootAndDark(fixture('themes.css')).modes.map((m) => m.name)).toEqual(['Light', 'Dark']);
+    });
+});
@@ -5,6 +5,7 @@
 // - Raw key: value maps
 
 import { parseColorValue, parseDimension, type FigmaColor } from './colorUtils';
+import type { TokenCategory } from '../adapters/types';
 
 // ─── Types ───────────────────────────────────────────────────────────────────
 
@@ -13,16 +14,29 @@ export interface CSSVariable {
     rawValue: string;    // e.g. "oklch(63.7% 0.237 25.331)"
 }
 
+/**
+ * Points a token at another token. The import pipeline turns it into a Figma
+ * variable alias instead of writing the resolved value.
+ */
+export interface TokenReference {
+    /** Collection holding the target; omitted for the token's own collection */
+    collection?: string;
+    category: TokenCategory;
+    path: string[];
+}
+
 export interface ParsedColor {
     path: string[];      // e.g. ["red", "500"]
     figmaColor: FigmaColor;
     rawValue: string;
+    alias?: TokenReference;
 }
 
 export interface ParsedFloat {
     path: string[];      // e.g. ["4"]
     value: number;       // px value
     rawValue: string;
+    alias?: TokenReference;
 }
 
 export interface ParsedShadow {
@@ -58,6 +72,9 @@ export interface ParsedTokenSet {
     backdropBlur: ParsedFloat[];
     maxWidth: ParsedFloat[];
     skew: ParsedFloat[];
+    easing: ParsedEasing[];
+    /** Tokens the parser skipped or imported differently, reported after the import */
+    warnings?: string[];
 }
 
 export interface ParsedTypography {
@@ -75,9 +92,24 @@ export interface ParsedFont {
     rawValue: string;
 }
 
+export interface ParsedEasing {
+    path: string[];      // e.g. ["in-out"]
+    value: [number, number, number, number];
+    rawValue: string;    // e.g. "cubic-bezier(0.4, 0, 0.2, 1)"
+    alias?: TokenReference;
+}
+
+/** Theme tokens for any number of modes; the first mode is the default. */
 export interface ThemeTokens {
-    light: Record<string, string>;
-    dark: Record<string, string>;
+    modes: ThemeMode[];
+}
+
+/** One mode of a theme collection (e.g. "Light"), keyed by token name. */
+export interface ThemeMode {
+    name: string;
+    tokens: Record<string, string>;
+    /** Tokens that alias a specific primitive instead of matching by value */
+    aliases?: Record<string, TokenReference>;
 }
 
 // ─── CSS Variable Extraction ─────────────────────────────────────────────────
@@ -111,43 +143,230 @@ export function parseThemeBlock(css: string): CSSVariable[] {
     return extractCSSVariables(themeMatch[1]);
 }
 
+// ─── Project @theme Overrides ────────────────────────────────────────────────
+
 /**
- * Parse :root { ... } and .dark { ... } (or [data-theme="dark"]) blocks.
- * Returns separate light and dark variable maps.
+ * Namespaces that share a prefix with another namespace. Clearing `--font-*`
+ * must not clear `--font-weight-*`, matching the Tailwind compiler.
  */
-export function parseRootAndDark(css: string): ThemeTokens {
-    const light: Record<string, string> = {};
-    const dark: Record<string, string> = {};
-
-    // Extract :root block
-    const rootMatch = css.match(/:root\s*\{([\s\S]*?)\}/);
-    if (rootMatch) {
-        const vars = extractCSSVariables(rootMatch[1]);
-        for (const v of vars) {
-            light[v.name] = v.rawValue;
+const IGNORED_NAMESPACES: Record<string, string[]> = {
+    '--font': ['--font-weight', '--font-size'],
+    '--inset': ['--inset-shadow', '--inset-ring'],
+    '--text': [
+        '--text-color', '--text-decoration-color', '--text-decoration-thickness',
+        '--text-indent', '--text-shadow', '--text-underline-offset',
+    ],
+};
+
+/**
+ * Extract declarations from every `@theme { ... }` block in a project
+ * stylesheet, in source order. Unlike `parseThemeBlock`, this keeps
+ * namespace resets such as `--color-*: initial` and `--*: initial`.
+ */
+export function parseThemeOverrides(css: string): CSSVariable[] {
+    const source = css.replace(/\/\*[\s\S]*?\*\//g, '');
+    const vars: CSSVariable[] = [];
+    const blockRegex = /@theme\b[^{;]*\{/g;
+    let block;
+    while ((block = blockRegex.exec(source)) !== null) {
+        // Match braces so nested @keyframes don't end the block early
+        let depth = 1;
+        let i = blockRegex.lastIndex;
+        for (; i < source.length && depth > 0; i++) {
+            if (source[i] === '{') depth++;
+            else if (source[i] === '}') depth--;
+        }
+        const body = source.slice(blockRegex.lastIndex, i - 1);
+        blockRegex.lastIndex = i;
+
+        const declRegex = /(--[\w-]*\*?)\s*:\s*([^;{}]+)/g;
+        let decl;
+        while ((decl = declRegex.exec(body)) !== null) {
+            vars.push({
+                name: decl[1].trim(),
+                rawValue: decl[2].trim().replace(/\s+/g, ' '),
+            });
         }
     }
+    return vars;
+}
+
+/**
+ * Layer project `@theme` declarations over the default theme the way the
+ * Tailwind compiler does: `--*: initial` drops every default, `--ns-*: initial`
+ * drops a namespace, `--name: initial` drops one variable, and anything else
+ * overrides or extends the defaults. `var()` references to other theme
+ * variables are resolved against the merged result.
+ */
+export function mergeThemeVariables(base: CSSVariable[], overrides: CSSVariable[]): CSSVariable[] {
+    const merged = new Map<string, string>();
+    for (const v of base) {
+        merged.set(v.name, v.rawValue);
+    }
 
-    // Extract .dark block
-    const darkMatch = css.match(/\.dark\s*\{([\s\S]*?)\}/);
-    if (darkMatch) {
-        const vars = extractCSSVariables(darkMatch[1]);
-        for (const v of vars) {
-            dark[v.name] = v.rawValue;
+    for (const v of overrides) {
+        if (v.rawValue !== 'initial') {
+            merged.set(v.name, v.rawValue);
+            continue;
+        }
+
+        if (v.name === '--*') {
+            merged.clear();
+        } else if (v.name.endsWith('-*')) {
+            const namespace = v.name.slice(0, -2);
+            const ignored = IGNORED_NAMESPACES[namespace] || [];
+            for (const name of Array.from(merged.keys())) {
+                if (!name.startsWith(namespace)) continue;
+                if (ignored.some(function (prefix) { return name.startsWith(prefix); })) continue;
+                merged.delete(name);
+            }
+        } else {
+            merged.delete(v.name);
         }
     }
 
-    return { light, dark };
+    const resolve = function (value: string, depth: number): string {
+        return value.replace(/var\(\s*(--[\w-]+)\s*(?:,\s*([^)]+))?\)/g, function (match, name: string, fallback?: string) {
+            if (depth > 10) return match;
+            const target = merged.get(name);
+            if (target !== undefined) return resolve(target, depth + 1);
+            return fallback ? fallback.trim() : match;
+        });
+    };
+
+    const result: CSSVariable[] = [];
+    merged.forEach(function (rawValue, name) {
+        result.push({ name, rawValue: resolve(rawValue, 0) });
+    });
+    return result;
 }
 
-// ─── Token Categorization ────────────────────────────────────────────────────
+/** Whether project overrides reset a namespace (e.g. `--color-*: initial`). */
+export function isNamespaceCleared(overrides: CSSVariable[], namespace: string): boolean {
+    return overrides.some(function (v) {
+        return v.rawValue === 'initial' && (v.name === '--*' || v.name === namespace + '-*');
+    });
+}
 
 /**
- * Categorize raw CSS variables into typed token groups (colors, spacing, etc.).
- * Used primarily for the Tailwind adapter.
+ * Parse :root { ... } and .dark { ... } (or [data-theme="dark"]) blocks.
+ * Returns the Light and Dark modes only; see `parseThemeModes` for the rest.
  */
-export function categorizeTokens(vars: CSSVariable[]): ParsedTokenSet {
-    const result: ParsedTokenSet = {
+export function parseRootAndDark(css: string): ThemeTokens {
+    return {
+        modes: parseThemeModes(css).filter(function (mode) {
+            return mode.name === 'Light' || mode.name === 'Dark';
+        }),
+    };
+}
+
+// ─── Theme Selectors → Modes ─────────────────────────────────────────────────
+
+const BASE_SELECTOR = /^(:root|html|:host)$/;
+const THEME_ATTRIBUTE = /\[data-(?:theme|mode|color-scheme|color-mode)\s*=\s*["']?([\w-]+)["']?\s*\]/;
+const THEME_CLASS = /\.theme-([\w-]+)/;
+const SCHEME_CLASS = /\.(light|dark)(?![\w-])/;
+
+/**
+ * Find every theme-defining selector and turn each into a named mode:
+ * `:root` → Light, `.dark` or `@media (prefers-color-scheme: dark)` → Dark,
+ * `[data-theme="ocean"]` → Ocean, `.theme-rose` → Rose, and combinations such
+ * as `.theme-rose.dark` → Rose Dark. Modes inherit the variables they don't
+ * redefine from `:root` (and "Rose Dark" from "Rose"), as the cascade would.
+ * The base mode comes first; the rest follow source order.
+ */
+export function parseThemeModes(css: string): ThemeMode[] {
+    const declared = new Map<string, Record<string, string>>();
+
+    walkRules(css.replace(/\/\*[\s\S]*?\*\//g, ''), '', function (selectors, body, media) {
+        const vars = extractCSSVariables(body.replace(/[^{};]*\{[^{}]*\}/g, ''));
+        if (vars.length === 0) return;
+
+        for (const selector of selectors.split(',')) {
+            const name = modeForSelector(selector.trim(), media);
+            if (!name) continue;
+            const tokens = declared.get(name) || {};
+            for (const v of vars) {
+                tokens[v.name] = v.rawValue;
+            }
+            declared.set(name, tokens);
+        }
+    });
+
+    const base = declared.get('Light') || {};
+    const names = Array.from(declared.keys()).sort(function (a, b) {
+        return (a === 'Light' ? 0 : 1) - (b === 'Light' ? 0 : 1);
+    });
+
+    return names.map(function (name) {
+        const parent = name.endsWith(' Dark') ? declared.get(name.slice(0, -' Dark'.length)) : undefined;
+        return {
+            name,
+            tokens: name === 'Light' ? base : { ...base, ...parent, ...declared.get(name) },
+        };
+    });
+}
+
+/**
+ * Visit every style rule, descending into @media, @layer and @supports.
+ * `media` is the enclosing @media prelude, if any.
+ */
+function walkRules(css: string, media: string, visit: (selectors: string, body: string, media: string) => void): void {
+    let i = 0;
+    while (i < css.length) {
+        const open = css.indexOf('{', i);
+        if (open < 0) return;
+
+        // Prelude: text since the previous statement or block
+        const prelude = css.slice(i, open).split(/[;}]/).pop()!.trim();
+        let depth = 1;
+        let close = open + 1;
+        for (; close < css.length && depth > 0; close++) {
+            if (css[close] === '{') depth++;
+            else if (css[close] === '}') depth--;
+        }
+        const body = css.slice(open + 1, close - 1);
+
+        if (prelude.startsWith('@media')) {
+            walkRules(body, prelude, visit);
+        } else if (/^@(layer|supports|container)\b/.test(prelude)) {
+            walkRules(body, media, visit);
+        } else if (!prelude.startsWith('@')) {
+            visit(prelude, body, media);
+        }
+        i = close;
+    }
+}
+
+/** Mode name for one selector, or null when it doesn't define a theme. */
+function modeForSelector(selector: string, media: string): string | null {
+    // `:root:not(.dark)` is the light theme, not the dark one
+    const plain = selector.replace(/:not\([^)]*\)/g, '');
+
+    const attribute = plain.match(THEME_ATTRIBUTE);
+    const themeClass = plain.match(THEME_CLASS);
+    const schemeClass = plain.match(SCHEME_CLASS);
+    let theme = attribute ? attribute[1] : themeClass ? themeClass[1] : null;
+    let scheme = schemeClass ? schemeClass[1] : null;
+
+    if (theme === 'light' || theme === 'dark') {
+        scheme = theme;
+        theme = null;
+    }
+    if (!scheme && /prefers-color-scheme:\s*dark/.test(media)) scheme = 'dark';
+
+    if (!theme && !scheme && !BASE_SELECTOR.test(plain)) return null;
+
+    if (!theme) return scheme === 'dark' ? 'Dark' : 'Light';
+    const name = theme.split('-').map(function (w) { return w.charAt(0).toUpperCase() + w.slice(1); }).join(' ');
+    return scheme === 'dark' ? name + ' Dark' : name;
+}
+
+// ─── Token Categorization ────────────────────────────────────────────────────
+
+/** Create a token set with every category empty. */
+export function createEmptyTokenSet(): ParsedTokenSet {
+    return {
         colors: [],
         spacing: [],
         radius: [],
@@ -165,7 +384,17 @@ export function categorizeTokens(vars: CSSVariable[]): ParsedTokenSet {
         borderWidth: [],
         maxWidth: [],
         skew: [],
+        easing: [],
     };
+}
+
+/**
+ * Categorize raw CSS variables into typed token groups (colors, spacing, etc.).
+ * Used primarily for the Tailwind adapter.
+ */
+export function categorizeTokens(vars: CSSVariable[]): ParsedTokenSet {
+    const result = createEmptyTokenSet();
+    const namedSpacing: ParsedFloat[] = [];
 
     for (const v of vars) {
         const name = v.name.replace(/^--/, '');
@@ -189,6 +418,15 @@ export function categorizeTokens(vars: CSSVariable[]): ParsedTokenSet {
             continue;
         }
 
+        // ── Named Spacing (e.g. --spacing-18 from project overrides) ──
+        if (name.startsWith('spacing-')) {
+            const dim = parseDimension(v.rawValue);
+            if (dim !== null) {
+                namedSpacing.push({ path: [name.replace('spacing-', '').replace(/\./g, '_')], value: dim, rawValue: v.rawValue });
+            }
+            continue;
+        }
+
         // ── Breakpoints ──
         if (name.startsWith('breakpoint-')) {
             const bpName = name.replace('breakpoint-', '');
@@ -337,7 +575,7 @@ export function categorizeTokens(vars: CSSVariable[]): ParsedTokenSet {
             if (dim !== null) {
                 // Look for corresponding line-height
                 const lhVar = vars.find(function (lv) { return lv.name === '--' + name + '--line-height'; });
-                var lineHeight: number | undefined;
+                let lineHeight: number | undefined;
                 if (lhVar) {
                     // Line heights are often ratios like "calc(1.25 / 0.875)"
                     lineHeight = evaluateCalc(lhVar.rawValue);
@@ -345,7 +583,7 @@ export function categorizeTokens(vars: CSSVariable[]): ParsedTokenSet {
 
                 // Look for corresponding letter-spacing
                 const lsVar = vars.find(function (lv) { return lv.name === '--' + name + '--letter-spacing'; });
-                var letterSpacing: number | undefined;
+                let letterSpacing: number | undefined;
                 if (lsVar) {
                     const val = parseDimension(lsVar.rawValue);
                     if (val !== null) letterSpacing = val;
@@ -353,7 +591,7 @@ export function categorizeTokens(vars: CSSVariable[]): ParsedTokenSet {
 
                 // Look for corresponding font-weight
                 const fwVar = vars.find(function (lv) { return lv.name === '--' + name + '--font-weight'; });
-                var fontWeight: number | undefined;
+                let fontWeight: number | undefined;
                 if (fwVar) {
                     const val = parseFloat(fwVar.rawValue);
                     if (!isNaN(val)) fontWeight = val;
@@ -400,6 +638,20 @@ export function categorizeTokens(vars: CSSVariable[]): ParsedTokenSet {
             continue;
         }
 
+        // ── Easing (cubic-bezier only; steps() and linear() have no curve) ──
+        if (name.startsWith('ease-')) {
+            const curve = v.rawValue.match(/^cubic-bezier\(\s*([^)]+)\)$/);
+            const nums = curve ? curve[1].split(',').map(function (n) { return parseFloat(n); }) : [];
+            if (nums.length === 4 && nums.every(function (n) { return !isNaN(n); })) {
+                result.easing.push({
+                    path: [name.replace('ease-', '')],
+                    value: nums as [number, number, number, number],
+                    rawValue: 'cubic-bezier(' + nums.join(', ') + ')',
+                });
+            }
+            continue;
+        }
+
         // ── Skew ──
         if (name.startsWith('skew-')) {
             const parts = name.replace('skew-', '').split('-');
@@ -416,6 +668,10 @@ export function categorizeTokens(vars: CSSVariable[]): ParsedTokenSet {
         const base = result.spacing[0].value;
         result.spacing = generateSpacingScale(base);
     }
+    for (const sp of namedSpacing) {
+        result.spacing = result.spacing.filter(function (s) { return s.path[0] !== sp.path[0]; });
+        result.spacing.push(sp);
+    }
 
     return result;
 }
@@ -439,8 +695,8 @@ export function parseShadowValue(value: string): ShadowLayer[] {
         var shadow = trimmed.replace(/^inset\s+/, '');
 
         // Match: x y blur spread? color
-        // Color can be rgb(...) or oklch(...) or hsl(...)
-        var colorMatch = shadow.match(/((?:rgb|oklch|hsl)a?\([^)]+\))/);
+        // Color can be rgb(...) or oklch(...) or hsl(...) or #hex
+        var colorMatch = shadow.match(/((?:rgb|oklch|hsl)a?\([^)]+\)|#[0-9a-fA-F]{3,8}\b)/);
         var colorStr = colorMatch ? colorMatch[1] : 'rgb(0 0 0 / 0.1)';
         var withoutColor = shadow.replace(colorStr, '').trim();
 
@@ -511,10 +767,12 @@ function generateSpacingScale(basePx: number): ParsedFloat[] {
     return steps.map(function (step) {
         // Replace dots with underscores in variable name to avoid Figma "invalid variable name" error
         var safeName = String(step).replace(/\./g, '_');
+        // Round away float noise from custom bases like 0.2rem
+        var px = Math.round(step * basePx * 1000) / 1000;
         return {
             path: [safeName],
-            value: step * basePx,
-            rawValue: step * basePx + 'px',
+            value: px,
+            rawValue: px + 'px',
         };
     });
 }
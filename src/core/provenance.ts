@@ -0,0 +1,59 @@
+// ─── Provenance ──────────────────────────────────────────────────────────────
+// Every variable, text style and effect style an import writes is stamped
+// with shared plugin data saying where it came from: the adapter, the URL
+// (with tag or commit) its tokens were fetched from, the raw token value and
+// when it was imported. Other plugins read it under the `styleforge`
+// namespace; the import plan uses it to tell StyleForge's variables and
+// styles apart from ones the user made.
+
+/** Shared plugin data namespace holding the provenance keys. */
+export const PROVENANCE_NAMESPACE = 'styleforge';
+
+export interface Provenance {
+    /** Adapter that produced the token, e.g. `tailwindcss` */
+    adapterId: string;
+    /** URL the tokens were fetched from, or the adapter's repo for bundled data */
+    sourceUrl: string;
+    /**
+     * Token value as written in the source, e.g. `oklch(63.7% 0.237 25.331)`.
+     * Theme variables hold a JSON object of the raw value per mode.
+     */
+    rawValue: string;
+    /** ISO 8601 time of the import */
+    importedAt: string;
+}
+
+/** Provenance shared by everything one import job writes. */
+export type ImportOrigin = Omit<Provenance, 'rawValue'>;
+
+type Stampable = Variable | BaseStyle;
+
+const KEYS: (keyof Provenance)[] = ['adapterId', 'sourceUrl', 'rawValue', 'importedAt'];
+
+// ─── Read & Write ────────────────────────────────────────────────────────────
+
+export function stampProvenance(target: Stampable, origin: ImportOrigin, rawValue: string): void {
+    const provenance: Provenance = { ...origin, rawValue };
+    for (const key of KEYS) {
+        target.setSharedPluginData(PROVENANCE_NAMESPACE, key, provenance[key]);
+    }
+}
+
+/** Remove the stamp, e.g. when rolling back to before StyleForge wrote it. */
+export function clearProvenance(target: Stampable): void {
+    for (const key of KEYS) {
+        target.setSharedPluginData(PROVENANCE_NAMESPACE, key, '');
+    }
+}
+
+/** Provenance of a variable or style, or null when StyleForge didn't write it. */
+export function readProvenance(target: Stampable): Provenance | null {
+    const adapterId = target.getSharedPluginData(PROVENANCE_NAMESPACE, 'adapterId');
+    if (!adapterId) return null;
+    return {
+        adapterId,
+        sourceUrl: target.getSharedPluginData(PROVENANCE_NAMESPACE, 'sourceUrl'),
+        rawValue: target.getSharedPluginData(PROVENANCE_NAMESPACE, 'rawValue'),
+        importedAt: target.getSharedPluginData(PROVENANCE_NAMESPACE, 'importedAt'),
+    };
+}
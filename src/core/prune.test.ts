@@ -0,0 +1,95 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DEPRECATED_GROUP, findUsages, pruneManaged } from './prune';
+
+const alias = (id: string) => ({ type: 'VARIABLE_ALIAS', id });
+
+const layer = (name: string, props: Record<string, unknown>) => ({ name, ...props });
+
+/** A document with one page of layers and one local style of each kind. */
+function stubDocument(layers: Record<string, unknown>[]) {
+    vi.stubGlobal('figma', {
+        getLocalPaintStylesAsync: async () => [
+            { type: 'PAINT', name: 'fill/brand', boundVariables: {}, paints: [{ type: 'SOLID', boundVariables: { color: alias('v-brand') } }] },
+        ],
+        getLocalTextStylesAsync: async () => [
+            { type: 'TEXT', name: 'text-sm', boundVariables: { fontSize: alias('v-size') } },
+        ],
+        getLocalEffectStylesAsync: async () => [
+            { type: 'EFFECT', name: 'drop-shadow/sm', boundVariables: {}, effects: [{ type: 'DROP_SHADOW', boundVariables: { radius: alias('v-blur') } }] },
+        ],
+        getLocalGridStylesAsync: async () => [
+            { type: 'GRID', name: 'max-width/md', boundVariables: {}, layoutGrids: [{ pattern: 'COLUMNS', boundVariables: { sectionSize: alias('v-size') } }] },
+        ],
+        loadAllPagesAsync: async () => undefined,
+        root: {
+            children: [{
+                findAll: (visit: (node: unknown) => boolean) => layers.filter(visit),
+            }],
+        },
+    });
+}
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe('findUsages', () => {
+    it('counts the layers bound to a variable or using a style', async () => {
+        stubDocument([
+            layer('Card', { boundVariables: { fills: [alias('v-brand')], itemSpacing: alias('v-gap') }, effectStyleId: 's-shadow' }),
+            layer('Button', { boundVariables: { fills: [alias('v-brand')] } }),
+            layer('Label', { boundVariables: {}, textStyleId: 's-text' }),
+        ]);
+        const usages = await findUsages(['v-brand', 's-shadow', 'v-unused']);
+
+        expect(usages.get('v-brand')).toEqual({ count: 2, layers: ['Card', 'Button'], styles: ['fill/brand'] });
+        expect(usages.get('s-shadow')).toEqual({ count: 1, layers: ['Card'], styles: [] });
+        expect(usages.has('v-gap')).toBe(false);
+        expect(usages.has('v-unused')).toBe(false);
+    });
+
+    it('counts styles bound to a variable, through their paints, effects and grids', async () => {
+        stubDocument([]);
+        const usages = await findUsages(['v-size', 'v-blur']);
+
+        expect(usages.get('v-size')).toEqual({ count: 0, layers: [], styles: ['text-sm', 'max-width/md'] });
+        expect(usages.get('v-blur')).toEqual({ count: 0, layers: [], styles: ['drop-shadow/sm'] });
+    });
+
+    it('lists only the first few layers', async () => {
+        stubDocument(Array.from({ length: 8 }, (_, i) => layer('Layer ' + i, { boundVariables: { opacity: alias('v-opacity') } })));
+        const usage = (await findUsages(['v-opacity'])).get('v-opacity');
+
+        expect(usage?.count).toBe(8);
+        expect(usage?.layers).toHaveLength(5);
+    });
+});
+
+describe('pruneManaged', () => {
+    const stubTargets = () => {
+        const variable = { name: 'spacing/old', remove: vi.fn() };
+        const style = { name: DEPRECATED_GROUP + 'text-old', remove: vi.fn() };
+        vi.stubGlobal('figma', {
+            variables: { getVariableByIdAsync: async (id: string) => (id === 'v1' ? variable : null) },
+            getStyleByIdAsync: async (id: string) => (id === 's1' ? style : null),
+        });
+        return { variable, style };
+    };
+
+    it('moves orphans into the deprecated group once', async () => {
+        const { variable, style } = stubTargets();
+
+        expect(await pruneManaged(['v1', 's1', 'gone'], 'deprecate')).toBe(2);
+        expect(variable.name).toBe('deprecated/spacing/old');
+        expect(style.name).toBe('deprecated/text-old');
+        expect(variable.remove).not.toHaveBeenCalled();
+    });
+
+    it('deletes orphans', async () => {
+        const { variable, style } = stubTargets();
+
+        expect(await pruneManaged(['v1', 's1'], 'delete')).toBe(2);
+        expect(variable.remove).toHaveBeenCalled();
+        expect(style.remove).toHaveBeenCalled();
+    });
+});
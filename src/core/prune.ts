@@ -0,0 +1,132 @@
+// ─── Prune ───────────────────────────────────────────────────────────────────
+// Cleans up variables and styles StyleForge manages that the latest source no
+// longer has (the import plan's orphans). They can be deleted, or moved into
+// a `deprecated/` group so layers that still use them keep working.
+
+export type PruneMode = 'delete' | 'deprecate';
+
+/** Group that deprecated variables and styles are moved into. */
+export const DEPRECATED_GROUP = 'deprecated/';
+
+/** Usages listed per variable or style; the rest are only counted. */
+const MAX_USAGES = 5;
+
+export interface Usage {
+    /** Layers that use it */
+    count: number;
+    /** Names of the first few layers */
+    layers: string[];
+    /** Local styles with a property bound to it */
+    styles: string[];
+}
+
+// ─── Usages ──────────────────────────────────────────────────────────────────
+
+/**
+ * Find the layers in the document that use any of the given variables or
+ * styles, and the local styles bound to any of the variables, keyed by
+ * variable or style ID.
+ */
+export async function findUsages(ids: string[]): Promise<Map<string, Usage>> {
+    const usages = new Map<string, Usage>();
+    if (ids.length === 0) return usages;
+
+    const wanted = new Set(ids);
+    const usageOf = function (id: string): Usage {
+        const usage = usages.get(id) || { count: 0, layers: [], styles: [] };
+        usages.set(id, usage);
+        return usage;
+    };
+    const record = function (id: string, node: SceneNode) {
+        if (!wanted.has(id)) return;
+        const usage = usageOf(id);
+        usage.count++;
+        if (usage.layers.length < MAX_USAGES) usage.layers.push(node.name);
+    };
+
+    const styles: BaseStyle[] = [
+        ...await figma.getLocalPaintStylesAsync(),
+        ...await figma.getLocalTextStylesAsync(),
+        ...await figma.getLocalEffectStylesAsync(),
+        ...await figma.getLocalGridStylesAsync(),
+    ];
+    for (const style of styles) {
+        for (const id of styleBoundIds(style)) {
+            if (!wanted.has(id)) continue;
+            const usage = usageOf(id);
+            if (usage.styles.indexOf(style.name) < 0) usage.styles.push(style.name);
+        }
+    }
+
+    await figma.loadAllPagesAsync();
+    for (const page of figma.root.children) {
+        page.findAll(function (node) {
+            for (const id of boundIds(node)) record(id, node);
+            return false;
+        });
+    }
+    return usages;
+}
+
+/** Variable and style IDs a layer references. */
+function boundIds(node: SceneNode): string[] {
+    const ids: string[] = 'boundVariables' in node ? aliasIds(node.boundVariables) : [];
+
+    for (const key of ['fillStyleId', 'strokeStyleId', 'effectStyleId', 'textStyleId', 'gridStyleId']) {
+        const styleId = (node as unknown as Record<string, unknown>)[key];
+        if (typeof styleId === 'string' && styleId) ids.push(styleId);
+    }
+    return ids;
+}
+
+/**
+ * Variable IDs a style's properties are bound to, including the variables
+ * bound to its individual paints, effects and layout grids.
+ */
+function styleBoundIds(style: BaseStyle): string[] {
+    const ids = aliasIds(style.boundVariables);
+    const layers: ReadonlyArray<Paint | Effect | LayoutGrid> = style.type === 'PAINT' ? style.paints
+        : style.type === 'EFFECT' ? style.effects
+        : style.type === 'GRID' ? style.layoutGrids
+        : [];
+    for (const layer of layers) {
+        if ('boundVariables' in layer) ids.push(...aliasIds(layer.boundVariables));
+    }
+    return ids;
+}
+
+/** IDs of the variable aliases in a `boundVariables` record. */
+function aliasIds(bindings: object | undefined): string[] {
+    const ids: string[] = [];
+    if (!bindings) return ids;
+    for (const binding of Object.values(bindings)) {
+        const aliases = Array.isArray(binding) ? binding : [binding];
+        for (const alias of aliases) {
+            if (alias && typeof alias === 'object' && 'id' in alias && typeof alias.id === 'string') ids.push(alias.id);
+        }
+    }
+    return ids;
+}
+
+// ─── Prune ───────────────────────────────────────────────────────────────────
+
+/**
+ * Delete the given variables and styles, or move them under `deprecated/`.
+ * Resolves with how many were pruned; IDs that no longer exist are skipped.
+ */
+export async function pruneManaged(ids: string[], mode: PruneMode): Promise<number> {
+    let pruned = 0;
+    for (const id of ids) {
+        const target: Variable | BaseStyle | null =
+            await figma.variables.getVariableByIdAsync(id) || await figma.getStyleByIdAsync(id);
+        if (!target) continue;
+
+        if (mode === 'delete') {
+            target.remove();
+        } else if (target.name.indexOf(DEPRECATED_GROUP) !== 0) {
+            target.name = DEPRECATED_GROUP + target.name;
+        }
+        pruned++;
+    }
+    return pruned;
+}
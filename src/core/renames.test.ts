@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { parseRenameMap } from './renames';
+
+describe('parseRenameMap', () => {
+    it('accepts every arrow style', () => {
+        expect(parseRenameMap('colors/brand → colors/primary\nspacing/px->spacing/hairline\n  radius/lg  =>  radius/large  ')).toEqual({
+            'colors/brand': 'colors/primary',
+            'spacing/px': 'spacing/hairline',
+            'radius/lg': 'radius/large',
+        });
+    });
+
+    it('ignores blank lines, comments and lines without exactly one arrow', () => {
+        expect(parseRenameMap([
+            '# renamed in v4',
+            '',
+            'colors/brand',
+            'colors/a -> colors/b -> colors/c',
+            '-> colors/primary',
+            'colors/brand ->',
+            'shadow/sm -> drop-shadow/sm',
+        ].join('\n'))).toEqual({ 'shadow/sm': 'drop-shadow/sm' });
+    });
+});
@@ -0,0 +1,50 @@
+// ─── Renames ─────────────────────────────────────────────────────────────────
+// A token renamed upstream, or by a change to StyleForge's naming, would
+// otherwise be imported as a new variable while every layer stays bound to
+// the old one. Renames come from a map of old → new names the user supplies,
+// or the import plan detects them from identical values and provenance.
+// Applying one renames the existing variable in place, so its ID and every
+// binding survive.
+
+/** Old variable name → new variable name. */
+export type RenameMap = Record<string, string>;
+
+export interface VariableRename {
+    /** ID of the existing variable */
+    id: string;
+    collection: string;
+    from: string;
+    to: string;
+    /** Matched by value and provenance rather than from the rename map */
+    detected: boolean;
+}
+
+/** Separates old and new names on a line of the rename map. */
+const ARROW = /\s*(?:→|->|=>)\s*/;
+
+/**
+ * Parse one rename per line, `colors/brand -> colors/primary`. Blank lines,
+ * `#` comments and lines without an arrow are ignored.
+ */
+export function parseRenameMap(text: string): RenameMap {
+    const map: RenameMap = {};
+    for (const line of text.split('\n')) {
+        const trimmed = line.trim();
+        if (!trimmed || trimmed.charAt(0) === '#') continue;
+        const parts = trimmed.split(ARROW);
+        if (parts.length === 2 && parts[0] && parts[1]) map[parts[0]] = parts[1];
+    }
+    return map;
+}
+
+/** Rename variables in place. Resolves with how many were renamed. */
+export async function applyRenames(renames: VariableRename[]): Promise<number> {
+    let renamed = 0;
+    for (const rename of renames) {
+        const variable = await figma.variables.getVariableByIdAsync(rename.id);
+        if (!variable || variable.name === rename.to) continue;
+        variable.name = rename.to;
+        renamed++;
+    }
+    return renamed;
+}
@@ -0,0 +1,59 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { extractScssVariables, parseScssTokens } from './scssParser';
+
+const scss = readFileSync(new URL('./__fixtures__/bootstrap-variables.scss', import.meta.url), 'utf8');
+
+describe('extractScssVariables', () => {
+    const variables = new Map(extractScssVariables(scss).map((v) => [v.name, v]));
+
+    it('only assigns !default variables that are still undefined', () => {
+        expect(variables.get('primary')?.rawValue).toBe('#6f42c1');
+    });
+
+    it('evaluates arithmetic on earlier variables', () => {
+        expect(variables.get('border-radius-lg')?.value).toMatchObject({ kind: 'number', value: 0.75, unit: 'rem' });
+    });
+
+    it('skips declarations that reference undefined variables', () => {
+        expect(variables.has('unknown')).toBe(false);
+    });
+});
+
+describe('parseScssTokens', () => {
+    const parsed = parseScssTokens(scss);
+    const color = (name: string) => parsed.colors.find((c) => c.path.join('-') === name);
+
+    it('computes Bootstrap color functions', () => {
+        expect(color('secondary')?.rawValue).toBe('#3d8bfd');
+        expect(color('dark')?.rawValue).toBe('#1e2125');
+        expect(color('gray-900')?.rawValue).toBe('#212529');
+    });
+
+    it('expands maps into scales and aliases plain references', () => {
+        expect(parsed.spacing).toEqual([
+            { path: ['default'], value: 16, rawValue: '1rem' },
+            { path: ['0'], value: 0, rawValue: '0' },
+            { path: ['1'], value: 4, rawValue: '0.25rem' },
+            { path: ['2'], value: 8, rawValue: '0.5rem' },
+            { path: ['3'], value: 16, rawValue: '1rem', alias: { category: 'spacing', path: ['default'] } },
+        ]);
+        expect(parsed.breakpoints.map((b) => [b.path[0], b.value])).toEqual([['sm', 576], ['md', 768]]);
+    });
+
+    it('categorizes by name and converts rem', () => {
+        expect(parsed.radius.map((r) => [r.path[0], r.value])).toEqual([['default', 6], ['lg', 12]]);
+    });
+
+    it('reads box shadows with rgba() of a variable', () => {
+        expect(parsed.shadows).toHaveLength(1);
+        expect(parsed.shadows[0].shadows[0]).toMatchObject({ x: 0, y: 8, blur: 16, spread: 0 });
+        expect(parsed.shadows[0].shadows[0].color.a).toBeCloseTo(0.15);
+    });
+
+    it('filters variables with include', () => {
+        const colorsOnly = parseScssTokens(scss, { include: (name) => name === 'blue' });
+        expect(colorsOnly.colors.map((c) => c.path.join('-'))).toEqual(['blue']);
+        expect(colorsOnly.spacing).toEqual([]);
+    });
+});
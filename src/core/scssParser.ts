@@ -0,0 +1,554 @@
+// ─── SCSS / Sass Variable Parser ─────────────────────────────────────────────
+// Reads top-level `$name: value;` declarations and `( key: value )` maps from
+// SCSS sources, evaluating them the way Sass would: `!default` only assigns
+// undefined variables, references resolve to earlier declarations, and the
+// arithmetic and color functions Bootstrap relies on are computed.
+
+import { parseColorValue, parseDimension, type FigmaColor } from './colorUtils';
+import { evaluateExpression } from './mathUtils';
+import {
+    createEmptyTokenSet,
+    parseShadowValue,
+    type ParsedTokenSet,
+    type TokenReference,
+} from './parser';
+import type { TokenCategory } from '../adapters/types';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type SassValue = (
+    | { kind: 'number'; value: number; unit: string }
+    | { kind: 'color'; color: FigmaColor }
+    | { kind: 'string'; value: string }
+    | { kind: 'map'; entries: Map<string, SassValue> }
+    | { kind: 'null' }
+) & {
+    /** Variable the value was copied from, when the expression was `$name` */
+    reference?: string;
+};
+
+export interface ScssVariable {
+    name: string;        // without `$`, e.g. "gray-100"
+    rawValue: string;    // e.g. "tint-color($blue, 80%)"
+    value: SassValue;
+}
+
+export interface ScssTokenOptions {
+    /** Only variables (and maps) for which this returns true become tokens */
+    include?: (name: string) => boolean;
+}
+
+const NULL: SassValue = { kind: 'null' };
+
+// ─── Variable Extraction ─────────────────────────────────────────────────────
+
+/**
+ * Extract and evaluate every top-level variable declaration in order.
+ * Declarations that reference undefined variables are skipped, so overrides
+ * written for use after an `@import` can be re-applied in a later pass.
+ * Returns the final value of each variable, in first-declaration order.
+ */
+export function extractScssVariables(scss: string): ScssVariable[] {
+    const scope = new Map<string, ScssVariable>();
+
+    for (const statement of splitStatements(scss)) {
+        const decl = statement.match(/^\$([\w-]+)\s*:\s*([\s\S]*)$/);
+        if (!decl) continue;
+
+        const name = decl[1];
+        let rawValue = decl[2].trim();
+        const isDefault = /!default\b/.test(rawValue);
+        rawValue = rawValue.replace(/\s*!(default|global)\b/g, '').trim();
+
+        const existing = scope.get(name);
+        if (isDefault && existing && existing.value.kind !== 'null') continue;
+
+        let value: SassValue;
+        try {
+            value = evaluate(rawValue, scope);
+        } catch (error) {
+            continue;
+        }
+        scope.set(name, { name, rawValue, value });
+    }
+
+    return Array.from(scope.values());
+}
+
+/**
+ * Split SCSS into top-level statements, dropping comments and the bodies of
+ * rule, mixin and function blocks.
+ */
+function splitStatements(scss: string): string[] {
+    const statements: string[] = [];
+    let current = '';
+    let parens = 0;
+    let braces = 0;
+    let interpolation = 0;
+    let quote: string | null = null;
+
+    for (let i = 0; i < scss.length; i++) {
+        const ch = scss[i];
+        const keep = braces === 0;
+
+        if (quote) {
+            if (keep) current += ch;
+            if (ch === '\\') {
+                if (keep) current += scss[i + 1] || '';
+                i++;
+            } else if (ch === quote) {
+                quote = null;
+            }
+            continue;
+        }
+
+        if (ch === '/' && scss[i + 1] === '/') {
+            while (i < scss.length && scss[i] !== '\n') i++;
+            continue;
+        }
+        if (ch === '/' && scss[i + 1] === '*') {
+            const end = scss.indexOf('*/', i + 2);
+            i = end < 0 ? scss.length : end + 1;
+            continue;
+        }
+        if (ch === '"' || ch === "'") quote = ch;
+
+        if (ch === '#' && scss[i + 1] === '{') {
+            interpolation++;
+            if (keep) current += '#{';
+            i++;
+            continue;
+        } else if (ch === '}' && interpolation > 0) {
+            interpolation--;
+        } else if (ch === '{') {
+            if (braces === 0) current = '';
+            braces++;
+            continue;
+        } else if (ch === '}') {
+            braces = Math.max(0, braces - 1);
+            continue;
+        } else if (keep) {
+            if (ch === '(') parens++;
+            else if (ch === ')') parens = Math.max(0, parens - 1);
+            else if (ch === ';' && parens === 0) {
+                statements.push(current.trim());
+                current = '';
+                continue;
+            }
+        }
+
+        if (keep) current += ch;
+    }
+
+    if (current.trim()) statements.push(current.trim());
+    return statements;
+}
+
+// ─── Expression Evaluation ───────────────────────────────────────────────────
+
+/** Functions whose result replaces the call inside a larger expression. */
+const FUNCTIONS: Record<string, (args: SassValue[]) => SassValue | null> = {
+    'tint-color': function (args) {
+        return mixColors(WHITE, args[0], percentArg(args[1]));
+    },
+    'shade-color': function (args) {
+        return mixColors(BLACK, args[0], percentArg(args[1]));
+    },
+    'shift-color': function (args) {
+        const weight = percentArg(args[1]);
+        return weight > 0 ? mixColors(BLACK, args[0], weight) : mixColors(WHITE, args[0], -weight);
+    },
+    'mix': function (args) {
+        return mixColors(args[0], args[1], args.length > 2 ? percentArg(args[2]) : 0.5);
+    },
+    'rgba': function (args) {
+        // Sass form: rgba($color, $alpha). The CSS form is left untouched.
+        if (args.length !== 2 || args[0].kind !== 'color' || args[1].kind !== 'number') return null;
+        return { kind: 'color', color: { ...args[0].color, a: args[1].value } };
+    },
+    'add': function (args) { return arithmetic(args, function (a, b) { return a + b; }); },
+    'subtract': function (args) { return arithmetic(args, function (a, b) { return a - b; }); },
+    'divide': function (args) { return arithmetic(args, function (a, b) { return a / b; }); },
+    'math.div': function (args) { return arithmetic(args, function (a, b) { return a / b; }); },
+};
+
+const WHITE: SassValue = { kind: 'color', color: { r: 1, g: 1, b: 1, a: 1 } };
+const BLACK: SassValue = { kind: 'color', color: { r: 0, g: 0, b: 0, a: 1 } };
+
+/**
+ * Evaluate a Sass expression against the variables declared so far.
+ * Throws when it references an undefined variable.
+ */
+function evaluate(expression: string, scope: Map<string, ScssVariable>): SassValue {
+    const text = expression.trim();
+    if (text === '' || text === 'null') return NULL;
+
+    const bare = text.match(/^\$([\w-]+)$/);
+    if (bare) {
+        return { ...lookup(bare[1], scope), reference: bare[1] };
+    }
+
+    if (text[0] === '(' && closingParen(text, 0) === text.length - 1) {
+        const inner = text.slice(1, -1);
+        const parts = splitTopLevel(inner, ',').filter(function (part) { return part.trim() !== ''; });
+        if (parts.length > 0 && parts.every(function (part) { return topLevelIndex(part, ':') >= 0; })) {
+            const entries = new Map<string, SassValue>();
+            for (const part of parts) {
+                const colon = topLevelIndex(part, ':');
+                const key = part.slice(0, colon).trim().replace(/^["']|["']$/g, '');
+                entries.set(key, evaluate(part.slice(colon + 1), scope));
+            }
+            return { kind: 'map', entries };
+        }
+        if (parts.length === 1) return evaluate(inner, scope);
+    }
+
+    const call = text.match(/^(map-merge|map-get)\(/);
+    if (call && closingParen(text, call[0].length - 1) === text.length - 1) {
+        const args = splitTopLevel(text.slice(call[0].length, -1), ',').map(function (arg) {
+            return evaluate(arg, scope);
+        });
+        return call[1] === 'map-merge' ? mapMerge(args) : mapGet(args);
+    }
+
+    return toValue(substitute(text, scope));
+}
+
+function lookup(name: string, scope: Map<string, ScssVariable>): SassValue {
+    const variable = scope.get(name);
+    if (!variable) throw new Error('Undefined variable $' + name);
+    return variable.value;
+}
+
+/**
+ * Replace interpolation, known function calls and variable references with
+ * their CSS text so the remainder can be read as a number, color or string.
+ */
+function substitute(text: string, scope: Map<string, ScssVariable>): string {
+    let result = '';
+    let i = 0;
+
+    while (i < text.length) {
+        if (text[i] === '#' && text[i + 1] === '{') {
+            const end = text.indexOf('}', i);
+            if (end < 0) break;
+            result += serialize(evaluate(text.slice(i + 2, end), scope)).replace(/^["']|["']$/g, '');
+            i = end + 1;
+            continue;
+        }
+
+        if (text[i] === '$') {
+            const name = text.slice(i + 1).match(/^[\w-]+/);
+            if (name) {
+                result += serialize(lookup(name[0], scope));
+                i += name[0].length + 1;
+                continue;
+            }
+        }
+
+        const call = text.slice(i).match(/^([\w.-]+)\(/);
+        if (call && (i === 0 || !/[\w-]/.test(text[i - 1]))) {
+            const open = i + call[1].length;
+            const close = closingParen(text, open);
+            const fn = FUNCTIONS[call[1]];
+            if (fn && close > 0) {
+                const args = splitTopLevel(text.slice(open + 1, close), ',').map(function (arg) {
+                    return evaluate(arg, scope);
+                });
+                const value = fn(args);
+                if (value) {
+                    result += serialize(value);
+                    i = close + 1;
+                    continue;
+                }
+            }
+            // Unknown or CSS function: keep the name and substitute inside
+            result += call[0];
+            i += call[0].length;
+            continue;
+        }
+
+        result += text[i];
+        i++;
+    }
+
+    return result.trim();
+}
+
+/** Read substituted CSS text as a number, color or plain string. */
+function toValue(text: string): SassValue {
+    const math = evaluateExpression(text);
+    if (math) return { kind: 'number', value: math.value, unit: math.unit };
+
+    const number = text.match(/^(-?\d*\.?\d+)([a-z%]*)$/i);
+    if (number) return { kind: 'number', value: parseFloat(number[1]), unit: number[2].toLowerCase() };
+
+    if (/^(#[0-9a-f]{3,8}|(rgba?|hsla?|oklch)\([^()]*\)|black|white|transparent)$/i.test(text)) {
+        const color = parseColorValue(text);
+        if (color) return { kind: 'color', color };
+    }
+
+    return { kind: 'string', value: text };
+}
+
+/** CSS text for a value, as it would appear in compiled output. */
+function serialize(value: SassValue): string {
+    switch (value.kind) {
+        case 'number': return formatNumber(value.value) + value.unit;
+        case 'color': return formatColor(value.color);
+        case 'string': return value.value;
+        case 'map': throw new Error('Maps cannot be used in expressions');
+        default: return '';
+    }
+}
+
+// ─── Sass Functions ──────────────────────────────────────────────────────────
+
+/** Sass `mix()`: `weight` is the share of the first color. */
+function mixColors(first: SassValue | undefined, second: SassValue | undefined, weight: number): SassValue | null {
+    if (!first || !second || first.kind !== 'color' || second.kind !== 'color') return null;
+    const c1 = first.color;
+    const c2 = second.color;
+
+    const w = weight * 2 - 1;
+    const a = c1.a - c2.a;
+    const w1 = ((w * a === -1 ? w : (w + a) / (1 + w * a)) + 1) / 2;
+    const w2 = 1 - w1;
+
+    // Sass rounds channels to whole 0-255 values
+    const channel = function (x: number, y: number) {
+        return Math.round((x * w1 + y * w2) * 255) / 255;
+    };
+    return {
+        kind: 'color',
+        color: {
+            r: channel(c1.r, c2.r),
+            g: channel(c1.g, c2.g),
+            b: channel(c1.b, c2.b),
+            a: c1.a * weight + c2.a * (1 - weight),
+        },
+    };
+}
+
+/** 80% → 0.8; plain numbers are already fractions. */
+function percentArg(value: SassValue | undefined): number {
+    if (!value || value.kind !== 'number') return 0.5;
+    return value.unit === '%' ? value.value / 100 : value.value;
+}
+
+function arithmetic(args: SassValue[], op: (a: number, b: number) => number): SassValue | null {
+    const [a, b] = args;
+    if (!a || !b || a.kind !== 'number' || b.kind !== 'number') return null;
+    return { kind: 'number', value: op(a.value, b.value), unit: a.unit || b.unit };
+}
+
+function mapMerge(args: SassValue[]): SassValue {
+    const entries = new Map<string, SassValue>();
+    for (const arg of args) {
+        if (arg.kind !== 'map') throw new Error('map-merge expects maps');
+        arg.entries.forEach(function (value, key) { entries.set(key, value); });
+    }
+    return { kind: 'map', entries };
+}
+
+function mapGet(args: SassValue[]): SassValue {
+    const [map, key] = args;
+    if (!map || map.kind !== 'map' || !key) throw new Error('map-get expects a map and a key');
+    return map.entries.get(serialize(key).replace(/^["']|["']$/g, '')) || NULL;
+}
+
+// ─── Token Categorization ────────────────────────────────────────────────────
+
+/**
+ * Name keywords that identify a category. The keyword is removed from the
+ * variable name to build the token path: `$border-radius-lg` → radius `lg`,
+ * `$h1-font-size` → typography `h1`.
+ */
+const NAME_RULES: { keyword: string; category: TokenCategory | 'fonts' }[] = [
+    { keyword: 'font-sizes', category: 'typography' },
+    { keyword: 'font-size', category: 'typography' },
+    { keyword: 'font-weights', category: 'fontWeights' },
+    { keyword: 'font-weight', category: 'fontWeights' },
+    { keyword: 'font-family', category: 'fonts' },
+    { keyword: 'line-heights', category: 'leading' },
+    { keyword: 'line-height', category: 'leading' },
+    { keyword: 'letter-spacing', category: 'tracking' },
+    { keyword: 'border-radius', category: 'radius' },
+    { keyword: 'border-width', category: 'borderWidth' },
+    { keyword: 'box-shadow', category: 'shadows' },
+    { keyword: 'spacers', category: 'spacing' },
+    { keyword: 'spacer', category: 'spacing' },
+    { keyword: 'grid-breakpoints', category: 'breakpoints' },
+    { keyword: 'breakpoints', category: 'breakpoints' },
+    { keyword: 'container-max-widths', category: 'containers' },
+    { keyword: 'opacity', category: 'opacity' },
+];
+
+/**
+ * Parse SCSS variables and maps into a token set. Variables whose value is
+ * exactly another emitted variable (`$primary: $blue`) become aliases.
+ */
+export function parseScssTokens(scss: string, options: ScssTokenOptions = {}): ParsedTokenSet {
+    const result = createEmptyTokenSet();
+    const destinations = new Map<string, TokenReference>();
+
+    for (const variable of extractScssVariables(scss)) {
+        if (options.include && !options.include(variable.name)) continue;
+
+        const rule = matchRule(variable.name);
+        const prefix = rule ? stripKeyword(variable.name, rule.keyword) : variable.name.split('-');
+
+        if (variable.value.kind === 'map') {
+            variable.value.entries.forEach(function (value, key) {
+                addToken(result, rule ? rule.category : null, prefix.concat(key.split('-')), value, destinations);
+            });
+        } else {
+            const path = prefix.length > 0 ? prefix : ['default'];
+            const ref = addToken(result, rule ? rule.category : null, path, variable.value, destinations);
+            if (ref) destinations.set(variable.name, ref);
+        }
+    }
+
+    return result;
+}
+
+function matchRule(name: string) {
+    return NAME_RULES.find(function (rule) {
+        return name === rule.keyword ||
+            name.startsWith(rule.keyword + '-') ||
+            name.endsWith('-' + rule.keyword) ||
+            name.indexOf('-' + rule.keyword + '-') >= 0;
+    });
+}
+
+function stripKeyword(name: string, keyword: string): string[] {
+    return name.replace(keyword, '').split('-').filter(Boolean);
+}
+
+/**
+ * Add one value to the token set under a category (colors when the name
+ * doesn't identify one). Returns where it was stored, for aliasing.
+ */
+function addToken(
+    result: ParsedTokenSet,
+    category: TokenCategory | 'fonts' | null,
+    path: string[],
+    value: SassValue,
+    destinations: Map<string, TokenReference>
+): TokenReference | null {
+    const safePath = path.map(function (segment) { return segment.replace(/\./g, '_'); });
+    const target = value.reference ? destinations.get(value.reference) : undefined;
+    const raw = value.kind === 'map' ? '' : serialize(value);
+
+    if (category === null) {
+        if (value.kind !== 'color') return null;
+        const alias = target && target.category === 'colors' ? target : undefined;
+        result.colors.push({ path: safePath, figmaColor: value.color, rawValue: raw, alias });
+        return { category: 'colors', path: safePath };
+    }
+
+    if (category === 'fonts') {
+        if (value.kind !== 'string') return null;
+        result.fonts.push({
+            name: safePath.join('-'),
+            family: value.value.split(',')[0].trim().replace(/['"]/g, ''),
+            rawValue: raw,
+        });
+        return null;
+    }
+
+    if (category === 'shadows') {
+        const layers = value.kind === 'string' ? parseShadowValue(value.value) : [];
+        if (layers.length === 0) return null;
+        const group = layers.every(function (l) { return l.type === 'INNER_SHADOW'; }) ? 'inset-shadow/' : 'drop-shadow/';
+        result.shadows.push({ name: group + safePath.join('-'), shadows: layers, rawValue: raw });
+        return null;
+    }
+
+    if (value.kind !== 'number') return null;
+
+    if (category === 'typography') {
+        const size = parseDimension(raw);
+        if (size === null) return null;
+        result.typography.push({ name: safePath.join('-'), fontSize: size, rawValue: raw });
+        return null;
+    }
+
+    // Weights, line heights and opacity are unitless; everything else is a length
+    const unitless = category === 'fontWeights' || category === 'leading' || category === 'opacity';
+    const number = unitless ? value.value : parseDimension(raw);
+    if (number === null || value.unit === '%') return null;
+
+    const alias = target && target.category === category ? target : undefined;
+    const list = result[category] as { path: string[]; value: number; rawValue: string; alias?: TokenReference }[];
+    list.push({ path: safePath, value: number, rawValue: raw, alias });
+    return { category, path: safePath };
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+/** Index of the parenthesis closing the one at `open`, or -1. */
+function closingParen(text: string, open: number): number {
+    let depth = 0;
+    let quote: string | null = null;
+    for (let i = open; i < text.length; i++) {
+        const ch = text[i];
+        if (quote) {
+            if (ch === quote) quote = null;
+            continue;
+        }
+        if (ch === '"' || ch === "'") quote = ch;
+        else if (ch === '(') depth++;
+        else if (ch === ')') {
+            depth--;
+            if (depth === 0) return i;
+        }
+    }
+    return -1;
+}
+
+/** Split on a separator that isn't nested in parentheses or quotes. */
+function splitTopLevel(text: string, separator: string): string[] {
+    const parts: string[] = [];
+    let start = 0;
+    let i = topLevelIndex(text, separator);
+    while (i >= 0) {
+        parts.push(text.slice(start, start + i));
+        start += i + 1;
+        i = topLevelIndex(text.slice(start), separator);
+    }
+    parts.push(text.slice(start));
+    return parts;
+}
+
+function topLevelIndex(text: string, char: string): number {
+    let depth = 0;
+    let quote: string | null = null;
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (quote) {
+            if (ch === quote) quote = null;
+            continue;
+        }
+        if (ch === '"' || ch === "'") quote = ch;
+        else if (ch === '(') depth++;
+        else if (ch === ')') depth--;
+        else if (ch === char && depth === 0) return i;
+    }
+    return -1;
+}
+
+function formatNumber(value: number): string {
+    return String(Math.round(value * 10000) / 10000);
+}
+
+/** Hex for opaque colors, rgba() otherwise. */
+function formatColor(color: FigmaColor): string {
+    const to255 = function (x: number) { return Math.round(x * 255); };
+    if (color.a >= 1) {
+        return '#' + [color.r, color.g, color.b].map(function (x) {
+            return to255(x).toString(16).padStart(2, '0');
+        }).join('');
+    }
+    return 'rgba(' + to255(color.r) + ', ' + to255(color.g) + ', ' + to255(color.b) + ', ' + formatNumber(color.a) + ')';
+}
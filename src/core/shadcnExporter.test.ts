@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { exportShadcnGlobals } from './shadcnExporter';
+import type { ExportCollection } from './variableReader';
+import theme from './__fixtures__/theme-collection.json';
+
+const collection = theme as ExportCollection;
+
+describe('exportShadcnGlobals', () => {
+    it('writes the first mode to :root and each other mode to a class block', () => {
+        const css = exportShadcnGlobals(collection, { themeInline: false });
+
+        expect(css).toContain([
+            ':root {',
+            '  --background: var(--color-white);',
+            '  --primary-foreground: oklch(100% 0 0);',
+            '  --radius: 0.625rem;',
+            '}',
+        ].join('\n'));
+        expect(css).toContain('.dark {');
+        expect(css).toContain('.high-contrast {');
+        expect(css).not.toContain('@theme inline');
+    });
+
+    it('writes aliases as Tailwind variables and raw colors as oklch', () => {
+        const css = exportShadcnGlobals(collection, { themeInline: false });
+
+        expect(css).toContain('  --primary-foreground: var(--color-red-500);');
+        expect(css).toContain('  --background: oklch(0% 0 0);');
+        expect(css).toContain('  --background: oklch(0% 0 0 / 50%);');
+    });
+
+    it('leaves out variables a mode has no value for', () => {
+        const css = exportShadcnGlobals(collection, { themeInline: false });
+        const highContrast = css.slice(css.indexOf('.high-contrast {'));
+
+        expect(highContrast).not.toContain('--primary-foreground');
+        expect(highContrast).toContain('  --radius: 0;');
+    });
+
+    it('maps colors and the radius scale in @theme inline', () => {
+        const css = exportShadcnGlobals(collection, { themeInline: true });
+
+        expect(css.slice(css.indexOf('@theme inline'))).toBe([
+            '@theme inline {',
+            '  --color-background: var(--background);',
+            '  --color-primary-foreground: var(--primary-foreground);',
+            '  --radius-sm: calc(var(--radius) - 4px);',
+            '  --radius-md: calc(var(--radius) - 2px);',
+            '  --radius-lg: var(--radius);',
+            '  --radius-xl: calc(var(--radius) + 4px);',
+            '}',
+            '',
+        ].join('\n'));
+    });
+});
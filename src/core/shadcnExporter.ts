@@ -0,0 +1,98 @@
+// ─── Shadcn Globals Exporter ─────────────────────────────────────────────────
+// Writes a theme collection from `importThemeTokens` as shadcn-style
+// globals.css: the first mode in `:root { }`, every other mode in a class
+// block named after it (`Dark` → `.dark { }`). Aliases to primitives stay
+// references, `var(--color-neutral-900)`; raw colors are written as oklch.
+
+import { formatOklch } from './colorUtils';
+import { themePropertyName } from './tailwindExporter';
+import type { ExportCollection, ExportValue, ExportVariable } from './variableReader';
+
+export interface ShadcnExportOptions {
+    /** Append the `@theme inline` block that exposes the variables to Tailwind */
+    themeInline: boolean;
+}
+
+const ROOT_FONT_SIZE = 16;
+
+/** shadcn's radius scale, derived from `--radius`. */
+const RADIUS_SCALE: [string, string][] = [
+    ['sm', 'calc(var(--radius) - 4px)'],
+    ['md', 'calc(var(--radius) - 2px)'],
+    ['lg', 'var(--radius)'],
+    ['xl', 'calc(var(--radius) + 4px)'],
+];
+
+// ─── Exporter ────────────────────────────────────────────────────────────────
+
+/** Export every mode of a theme collection as globals.css blocks. */
+export function exportShadcnGlobals(collection: ExportCollection, options: ShadcnExportOptions): string {
+    const blocks = collection.modes.map(function (mode, index) {
+        const lines: string[] = [];
+        for (const variable of collection.variables) {
+            const value = variable.values[mode];
+            const css = value ? formatThemeValue(variable, value, collection.name) : null;
+            if (css !== null) lines.push('  ' + propertyName(variable.name) + ': ' + css + ';');
+        }
+        return modeSelector(mode, index) + ' {\n' + lines.join('\n') + '\n}\n';
+    });
+
+    if (options.themeInline) blocks.push(themeInlineBlock(collection.variables));
+    return blocks.join('\n');
+}
+
+/** `:root` for the default mode, `.dark` / `.high-contrast` for the others. */
+function modeSelector(mode: string, index: number): string {
+    if (index === 0) return ':root';
+    return '.' + mode.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Map the theme variables onto Tailwind utilities: colors become
+ * `--color-*`, and `--radius` drives shadcn's radius scale.
+ */
+function themeInlineBlock(variables: ExportVariable[]): string {
+    const lines: string[] = [];
+    for (const variable of variables) {
+        const property = propertyName(variable.name);
+        if (variable.type === 'COLOR') {
+            lines.push('  --color-' + property.slice(2) + ': var(' + property + ');');
+        } else if (variable.name === 'radius') {
+            for (const [step, value] of RADIUS_SCALE) {
+                lines.push('  --radius-' + step + ': ' + value + ';');
+            }
+        }
+    }
+    return '@theme inline {\n' + lines.join('\n') + '\n}\n';
+}
+
+// ─── Values ──────────────────────────────────────────────────────────────────
+
+function formatThemeValue(variable: ExportVariable, value: ExportValue, collectionName: string): string | null {
+    if (value.kind === 'alias') {
+        // Aliases within the theme point at its own variables
+        if (value.collection === collectionName) return 'var(' + propertyName(value.name) + ')';
+        const property = themePropertyName(value.name);
+        if (property) return 'var(' + property + ')';
+        return value.resolved ? formatThemeValue(variable, value.resolved, collectionName) : null;
+    }
+
+    if (value.kind === 'color') return formatOklch(value.color);
+    if (value.kind === 'string') return value.value;
+    if (value.kind !== 'number') return null;
+
+    // Border widths stay in px, other lengths are rem like shadcn's --radius
+    if (value.value === 0) return '0';
+    return /border/.test(variable.name)
+        ? formatNumber(value.value) + 'px'
+        : formatNumber(value.value / ROOT_FONT_SIZE) + 'rem';
+}
+
+/** `primary-foreground` → `--primary-foreground`, `radius/box` → `--radius-box` */
+function propertyName(name: string): string {
+    return '--' + name.split('/').join('-');
+}
+
+function formatNumber(n: number): string {
+    return String(Math.round(n * 10000) / 10000);
+}
@@ -0,0 +1,476 @@
+// ─── Import Snapshot ─────────────────────────────────────────────────────────
+// Before an import writes anything, the collections it touches (modes, and
+// every variable's values per mode, alias targets and scopes) and the text,
+// effect and grid styles it writes or prunes are captured in document plugin
+// data. Rolling back restores them: values, names and bindings are put back,
+// and whatever that import created is removed. Only the last import is kept.
+// Variables and styles a delete-prune removed come back under new IDs, so
+// layers that used them stay detached; the rollback lists them.
+
+import { clearProvenance, readProvenance, stampProvenance, PROVENANCE_NAMESPACE, type Provenance } from './provenance';
+import { WRITTEN_VALUES_KEY } from './conflicts';
+import type { ProgressCallback } from './figmaSync';
+
+/** Document plugin data key; the JSON is split over numbered chunks. */
+const SNAPSHOT_KEY = 'importSnapshot';
+
+/**
+ * Plugin data entries are limited to 100 kB, key included, so long snapshots
+ * are chunked by their UTF-8 size with room to spare for the key.
+ */
+const CHUNK_BYTES = 90000;
+
+const TEXT_FIELDS: VariableBindableTextField[] = [
+    'fontFamily', 'fontSize', 'fontStyle', 'fontWeight', 'letterSpacing',
+    'lineHeight', 'paragraphSpacing', 'paragraphIndent',
+];
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+interface VariableSnapshot {
+    id: string;
+    name: string;
+    type: VariableResolvedDataType;
+    description: string;
+    scopes: VariableScope[];
+    hiddenFromPublishing: boolean;
+    /** Value per mode ID; aliases are stored as `VARIABLE_ALIAS` objects */
+    values: Record<string, VariableValue>;
+    provenance: Provenance | null;
+    /** Values StyleForge last wrote, as stored, so local edits are still recognised */
+    written: string;
+}
+
+interface CollectionSnapshot {
+    id: string;
+    name: string;
+    modes: { modeId: string; name: string }[];
+    variables: VariableSnapshot[];
+}
+
+interface StyleBase {
+    id: string;
+    name: string;
+    description: string;
+    provenance: Provenance | null;
+}
+
+interface TextStyleSnapshot extends StyleBase {
+    kind: 'text';
+    fontName: FontName;
+    fontSize: number;
+    lineHeight: LineHeight;
+    letterSpacing: LetterSpacing;
+    paragraphSpacing: number;
+    paragraphIndent: number;
+    textCase: TextCase;
+    textDecoration: TextDecoration;
+    /** Bound variable ID per text field */
+    boundVariables: Partial<Record<VariableBindableTextField, string>>;
+}
+
+interface EffectStyleSnapshot extends StyleBase {
+    kind: 'effect';
+    effects: Effect[];
+}
+
+interface GridStyleSnapshot extends StyleBase {
+    kind: 'grid';
+    layoutGrids: LayoutGrid[];
+}
+
+type StyleSnapshot = TextStyleSnapshot | EffectStyleSnapshot | GridStyleSnapshot;
+
+interface ImportSnapshot {
+    takenAt: string;
+    /** Provenance timestamp of the import, to recognise what it created */
+    importedAt: string;
+    collections: CollectionSnapshot[];
+    /** Collections the import was about to create */
+    newCollections: string[];
+    styles: StyleSnapshot[];
+}
+
+/** What the UI shows about the snapshot before rolling back. */
+export interface SnapshotSummary {
+    takenAt: string;
+    collections: string[];
+    variableCount: number;
+    styleCount: number;
+}
+
+export interface RollbackResult {
+    restored: number;
+    removed: number;
+    warnings: string[];
+}
+
+// ─── Taking ──────────────────────────────────────────────────────────────────
+
+/**
+ * Capture the named collections, and the local styles the import writes or
+ * prunes, before an import. `importedAt` is the provenance timestamp the
+ * import will stamp; `styleNames` are the styles its jobs write and
+ * `pruneIds` the orphans it prunes.
+ */
+export async function takeSnapshot(
+    collectionNames: string[],
+    importedAt: string,
+    styleNames: string[],
+    pruneIds: string[]
+): Promise<void> {
+    const snapshot: ImportSnapshot = {
+        takenAt: new Date().toISOString(),
+        importedAt,
+        collections: [],
+        newCollections: [],
+        styles: [],
+    };
+
+    const collections = await figma.variables.getLocalVariableCollectionsAsync();
+    for (const name of collectionNames) {
+        const collection = collections.find(function (c) { return c.name === name; });
+        if (!collection) {
+            if (snapshot.newCollections.indexOf(name) < 0) snapshot.newCollections.push(name);
+            continue;
+        }
+        if (snapshot.collections.some(function (c) { return c.id === collection.id; })) continue;
+        snapshot.collections.push(await snapshotCollection(collection));
+    }
+
+    // Other styles, e.g. a library's, are left out so the snapshot stays small
+    const names = new Set(styleNames);
+    const ids = new Set(pruneIds);
+    const touched = function (style: BaseStyle) { return names.has(style.name) || ids.has(style.id); };
+    for (const style of await figma.getLocalTextStylesAsync()) {
+        if (touched(style)) snapshot.styles.push(snapshotTextStyle(style));
+    }
+    for (const style of await figma.getLocalEffectStylesAsync()) {
+        if (touched(style)) snapshot.styles.push({ kind: 'effect', ...styleBase(style), effects: clone(style.effects.slice()) });
+    }
+    for (const style of await figma.getLocalGridStylesAsync()) {
+        if (touched(style)) snapshot.styles.push({ kind: 'grid', ...styleBase(style), layoutGrids: clone(style.layoutGrids.slice()) });
+    }
+
+    writeSnapshot(snapshot);
+}
+
+async function snapshotCollection(collection: VariableCollection): Promise<CollectionSnapshot> {
+    const variables: VariableSnapshot[] = [];
+    for (const id of collection.variableIds) {
+        const variable = await figma.variables.getVariableByIdAsync(id);
+        if (!variable) continue;
+        variables.push({
+            id: variable.id,
+            name: variable.name,
+            type: variable.resolvedType,
+            description: variable.description,
+            scopes: variable.scopes.slice(),
+            hiddenFromPublishing: variable.hiddenFromPublishing,
+            values: clone(variable.valuesByMode),
+            provenance: readProvenance(variable),
+            written: variable.getSharedPluginData(PROVENANCE_NAMESPACE, WRITTEN_VALUES_KEY),
+        });
+    }
+    return {
+        id: collection.id,
+        name: collection.name,
+        modes: collection.modes.map(function (mode) { return { modeId: mode.modeId, name: mode.name }; }),
+        variables,
+    };
+}
+
+function snapshotTextStyle(style: TextStyle): TextStyleSnapshot {
+    const boundVariables: Partial<Record<VariableBindableTextField, string>> = {};
+    const bound = style.boundVariables || {};
+    for (const field of TEXT_FIELDS) {
+        const alias = bound[field];
+        if (alias) boundVariables[field] = alias.id;
+    }
+    return {
+        kind: 'text',
+        ...styleBase(style),
+        fontName: clone(style.fontName),
+        fontSize: style.fontSize,
+        lineHeight: clone(style.lineHeight),
+        letterSpacing: clone(style.letterSpacing),
+        paragraphSpacing: style.paragraphSpacing,
+        paragraphIndent: style.paragraphIndent,
+        textCase: style.textCase,
+        textDecoration: style.textDecoration,
+        boundVariables,
+    };
+}
+
+function styleBase(style: BaseStyle): StyleBase {
+    return { id: style.id, name: style.name, description: style.description, provenance: readProvenance(style) };
+}
+
+// ─── Reading ─────────────────────────────────────────────────────────────────
+
+/** The last import's snapshot, or null when there is nothing to roll back. */
+export function summarizeSnapshot(): SnapshotSummary | null {
+    const snapshot = readSnapshot();
+    if (!snapshot) return null;
+    return {
+        takenAt: snapshot.takenAt,
+        collections: snapshot.collections.map(function (c) { return c.name; }).concat(snapshot.newCollections),
+        variableCount: snapshot.collections.reduce(function (sum, c) { return sum + c.variables.length; }, 0),
+        styleCount: snapshot.styles.length,
+    };
+}
+
+function readSnapshot(): ImportSnapshot | null {
+    const chunks = parseInt(figma.root.getPluginData(SNAPSHOT_KEY), 10) || 0;
+    if (chunks === 0) return null;
+    let json = '';
+    for (let i = 0; i < chunks; i++) json += figma.root.getPluginData(SNAPSHOT_KEY + ':' + i);
+    try {
+        return JSON.parse(json) as ImportSnapshot;
+    } catch (e) {
+        return null;
+    }
+}
+
+/** Store a snapshot in place of the last one; null clears it. */
+function writeSnapshot(snapshot: ImportSnapshot | null): void {
+    const previous = parseInt(figma.root.getPluginData(SNAPSHOT_KEY), 10) || 0;
+    for (let i = 0; i < previous; i++) figma.root.setPluginData(SNAPSHOT_KEY + ':' + i, '');
+
+    if (!snapshot) {
+        figma.root.setPluginData(SNAPSHOT_KEY, '');
+        return;
+    }
+    const chunks = chunkByBytes(JSON.stringify(snapshot), CHUNK_BYTES);
+    chunks.forEach(function (chunk, i) { figma.root.setPluginData(SNAPSHOT_KEY + ':' + i, chunk); });
+    figma.root.setPluginData(SNAPSHOT_KEY, String(chunks.length));
+}
+
+// ─── Rolling Back ────────────────────────────────────────────────────────────
+
+/**
+ * Restore the last snapshot and discard it. Variables and styles the import
+ * deleted come back under new IDs, so layers that used them stay detached;
+ * the result warns with their names.
+ *
+ * @throws Error when there is no snapshot.
+ */
+export async function rollBackImport(onProgress?: ProgressCallback): Promise<RollbackResult> {
+    const snapshot = readSnapshot();
+    if (!snapshot) throw new Error('There is no import to roll back.');
+
+    const result: RollbackResult = { restored: 0, removed: 0, warnings: [] };
+    const createdByImport = function (target: Variable | BaseStyle) {
+        const provenance = readProvenance(target);
+        return provenance !== null && provenance.importedAt === snapshot.importedAt;
+    };
+    const total = snapshot.collections.length + 1;
+
+    // Collections the import created
+    for (const collection of await figma.variables.getLocalVariableCollectionsAsync()) {
+        if (snapshot.newCollections.indexOf(collection.name) < 0) continue;
+        if (snapshot.collections.some(function (c) { return c.id === collection.id; })) continue;
+        result.removed += collection.variableIds.length;
+        collection.remove();
+    }
+
+    // Collections it changed; deleted variables are recreated first so
+    // aliases to them can be pointed at their new IDs
+    const ids = new Map<string, string>();
+    const recreated: string[] = [];
+    for (let i = 0; i < snapshot.collections.length; i++) {
+        const saved = snapshot.collections[i];
+        onProgress && onProgress({ current: i, total, phase: 'Variables', message: 'Restoring ' + saved.name + '...' });
+        const collection = await figma.variables.getVariableCollectionByIdAsync(saved.id);
+        if (!collection) {
+            result.warnings.push('Collection "' + saved.name + '" was deleted after the import and was not restored.');
+            continue;
+        }
+        result.removed += await restoreCollectionShape(collection, saved, createdByImport);
+        for (const variable of saved.variables) {
+            const existing = await figma.variables.getVariableByIdAsync(variable.id);
+            const target = existing || figma.variables.createVariable(variable.name, collection, variable.type);
+            if (!existing) recreated.push(saved.name + ' / ' + variable.name);
+            ids.set(variable.id, target.id);
+        }
+    }
+    if (recreated.length > 0) {
+        result.warnings.push('Recreated ' + recreated.length + (recreated.length === 1 ? ' variable' : ' variables') +
+            ' the import deleted, under new IDs; layers that used them stay detached: ' + recreated.join(', ') + '.');
+    }
+    for (const saved of snapshot.collections) {
+        for (const variable of saved.variables) {
+            const target = await figma.variables.getVariableByIdAsync(ids.get(variable.id) || variable.id);
+            if (!target) continue;
+            restoreVariable(target, variable, saved, ids);
+            result.restored++;
+        }
+    }
+
+    onProgress && onProgress({ current: total - 1, total, phase: 'Styles', message: 'Restoring styles...' });
+    const savedIds = new Set(snapshot.styles.map(function (style) { return style.id; }));
+    const current: BaseStyle[] = [];
+    current.push(...await figma.getLocalTextStylesAsync());
+    current.push(...await figma.getLocalEffectStylesAsync());
+    current.push(...await figma.getLocalGridStylesAsync());
+    for (const style of current) {
+        if (!savedIds.has(style.id) && createdByImport(style)) {
+            style.remove();
+            result.removed++;
+        }
+    }
+    const recreatedStyles: string[] = [];
+    for (const saved of snapshot.styles) {
+        const existed = !!await figma.getStyleByIdAsync(saved.id);
+        if (!await restoreStyle(saved, ids, result.warnings)) continue;
+        result.restored++;
+        if (!existed) recreatedStyles.push(saved.name);
+    }
+    if (recreatedStyles.length > 0) {
+        result.warnings.push('Recreated ' + recreatedStyles.length + (recreatedStyles.length === 1 ? ' style' : ' styles') +
+            ' the import deleted, under new IDs; layers that used them stay detached: ' + recreatedStyles.join(', ') + '.');
+    }
+
+    writeSnapshot(null);
+    onProgress && onProgress({ current: total, total, phase: 'Done', message: 'Rollback complete!' });
+    return result;
+}
+
+/**
+ * Put a collection's name and modes back and remove the variables the
+ * import created in it. Resolves with how many were removed.
+ */
+async function restoreCollectionShape(
+    collection: VariableCollection,
+    saved: CollectionSnapshot,
+    createdByImport: (target: Variable) => boolean
+): Promise<number> {
+    collection.name = saved.name;
+    for (const mode of collection.modes) {
+        const original = saved.modes.find(function (m) { return m.modeId === mode.modeId; });
+        if (!original) collection.removeMode(mode.modeId);
+        else if (original.name !== mode.name) collection.renameMode(mode.modeId, original.name);
+    }
+
+    let removed = 0;
+    const savedIds = new Set(saved.variables.map(function (variable) { return variable.id; }));
+    for (const id of collection.variableIds) {
+        if (savedIds.has(id)) continue;
+        const variable = await figma.variables.getVariableByIdAsync(id);
+        if (variable && createdByImport(variable)) {
+            variable.remove();
+            removed++;
+        }
+    }
+    return removed;
+}
+
+function restoreVariable(
+    variable: Variable,
+    saved: VariableSnapshot,
+    collection: CollectionSnapshot,
+    ids: Map<string, string>
+): void {
+    variable.name = saved.name;
+    variable.description = saved.description;
+    variable.scopes = saved.scopes;
+    variable.hiddenFromPublishing = saved.hiddenFromPublishing;
+    for (const mode of collection.modes) {
+        const value = saved.values[mode.modeId];
+        if (value === undefined) continue;
+        variable.setValueForMode(mode.modeId, remapAlias(value, ids));
+    }
+    restoreProvenance(variable, saved.provenance);
+    variable.setSharedPluginData(PROVENANCE_NAMESPACE, WRITTEN_VALUES_KEY, saved.written || '');
+}
+
+/** Restore a style, recreating it if it was deleted. Resolves false when skipped. */
+async function restoreStyle(saved: StyleSnapshot, ids: Map<string, string>, warnings: string[]): Promise<boolean> {
+    const existing = await figma.getStyleByIdAsync(saved.id);
+
+    if (saved.kind === 'text') {
+        try {
+            await figma.loadFontAsync(saved.fontName);
+        } catch (e) {
+            warnings.push('Text style "' + saved.name + '" was not restored: ' + saved.fontName.family + ' ' + saved.fontName.style + ' is unavailable.');
+            return false;
+        }
+        const style = (existing as TextStyle | null) || figma.createTextStyle();
+        restoreStyleBase(style, saved);
+        style.fontName = saved.fontName;
+        style.fontSize = saved.fontSize;
+        style.lineHeight = saved.lineHeight;
+        style.letterSpacing = saved.letterSpacing;
+        style.paragraphSpacing = saved.paragraphSpacing;
+        style.paragraphIndent = saved.paragraphIndent;
+        style.textCase = saved.textCase;
+        style.textDecoration = saved.textDecoration;
+        for (const field of TEXT_FIELDS) {
+            const id = saved.boundVariables[field];
+            const variable = id ? await figma.variables.getVariableByIdAsync(ids.get(id) || id) : null;
+            style.setBoundVariable(field, variable);
+        }
+        return true;
+    }
+
+    if (saved.kind === 'effect') {
+        const style = (existing as EffectStyle | null) || figma.createEffectStyle();
+        restoreStyleBase(style, saved);
+        style.effects = saved.effects.map(function (effect) { return remapAlias(effect, ids); });
+        return true;
+    }
+
+    const style = (existing as GridStyle | null) || figma.createGridStyle();
+    restoreStyleBase(style, saved);
+    style.layoutGrids = saved.layoutGrids.map(function (grid) { return remapAlias(grid, ids); });
+    return true;
+}
+
+function restoreStyleBase(style: BaseStyle, saved: StyleBase): void {
+    style.name = saved.name;
+    style.description = saved.description;
+    restoreProvenance(style, saved.provenance);
+}
+
+function restoreProvenance(target: Variable | BaseStyle, provenance: Provenance | null): void {
+    if (provenance) stampProvenance(target, provenance, provenance.rawValue);
+    else clearProvenance(target);
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+/** Split text into pieces of at most `maxBytes` UTF-8 bytes, never inside a character. */
+function chunkByBytes(text: string, maxBytes: number): string[] {
+    const chunks: string[] = [];
+    let start = 0;
+    let bytes = 0;
+    let i = 0;
+    while (i < text.length) {
+        const code = text.codePointAt(i) as number;
+        const size = code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+        if (bytes + size > maxBytes) {
+            chunks.push(text.slice(start, i));
+            start = i;
+            bytes = 0;
+        }
+        bytes += size;
+        i += code >= 0x10000 ? 2 : 1;
+    }
+    if (start < text.length) chunks.push(text.slice(start));
+    return chunks;
+}
+
+function clone<T>(value: T): T {
+    return JSON.parse(JSON.stringify(value)) as T;
+}
+
+/** Point `VARIABLE_ALIAS` objects anywhere in a value at recreated variables. */
+function remapAlias<T>(value: T, ids: Map<string, string>): T {
+    if (ids.size === 0) return value;
+    return JSON.parse(JSON.stringify(value), function (_key, field) {
+        if (field && typeof field === 'object' && field.type === 'VARIABLE_ALIAS' && typeof field.id === 'string') {
+            return { type: 'VARIABLE_ALIAS', id: ids.get(field.id) || field.id };
+        }
+        return field;
+    }) as T;
+}
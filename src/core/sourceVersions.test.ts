@@ -0,0 +1,81 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { checkVersion, compareReleases, diffTokenSets } from './sourceVersions';
+import { categorizeTokens, type CSSVariable } from './parser';
+import type { LibraryAdapter } from '../adapters/types';
+
+const V4_1_9: CSSVariable[] = [
+    { name: '--color-red-500', rawValue: 'oklch(0.637 0.237 25.331)' },
+    { name: '--color-sky-500', rawValue: 'oklch(0.685 0.169 237.323)' },
+    { name: '--radius-lg', rawValue: '0.5rem' },
+    { name: '--text-sm', rawValue: '0.875rem' },
+    { name: '--text-sm--line-height', rawValue: 'calc(1.25 / 0.875)' },
+];
+
+const V4_1_10: CSSVariable[] = [
+    { name: '--color-red-500', rawValue: 'oklch(0.637 0.237 25.331)' },
+    { name: '--color-mauve-500', rawValue: 'oklch(0.542 0.034 322.5)' },
+    { name: '--radius-lg', rawValue: '0.625rem' },
+    { name: '--text-sm', rawValue: '0.875rem' },
+    { name: '--text-sm--line-height', rawValue: 'calc(1.3 / 0.875)' },
+];
+
+describe('compareReleases', () => {
+    it('orders by version number, not as text', () => {
+        expect(compareReleases('v4.1.10', 'v4.1.9')).toBeGreaterThan(0);
+        expect(compareReleases('v3.4.17', 'v4.0.0')).toBeLessThan(0);
+        expect(compareReleases('4.1.9', 'v4.1.9')).toBe(0);
+    });
+
+    it('sorts tags that are not releases below every release', () => {
+        expect(['nightly', 'v4.1.9', 'v4.1.10'].sort((a, b) => compareReleases(b, a))).toEqual(['v4.1.10', 'v4.1.9', 'nightly']);
+        expect(compareReleases('insiders', 'v4.0.0-beta.1')).toBe(0);
+    });
+});
+
+describe('diffTokenSets', () => {
+    it('lists added, removed and changed tokens by variable and style name', () => {
+        const diff = diffTokenSets(categorizeTokens(V4_1_9), categorizeTokens(V4_1_10));
+
+        expect(diff.added).toEqual(['colors/mauve/500']);
+        expect(diff.removed).toEqual(['colors/sky/500']);
+        expect(diff.changed).toEqual([
+            { name: 'radius/lg', before: '0.5rem', after: '0.625rem' },
+            { name: 'text-sm', before: '0.875rem / 1.4286', after: '0.875rem / 1.4857' },
+        ]);
+    });
+
+    it('finds nothing to report between identical sets', () => {
+        expect(diffTokenSets(categorizeTokens(V4_1_9), categorizeTokens(V4_1_9))).toEqual({ added: [], removed: [], changed: [] });
+    });
+});
+
+describe('checkVersion', () => {
+    const adapter = (pinned: string) => {
+        vi.stubGlobal('figma', { root: { getPluginData: () => pinned } });
+        return {
+            id: 'tailwindcss',
+            listVersions: async () => ['v4.1.9', 'nightly', 'v4.1.10'],
+            fetchAndParse: async ({ ref }: { ref?: string }) => ({
+                type: 'primitives',
+                tokens: categorizeTokens(ref === 'v4.1.9' ? V4_1_9 : V4_1_10),
+            }),
+        } as unknown as LibraryAdapter;
+    };
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('reports the newest release and what it changes for an older pin', async () => {
+        const status = await checkVersion(adapter('v4.1.9'));
+
+        expect(status.releases).toEqual(['v4.1.10', 'v4.1.9', 'nightly']);
+        expect(status.update?.latest).toBe('v4.1.10');
+        expect(status.update?.diff.added).toEqual(['colors/mauve/500']);
+    });
+
+    it('never reports an update for the newest release or a commit pin', async () => {
+        expect((await checkVersion(adapter('v4.1.10'))).update).toBeNull();
+        expect((await checkVersion(adapter('3f2a9c1'))).update).toBeNull();
+    });
+});
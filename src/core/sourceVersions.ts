@@ -0,0 +1,124 @@
+// ─── Source Versions ─────────────────────────────────────────────────────────
+// Pins an adapter's upstream source to a release tag or commit so an
+// unreleased change on `main` can't alter the tokens, remembers the pin in
+// the document, and checks whether a newer release is out: the pinned and
+// newest release are both fetched and their tokens compared by raw value.
+
+import type { LibraryAdapter, TokenCategory } from '../adapters/types';
+import type { ParsedTokenSet } from './parser';
+import { VARIABLE_GROUPS, variableName } from './figmaSync';
+
+/** Document plugin data key prefix for the pinned ref of each adapter. */
+const PINNED_REF_KEY = 'pinnedRef:';
+
+const RELEASE_TAG = /^v?(\d+)\.(\d+)\.(\d+)$/;
+
+export interface TokenChange {
+    name: string;
+    before: string;
+    after: string;
+}
+
+/** Tokens an upgrade adds, removes or changes, by variable or style name. */
+export interface VersionDiff {
+    added: string[];
+    removed: string[];
+    changed: TokenChange[];
+}
+
+export interface VersionStatus {
+    adapterId: string;
+    /** Tag or commit the document is pinned to; empty when it follows `main` */
+    pinned: string;
+    /** Release tags, newest first */
+    releases: string[];
+    /** Set when the pin is a release tag older than the newest release */
+    update: { latest: string; diff: VersionDiff } | null;
+    /** Why the releases couldn't be listed or compared */
+    error?: string;
+}
+
+// ─── Pinning ─────────────────────────────────────────────────────────────────
+
+export function readPinnedRef(adapterId: string): string {
+    return figma.root.getPluginData(PINNED_REF_KEY + adapterId);
+}
+
+/** Remember the ref an import used; an empty ref clears the pin. */
+export function writePinnedRef(adapterId: string, ref: string): void {
+    figma.root.setPluginData(PINNED_REF_KEY + adapterId, ref.trim());
+}
+
+// ─── Update Check ────────────────────────────────────────────────────────────
+
+/**
+ * List the adapter's releases and, when the document is pinned to an older
+ * one, diff the tokens of the pinned and newest release. Commit pins are
+ * never reported as outdated since their age isn't known.
+ */
+export async function checkVersion(adapter: LibraryAdapter): Promise<VersionStatus> {
+    const status: VersionStatus = { adapterId: adapter.id, pinned: readPinnedRef(adapter.id), releases: [], update: null };
+    if (!adapter.listVersions) return status;
+
+    try {
+        status.releases = (await adapter.listVersions()).sort(function (a, b) { return compareReleases(b, a); });
+        const latest = status.releases[0];
+        if (latest && RELEASE_TAG.test(status.pinned) && compareReleases(latest, status.pinned) > 0) {
+            const before = await adapter.fetchAndParse({ ref: status.pinned });
+            const after = await adapter.fetchAndParse({ ref: latest });
+            if (before.type === 'primitives' && after.type === 'primitives') {
+                status.update = { latest, diff: diffTokenSets(before.tokens, after.tokens) };
+            }
+        }
+    } catch (error) {
+        status.error = error instanceof Error ? error.message : 'Failed to check for updates';
+    }
+    return status;
+}
+
+/** Order release tags by version number, so v4.1.10 sorts after v4.1.9. */
+export function compareReleases(a: string, b: string): number {
+    const left = a.match(RELEASE_TAG);
+    const right = b.match(RELEASE_TAG);
+    if (!left || !right) return left ? 1 : right ? -1 : 0;
+    for (let i = 1; i <= 3; i++) {
+        const delta = parseInt(left[i], 10) - parseInt(right[i], 10);
+        if (delta !== 0) return delta;
+    }
+    return 0;
+}
+
+// ─── Diff ────────────────────────────────────────────────────────────────────
+
+export function diffTokenSets(before: ParsedTokenSet, after: ParsedTokenSet): VersionDiff {
+    const old = flattenTokens(before);
+    const next = flattenTokens(after);
+    const diff: VersionDiff = { added: [], removed: [], changed: [] };
+
+    next.forEach(function (value, name) {
+        const previous = old.get(name);
+        if (previous === undefined) diff.added.push(name);
+        else if (previous !== value) diff.changed.push({ name, before: previous, after: value });
+    });
+    old.forEach(function (_value, name) {
+        if (!next.has(name)) diff.removed.push(name);
+    });
+    return diff;
+}
+
+/** Raw source value of every token, keyed by the variable or style it becomes. */
+function flattenTokens(tokens: ParsedTokenSet): Map<string, string> {
+    const flat = new Map<string, string>();
+    for (const category of Object.keys(VARIABLE_GROUPS) as TokenCategory[]) {
+        const list = tokens[category as keyof ParsedTokenSet] as { path: string[]; rawValue: string }[] | undefined;
+        for (const token of list || []) flat.set(variableName(category, token.path), token.rawValue);
+    }
+    for (const font of tokens.fonts || []) flat.set('typography/family/' + font.name, font.rawValue);
+    for (const typo of tokens.typography) {
+        const lineHeight = typo.lineHeight !== undefined ? ' / ' + Math.round(typo.lineHeight * 10000) / 10000 : '';
+        flat.set('text-' + typo.name, typo.rawValue + lineHeight);
+    }
+    for (const shadow of tokens.shadows) flat.set(shadow.name, shadow.rawValue);
+    for (const mw of tokens.maxWidth || []) flat.set('max-width/' + mw.path.join('/'), mw.rawValue);
+    return flat;
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { parseTailwindConfig, themeToVariables } from './tailwindConfigParser';
+import config from './__fixtures__/tailwind-v3-theme.json';
+
+describe('parseTailwindConfig', () => {
+    const parsed = parseTailwindConfig(config);
+
+    it('merges theme.extend over the base scales', () => {
+        expect(parsed.colors.map((c) => c.path.join('/'))).toEqual(['white', 'blue/500', 'blue/900', 'blue', 'brand']);
+        expect(parsed.spacing.map((s) => [s.path[0], s.value])).toEqual([['1', 4], ['4', 16], ['18', 72]]);
+    });
+
+    it('maps DEFAULT keys the way the v4 compatibility layer does', () => {
+        expect(parsed.colors.find((c) => c.path.join('/') === 'blue')?.rawValue).toBe('#2563eb');
+        expect(parsed.radius.map((r) => [r.path[0], r.value])).toEqual([['default', 4], ['lg', 8]]);
+    });
+
+    it('reads font sizes with their line heights', () => {
+        expect(parsed.typography).toEqual([
+            { name: 'sm', fontSize: 14, lineHeight: 20, rawValue: '0.875rem' },
+            { name: 'base', fontSize: 16, rawValue: '1rem' },
+        ]);
+    });
+
+    it('reads families, weights, screens and shadows', () => {
+        expect(parsed.fonts).toEqual([{ name: 'sans', family: 'Inter', rawValue: 'Inter, sans-serif' }]);
+        expect(parsed.fontWeights).toEqual([{ path: ['bold'], value: 700, rawValue: '700' }]);
+        expect(parsed.breakpoints).toEqual([{ path: ['md'], value: 768, rawValue: '768px' }]);
+        expect(parsed.shadows[0]).toMatchObject({ name: 'drop-shadow/sm', shadows: [{ x: 0, y: 1, blur: 2, spread: 0 }] });
+    });
+
+    it('accepts the theme object on its own', () => {
+        expect(parseTailwindConfig(config.theme).colors).toHaveLength(5);
+    });
+});
+
+describe('themeToVariables', () => {
+    it('names variables in the v4 namespaces', () => {
+        const names = themeToVariables({ colors: { red: { 500: '#f00' } }, borderRadius: { DEFAULT: '4px' }, screens: { sm: '640px' } })
+            .map((v) => v.name);
+        expect(names).toEqual(['--color-red-500', '--radius', '--breakpoint-sm']);
+    });
+});
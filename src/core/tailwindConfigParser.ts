@@ -0,0 +1,166 @@
+// ─── Tailwind v3 Config Parser ───────────────────────────────────────────────
+// Converts a Tailwind v3 `theme` object (from tailwind.config.js, or a config
+// already evaluated with resolveConfig) into the v4 theme variables Tailwind's
+// own compatibility layer would produce, so `categorizeTokens` handles both.
+
+import { categorizeTokens, type CSSVariable, type ParsedTokenSet } from './parser';
+import { parseDimension } from './colorUtils';
+
+type ThemeValue = string | number | unknown[] | Record<string, unknown>;
+
+/** v3 theme keys and the v4 namespace each one maps to. */
+const NAMESPACES: Record<string, string> = {
+    colors: '--color',
+    spacing: '--spacing',
+    borderRadius: '--radius',
+    boxShadow: '--shadow',
+    letterSpacing: '--tracking',
+    lineHeight: '--leading',
+    screens: '--breakpoint',
+    fontWeight: '--font-weight',
+    fontFamily: '--font',
+};
+
+/** Namespaces whose `DEFAULT` key is the bare variable (e.g. `--radius`). */
+const BARE_DEFAULT = ['--radius'];
+
+/**
+ * Parse a Tailwind v3 config or theme object.
+ * Accepts `{ theme: { ... } }` or the theme itself; `theme.extend` is merged
+ * over the base keys the way Tailwind merges it.
+ */
+export function parseTailwindConfig(data: Record<string, any>): ParsedTokenSet {
+    const theme = mergeExtend(isObject(data.theme) ? data.theme : data);
+    return categorizeTokens(themeToVariables(theme));
+}
+
+/** Convert a resolved v3 theme object into v4 theme variables. */
+export function themeToVariables(theme: Record<string, unknown>): CSSVariable[] {
+    const vars: CSSVariable[] = [];
+
+    for (const [key, namespace] of Object.entries(NAMESPACES)) {
+        const scale = theme[key];
+        if (!isObject(scale)) continue;
+
+        for (const [path, value] of flattenScale(scale)) {
+            const raw = scaleValue(key, value);
+            if (raw === null) continue;
+            const name = path.length === 1 && path[0] === 'DEFAULT' && BARE_DEFAULT.indexOf(namespace) >= 0
+                ? namespace
+                : namespace + '-' + path.join('-');
+            vars.push({ name, rawValue: raw });
+        }
+    }
+
+    if (isObject(theme.fontSize)) {
+        for (const [size, value] of Object.entries(theme.fontSize)) {
+            vars.push(...fontSizeVariables(size, value as ThemeValue));
+        }
+    }
+
+    return vars;
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function mergeExtend(theme: Record<string, any>): Record<string, unknown> {
+    const result: Record<string, unknown> = { ...theme };
+    delete result.extend;
+    if (!isObject(theme.extend)) return result;
+
+    for (const [key, value] of Object.entries(theme.extend)) {
+        result[key] = isObject(result[key]) && isObject(value)
+            ? deepMerge(result[key] as Record<string, unknown>, value)
+            : value;
+    }
+    return result;
+}
+
+function deepMerge(base: Record<string, unknown>, extension: Record<string, unknown>): Record<string, unknown> {
+    const result: Record<string, unknown> = { ...base };
+    for (const [key, value] of Object.entries(extension)) {
+        result[key] = isObject(result[key]) && isObject(value)
+            ? deepMerge(result[key] as Record<string, unknown>, value)
+            : value;
+    }
+    return result;
+}
+
+/**
+ * Flatten nested scales (`colors.red.500`) into path/value pairs. A nested
+ * `DEFAULT` maps to its parent, so `red.DEFAULT` becomes `--color-red`.
+ * `screens` objects (`{ min: '640px' }`) are values, not groups.
+ */
+function flattenScale(scale: Record<string, unknown>, prefix: string[] = []): [string[], unknown][] {
+    const entries: [string[], unknown][] = [];
+    for (const [key, value] of Object.entries(scale)) {
+        const path = key === 'DEFAULT' && prefix.length > 0 ? prefix : prefix.concat(key.replace(/\./g, '_'));
+        if (isObject(value) && !('min' in value) && !('max' in value) && !('raw' in value)) {
+            entries.push(...flattenScale(value, path));
+        } else {
+            entries.push([path, value]);
+        }
+    }
+    return entries;
+}
+
+/** Normalize one scale value into a CSS value string, or null to skip it. */
+function scaleValue(key: string, value: unknown): string | null {
+    if (key === 'screens' && isObject(value)) {
+        const bound = value.min !== undefined ? value.min : value.max;
+        return typeof bound === 'string' ? bound : null;
+    }
+    if (key === 'fontFamily') {
+        // ['Inter', 'sans-serif'] or [['Inter', ...], { fontFeatureSettings }]
+        const stack = Array.isArray(value) && Array.isArray(value[0]) ? value[0] : value;
+        return Array.isArray(stack) ? stack.join(', ') : typeof stack === 'string' ? stack : null;
+    }
+    if (Array.isArray(value)) {
+        // boxShadow may be a list of layers
+        return key === 'boxShadow' ? value.join(', ') : null;
+    }
+    if (key === 'lineHeight' && typeof value === 'string') {
+        return lengthToPx(value);
+    }
+    return typeof value === 'string' || typeof value === 'number' ? String(value) : null;
+}
+
+/**
+ * Expand a v3 font size into `--text-*` and its modifiers. Accepts
+ * `'1rem'`, `['1rem', '1.5rem']` and `['1rem', { lineHeight, letterSpacing, fontWeight }]`.
+ */
+function fontSizeVariables(size: string, value: ThemeValue): CSSVariable[] {
+    const name = '--text-' + size.replace(/\./g, '_');
+    const [fontSize, options] = Array.isArray(value) ? value : [value, undefined];
+    if (typeof fontSize !== 'string' && typeof fontSize !== 'number') return [];
+
+    const vars: CSSVariable[] = [{ name, rawValue: String(fontSize) }];
+    const modifiers: Record<string, unknown> = typeof options === 'string'
+        ? { lineHeight: options }
+        : isObject(options) ? options : {};
+
+    if (typeof modifiers.lineHeight === 'string' || typeof modifiers.lineHeight === 'number') {
+        vars.push({ name: name + '--line-height', rawValue: lengthToPx(String(modifiers.lineHeight)) });
+    }
+    if (typeof modifiers.letterSpacing === 'string') {
+        vars.push({ name: name + '--letter-spacing', rawValue: modifiers.letterSpacing });
+    }
+    if (typeof modifiers.fontWeight === 'string' || typeof modifiers.fontWeight === 'number') {
+        vars.push({ name: name + '--font-weight', rawValue: String(modifiers.fontWeight) });
+    }
+    return vars;
+}
+
+/**
+ * Line heights with a length unit become px so they aren't mistaken for
+ * ratios; unitless ratios pass through.
+ */
+function lengthToPx(value: string): string {
+    if (!/(px|rem)$/.test(value.trim())) return value;
+    const px = parseDimension(value);
+    return px === null ? value : String(px);
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
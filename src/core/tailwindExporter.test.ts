@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { exportTailwindTheme, themePropertyName } from './tailwindExporter';
+import { categorizeTokens, mergeThemeVariables, parseThemeOverrides } from './parser';
+import type { ExportCollection } from './variableReader';
+import primitives from './__fixtures__/primitives-collection.json';
+
+const collection = primitives as ExportCollection;
+
+describe('exportTailwindTheme', () => {
+    const css = exportTailwindTheme(collection);
+
+    it('writes one @theme block grouped by namespace', () => {
+        expect(css).toBe([
+            '@theme {',
+            '  --spacing: 0.25rem;',
+            '  --spacing-px: 0.0625rem;',
+            '',
+            '  --color-red-500: oklch(63.8% 0.237 25.434);',
+            '  --color-white: oklch(100% 0 0);',
+            '  --color-brand: var(--color-red-500);',
+            '',
+            '  --font-sans: Inter;',
+            '  --font-weight-bold: 700;',
+            '',
+            '  --breakpoint-md: 48rem;',
+            '',
+            '  --text-sm: 0.875rem;',
+            '  --text-sm--line-height: calc(1.25 / 0.875);',
+            '',
+            '  --radius-lg: 0.5rem;',
+            '',
+            '  --ease-in: cubic-bezier(0.4, 0, 1, 1);',
+            '}',
+            '',
+        ].join('\n'));
+    });
+
+    it('leaves out groups with no theme namespace', () => {
+        expect(css).not.toContain('opacity');
+    });
+
+    it('reads back as the same tokens', () => {
+        const parsed = categorizeTokens(mergeThemeVariables([], parseThemeOverrides(css)));
+        expect(parsed.colors.map((c) => c.path.join('/'))).toEqual(['red/500', 'white', 'brand']);
+        expect(parsed.colors[0].figmaColor.r).toBeCloseTo(0.984, 2);
+        expect(parsed.typography).toEqual([expect.objectContaining({ name: 'sm', fontSize: 14 })]);
+        expect(parsed.typography[0].lineHeight! * 14).toBeCloseTo(20);
+        expect(parsed.radius).toEqual([expect.objectContaining({ path: ['lg'], value: 8 })]);
+        expect(parsed.breakpoints).toEqual([expect.objectContaining({ path: ['md'], value: 768 })]);
+    });
+});
+
+describe('themePropertyName', () => {
+    it('reverses the import naming', () => {
+        expect(themePropertyName('colors/red/500')).toBe('--color-red-500');
+        expect(themePropertyName('radius/default')).toBe('--radius');
+        expect(themePropertyName('typography/size/sm')).toBe('--text-sm');
+        expect(themePropertyName('opacity/50')).toBeNull();
+    });
+});
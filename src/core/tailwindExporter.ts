@@ -0,0 +1,189 @@
+// ─── Tailwind Theme Exporter ─────────────────────────────────────────────────
+// Writes a primitives collection back out as a Tailwind v4 `@theme` block,
+// reversing the variable names `importPrimitives` uses: `colors/red/500` →
+// `--color-red-500`, `typography/size/sm` → `--text-sm`, ... Colors are
+// written as oklch, lengths in rem like Tailwind's own theme.
+
+import { formatOklch } from './colorUtils';
+import type { ExportCollection, ExportValue, ExportVariable, ResolvedValue } from './variableReader';
+
+type Unit = 'color' | 'rem' | 'px' | 'em' | 'number' | 'font' | 'string';
+
+interface ThemeRule {
+    pattern: RegExp;
+    property: string;
+    unit: Unit;
+}
+
+/**
+ * Figma variable names and the theme variable each one becomes, in output
+ * order. Spacing and the per-size line heights are handled separately.
+ * Derived groups (backdrop-blur, opacity, skew, border-width) have no theme
+ * namespace and are left out.
+ */
+const RULES: ThemeRule[] = [
+    { pattern: /^colors\/(.+)$/, property: '--color-$1', unit: 'color' },
+    { pattern: /^typography\/family\/(.+)$/, property: '--font-$1', unit: 'font' },
+    { pattern: /^breakpoint\/(.+)$/, property: '--breakpoint-$1', unit: 'rem' },
+    { pattern: /^container\/(.+)$/, property: '--container-$1', unit: 'rem' },
+    { pattern: /^typography\/size\/(.+)$/, property: '--text-$1', unit: 'rem' },
+    { pattern: /^typography\/letter-spacing\/(.+)$/, property: '--text-$1--letter-spacing', unit: 'em' },
+    { pattern: /^typography\/weight\/(.+)$/, property: '--font-weight-$1', unit: 'number' },
+    { pattern: /^typography\/tracking\/(.+)$/, property: '--tracking-$1', unit: 'em' },
+    { pattern: /^typography\/leading\/(.+)$/, property: '--leading-$1', unit: 'number' },
+    { pattern: /^radius\/default$/, property: '--radius', unit: 'rem' },
+    { pattern: /^radius\/(.+)$/, property: '--radius-$1', unit: 'rem' },
+    { pattern: /^blur\/default$/, property: '--blur', unit: 'px' },
+    { pattern: /^blur\/(.+)$/, property: '--blur-$1', unit: 'px' },
+    { pattern: /^easing\/(.+)$/, property: '--ease-$1', unit: 'string' },
+];
+
+const ROOT_FONT_SIZE = 16;
+
+// ─── Exporter ────────────────────────────────────────────────────────────────
+
+/** Export the collection's default mode as a Tailwind v4 `@theme` block. */
+export function exportTailwindTheme(collection: ExportCollection): string {
+    const mode = collection.modes[0];
+    const byName = new Map<string, ExportVariable>();
+    for (const variable of collection.variables) {
+        byName.set(variable.name, variable);
+    }
+
+    // One block per namespace: --color-*, --font-*, --text-*, ...
+    const sections = new Map<string, string[]>();
+    sections.set('spacing', spacingLines(collection.variables, mode, collection.name));
+    for (const rule of RULES) {
+        for (const variable of collection.variables) {
+            if (RULES.find(matching(variable.name)) !== rule) continue;
+            const line = themeLine(variable, rule, mode, byName, collection.name);
+            if (!line) continue;
+            const namespace = line.trim().replace(/^--([a-z]+).*$/, '$1');
+            sections.set(namespace, (sections.get(namespace) || []).concat(line));
+        }
+    }
+
+    const body = Array.from(sections.values())
+        .filter(function (lines) { return lines.length > 0; })
+        .map(function (lines) { return lines.join('\n'); })
+        .join('\n\n');
+    return '@theme {\n' + body + '\n}\n';
+}
+
+/**
+ * Theme variable name for a Figma variable name, or null when it has no
+ * place in `@theme`. Also used by the theme exporter to write aliases.
+ */
+export function themePropertyName(name: string): string | null {
+    if (/^spacing\//.test(name)) return '--spacing-' + cssName(name.slice('spacing/'.length));
+    const rule = RULES.find(matching(name));
+    return rule ? rule.property.replace('$1', cssName(name.replace(rule.pattern, '$1'))) : null;
+}
+
+// ─── Lines ───────────────────────────────────────────────────────────────────
+
+function themeLine(
+    variable: ExportVariable,
+    rule: ThemeRule,
+    mode: string,
+    byName: Map<string, ExportVariable>,
+    collectionName: string
+): string | null {
+    const key = variable.name.replace(rule.pattern, '$1');
+
+    // Line heights of text sizes become `--text-*--line-height` ratios
+    if (/^typography\/leading\//.test(variable.name) && byName.has('typography/size/' + key)) {
+        const size = resolved(byName.get('typography/size/' + key)!.values[mode]);
+        const leading = resolved(variable.values[mode]);
+        if (!size || !leading || size.kind !== 'number' || leading.kind !== 'number' || size.value === 0) return null;
+        return '  --text-' + cssName(key) + '--line-height: calc('
+            + formatNumber(leading.value / ROOT_FONT_SIZE) + ' / ' + formatNumber(size.value / ROOT_FONT_SIZE) + ');';
+    }
+
+    const value = variable.values[mode];
+    if (!value) return null;
+
+    const property = rule.property.replace('$1', cssName(key));
+    const reference = aliasReference(value, collectionName);
+    if (reference) return '  ' + property + ': ' + reference + ';';
+
+    const css = formatValue(resolved(value), rule.unit);
+    return css === null ? null : '  ' + property + ': ' + css + ';';
+}
+
+/**
+ * `--spacing` is the multiplier base (`spacing/1`); only steps that don't
+ * follow it are written out.
+ */
+function spacingLines(variables: ExportVariable[], mode: string, collectionName: string): string[] {
+    const spacing = variables.filter(function (v) { return /^spacing\//.test(v.name); });
+    const baseVariable = spacing.find(function (v) { return v.name === 'spacing/1'; })
+        || spacing.find(function (v) { return v.name === 'spacing/base'; });
+    const baseValue = baseVariable ? resolved(baseVariable.values[mode]) : null;
+    const base = baseValue && baseValue.kind === 'number' ? baseValue.value : null;
+
+    const lines: string[] = [];
+    if (base !== null) lines.push('  --spacing: ' + formatValue(baseValue, 'rem') + ';');
+
+    for (const variable of spacing) {
+        if (variable === baseVariable) continue;
+        const step = variable.name.slice('spacing/'.length);
+        const value = resolved(variable.values[mode]);
+        if (!value || value.kind !== 'number') continue;
+
+        const multiple = parseFloat(step.replace(/_/g, '.'));
+        if (base !== null && String(multiple) === step.replace(/_/g, '.') && Math.abs(multiple * base - value.value) < 0.001) continue;
+
+        const reference = aliasReference(variable.values[mode], collectionName);
+        lines.push('  --spacing-' + cssName(step) + ': ' + (reference || formatValue(value, 'rem')) + ';');
+    }
+    return lines;
+}
+
+// ─── Values ──────────────────────────────────────────────────────────────────
+
+/** `var(--x)` for aliases to variables that are also written to this `@theme`. */
+function aliasReference(value: ExportValue, collectionName: string): string | null {
+    if (value.kind !== 'alias' || value.collection !== collectionName) return null;
+    const property = themePropertyName(value.name);
+    return property && !/--line-height$/.test(property) ? 'var(' + property + ')' : null;
+}
+
+function resolved(value: ExportValue | undefined): ResolvedValue | null {
+    if (!value) return null;
+    return value.kind === 'alias' ? value.resolved : value;
+}
+
+function formatValue(value: ResolvedValue | null, unit: Unit): string | null {
+    if (!value) return null;
+    if (value.kind === 'color') return formatOklch(value.color);
+    if (value.kind === 'string') return unit === 'font' ? formatFontFamily(value.value) : value.value;
+    if (value.kind !== 'number') return null;
+
+    switch (unit) {
+        case 'rem':
+        case 'em':
+            return value.value === 0 ? '0' : formatNumber(value.value / ROOT_FONT_SIZE) + unit;
+        case 'px':
+            return value.value === 0 ? '0' : formatNumber(value.value) + 'px';
+        default:
+            return formatNumber(value.value);
+    }
+}
+
+function formatFontFamily(family: string): string {
+    return /\s/.test(family) && !/^['"]/.test(family) ? '"' + family + '"' : family;
+}
+
+function formatNumber(n: number): string {
+    return String(Math.round(n * 10000) / 10000);
+}
+
+/** `red/500` → `red-500` */
+function cssName(path: string): string {
+    return path.split('/').join('-');
+}
+
+function matching(name: string) {
+    return function (rule: ThemeRule) { return rule.pattern.test(name); };
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { parseTokensStudio } from './tokensStudioParser';
+import tokens from './__fixtures__/tokens-studio.json';
+
+describe('parseTokensStudio', () => {
+    const { sets, themes } = parseTokensStudio(tokens);
+    const set = (name: string) => sets.find((s) => s.name === name)!.tokens;
+
+    it('imports the source sets in set order', () => {
+        expect(sets.map((s) => s.name)).toEqual(['core', 'brand']);
+    });
+
+    it('keeps a set\'s own values where a later set overrides them', () => {
+        expect(set('core').colors.find((c) => c.path[0] === 'blue')?.rawValue).toBe('#0000ff');
+        expect(set('brand').colors.find((c) => c.path[0] === 'blue')?.rawValue).toBe('#1111ee');
+    });
+
+    it('aliases references within a set and evaluates math', () => {
+        const brand = set('core').colors.find((c) => c.path[0] === 'brand');
+        expect(brand?.alias).toEqual({ category: 'colors', path: ['blue'] });
+        expect(set('core').spacing).toEqual([
+            { path: ['base'], value: 4, rawValue: '4' },
+            { path: ['lg'], value: 16, rawValue: '16' },
+        ]);
+    });
+
+    it('normalizes percentages and box shadows', () => {
+        expect(set('core').leading).toEqual([{ path: ['body'], value: 1.5, rawValue: '1.5' }]);
+        expect(set('core').shadows[0]).toMatchObject({
+            name: 'drop-shadow/card',
+            shadows: [{ x: 0, y: 2, blur: 4, spread: 0, type: 'DROP_SHADOW' }],
+        });
+    });
+
+    it('makes one theme collection per group', () => {
+        expect(themes.map((t) => t.group)).toEqual(['Color', 'Density']);
+        expect(themes[0].modes.map((m) => m.name)).toEqual(['Light', 'Dark']);
+        expect(themes[1].modes.map((m) => m.name)).toEqual(['Compact']);
+    });
+
+    it('resolves theme tokens through the merged sets and aliases source tokens', () => {
+        const [light, dark] = themes[0].modes;
+        expect(light.tokens).toEqual({ bg: '#1111ee' });
+        expect(light.aliases).toEqual({ bg: { collection: 'core', category: 'colors', path: ['brand'] } });
+        expect(dark.tokens).toEqual({ bg: '#000000' });
+        expect(dark.aliases).toEqual({});
+
+        const compact = themes[1].modes[0];
+        expect(compact.aliases).toEqual({ gap: { collection: 'core', category: 'spacing', path: ['base'] } });
+    });
+
+    it('treats every set as a source set without $themes', () => {
+        const result = parseTokensStudio({ a: { x: { value: '#fff', type: 'color' } }, b: { y: { value: '2', type: 'spacing' } } });
+        expect(result.sets.map((s) => s.name)).toEqual(['a', 'b']);
+        expect(result.themes).toEqual([]);
+    });
+});
@@ -0,0 +1,265 @@
+// ─── Tokens Studio Parser ────────────────────────────────────────────────────
+// Reads Tokens Studio (Figma Tokens) exports: token sets, `$themes` and
+// `$metadata.tokenSetOrder`. Source sets become primitive collections and
+// every theme becomes a mode of its group's theme collection. References and
+// math resolve the way Tokens Studio does: sets merge in set order, later
+// sets override earlier ones, and expressions are evaluated after
+// substitution. A source set still keeps its own values for the tokens it
+// defines; the merged sets only resolve what it references.
+
+import {
+    flattenDesignTokens,
+    resolveReferences,
+    buildTokenSet,
+    tokenDestination,
+    toPx,
+    type DesignToken,
+    type ResolvedDesignToken,
+    type TokenKeys,
+} from './dtcgParser';
+import { evaluateMath } from './mathUtils';
+import type { ParsedTokenSet, ThemeMode, TokenReference } from './parser';
+import type { TokenCategory } from '../adapters/types';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type TokenSetStatus = 'enabled' | 'source' | 'disabled';
+
+export interface TokensStudioTheme {
+    name: string;
+    /** Themes in the same group are modes of one collection */
+    group?: string;
+    selectedTokenSets: Record<string, TokenSetStatus>;
+}
+
+export interface TokensStudioSet {
+    name: string;
+    tokens: ParsedTokenSet;
+}
+
+export interface TokensStudioThemeGroup {
+    /** The themes' `group`; undefined for themes without one */
+    group?: string;
+    modes: ThemeMode[];
+}
+
+export interface TokensStudioTokens {
+    /** Source sets, imported as one primitive collection each */
+    sets: TokensStudioSet[];
+    /** `$themes` by group, one mode per theme, in order of first appearance */
+    themes: TokensStudioThemeGroup[];
+}
+
+/** Tokens Studio types mapped to DTCG types, with a category fallback. */
+const TYPE_MAP: Record<string, { type: string; categoryHint?: TokenCategory }> = {
+    color: { type: 'color' },
+    dimension: { type: 'dimension' },
+    spacing: { type: 'dimension', categoryHint: 'spacing' },
+    sizing: { type: 'dimension', categoryHint: 'spacing' },
+    borderRadius: { type: 'dimension', categoryHint: 'radius' },
+    borderWidth: { type: 'dimension', categoryHint: 'borderWidth' },
+    letterSpacing: { type: 'dimension', categoryHint: 'tracking' },
+    fontSizes: { type: 'dimension', categoryHint: 'typography' },
+    lineHeights: { type: 'number', categoryHint: 'leading' },
+    opacity: { type: 'number', categoryHint: 'opacity' },
+    number: { type: 'number' },
+    fontWeights: { type: 'fontWeight' },
+    fontFamilies: { type: 'fontFamily' },
+    boxShadow: { type: 'shadow' },
+    typography: { type: 'typography' },
+};
+
+const LEGACY_KEYS: TokenKeys = { valueKey: 'value', typeKey: 'type' };
+const DTCG_KEYS: TokenKeys = { valueKey: '$value', typeKey: '$type' };
+
+// ─── Parser ──────────────────────────────────────────────────────────────────
+
+/**
+ * Parse a Tokens Studio export.
+ * Without `$themes`, every set is treated as a source set and no themes are
+ * produced.
+ */
+export function parseTokensStudio(data: Record<string, any>): TokensStudioTokens {
+    const themes: TokensStudioTheme[] = Array.isArray(data.$themes) ? data.$themes : [];
+    const setNames = readSetOrder(data);
+    const keys = JSON.stringify(data).indexOf('"$value"') >= 0 ? DTCG_KEYS : LEGACY_KEYS;
+
+    const setTokens = new Map<string, DesignToken[]>();
+    for (const name of setNames) {
+        setTokens.set(name, flattenDesignTokens(data[name], keys).map(function (token) {
+            return normalizeToken(token, name);
+        }));
+    }
+
+    // Sets marked as source by any theme hold the primitives
+    const sourceSets = themes.length === 0
+        ? setNames
+        : setNames.filter(function (name) {
+            return themes.some(function (theme) { return theme.selectedTokenSets[name] === 'source'; });
+        });
+
+    const sets = sourceSets.map(function (name) {
+        const context = resolveSets(sourceSets, setTokens, name);
+        return {
+            name,
+            tokens: buildTokenSet(context.filter(function (t) { return t.origin === name; }), context),
+        };
+    });
+
+    const groups: TokensStudioThemeGroup[] = [];
+    for (const theme of themes) {
+        let group = groups.find(function (g) { return g.group === (theme.group || undefined); });
+        if (!group) {
+            group = { group: theme.group || undefined, modes: [] };
+            groups.push(group);
+        }
+        group.modes.push(buildThemeMode(theme, setNames, sourceSets, setTokens));
+    }
+
+    return { sets, themes: groups };
+}
+
+/** Token sets in `$metadata.tokenSetOrder`, then any sets it doesn't list. */
+function readSetOrder(data: Record<string, any>): string[] {
+    const isSet = function (name: string) {
+        return !name.startsWith('$') && data[name] !== null && typeof data[name] === 'object';
+    };
+    const order: string[] = data.$metadata && Array.isArray(data.$metadata.tokenSetOrder)
+        ? data.$metadata.tokenSetOrder.filter(isSet)
+        : [];
+    for (const name of Object.keys(data)) {
+        if (isSet(name) && order.indexOf(name) < 0) order.push(name);
+    }
+    return order;
+}
+
+/**
+ * Merge sets in order and resolve references and math across them. An `own`
+ * set merges last, so its tokens keep their own values over later sets'.
+ */
+function resolveSets(names: string[], setTokens: Map<string, DesignToken[]>, own?: string): ResolvedDesignToken[] {
+    const tokens: DesignToken[] = [];
+    for (const name of names) {
+        if (name !== own) tokens.push(...(setTokens.get(name) || []));
+    }
+    if (own) tokens.push(...(setTokens.get(own) || []));
+    return resolveReferences(tokens, evaluateMath).map(normalizeResolved);
+}
+
+/**
+ * Build one mode from a theme's enabled sets. Values are fully resolved;
+ * tokens that reference a source-set token alias that primitive.
+ */
+function buildThemeMode(
+    theme: TokensStudioTheme,
+    setNames: string[],
+    sourceSets: string[],
+    setTokens: Map<string, DesignToken[]>
+): ThemeMode {
+    const active = setNames.filter(function (name) {
+        const status = theme.selectedTokenSets[name];
+        return status === 'enabled' || status === 'source';
+    });
+    const resolved = resolveSets(active, setTokens);
+
+    // Later sets override earlier ones
+    const byPath = new Map<string, ResolvedDesignToken>();
+    for (const token of resolved) {
+        byPath.set(token.path.join('.'), token);
+    }
+
+    const tokens: Record<string, string> = {};
+    const aliases: Record<string, TokenReference> = {};
+
+    byPath.forEach(function (token) {
+        if (sourceSets.indexOf(token.origin!) >= 0) return;
+        if (typeof token.resolved !== 'string' && typeof token.resolved !== 'number') return;
+
+        const name = token.path.join('/');
+        tokens[name] = String(token.resolved);
+
+        // Follow the reference chain to the first token that lives in a source set
+        let target = token.reference !== null ? byPath.get(token.reference) : undefined;
+        const seen = new Set<string>();
+        while (target && sourceSets.indexOf(target.origin!) < 0 && target.reference !== null && !seen.has(target.reference)) {
+            seen.add(target.reference);
+            target = byPath.get(target.reference);
+        }
+        if (target && sourceSets.indexOf(target.origin!) >= 0) {
+            const destination = tokenDestination(target);
+            if (destination) {
+                aliases[name] = { collection: target.origin, category: destination.category, path: destination.path };
+            }
+        }
+    });
+
+    return { name: theme.name, tokens, aliases };
+}
+
+// ─── Value Normalization ─────────────────────────────────────────────────────
+
+/** Map Tokens Studio types and composite shapes onto their DTCG equivalents. */
+function normalizeToken(token: DesignToken, origin: string): DesignToken {
+    const mapped = token.type ? TYPE_MAP[token.type] : undefined;
+    let value = token.value;
+
+    if (token.type === 'boxShadow') {
+        value = Array.isArray(value) ? value.map(toDtcgShadow) : toDtcgShadow(value);
+    }
+
+    return {
+        path: token.path,
+        type: mapped ? mapped.type : token.type,
+        value,
+        origin,
+        categoryHint: mapped ? mapped.categoryHint : undefined,
+    };
+}
+
+function toDtcgShadow(layer: unknown): unknown {
+    if (!layer || typeof layer !== 'object') return layer;
+    const shadow = layer as Record<string, unknown>;
+    return {
+        color: shadow.color,
+        offsetX: shadow.x,
+        offsetY: shadow.y,
+        blur: shadow.blur,
+        spread: shadow.spread,
+        inset: shadow.type === 'innerShadow',
+    };
+}
+
+/**
+ * Convert the percentages Tokens Studio allows into the units the token set
+ * expects: line heights become ratios, letter spacing becomes px, opacity
+ * becomes 0-1.
+ */
+function normalizeResolved(token: ResolvedDesignToken): ResolvedDesignToken {
+    if (token.type === 'typography' && token.resolved && typeof token.resolved === 'object') {
+        const typo = { ...(token.resolved as Record<string, unknown>) };
+        const fontSize = toPx(typo.fontSize);
+        const lineHeight = percentage(typo.lineHeight);
+        if (lineHeight !== null) typo.lineHeight = lineHeight;
+        if (typo.lineHeight === 'AUTO') delete typo.lineHeight;
+        const letterSpacing = percentage(typo.letterSpacing);
+        if (letterSpacing !== null && fontSize !== null) typo.letterSpacing = letterSpacing * fontSize;
+        return { ...token, resolved: typo };
+    }
+
+    if (token.categoryHint === 'leading' || token.categoryHint === 'opacity') {
+        const ratio = percentage(token.resolved);
+        if (ratio !== null) return { ...token, resolved: ratio };
+        if (typeof token.resolved === 'string' && !isNaN(parseFloat(token.resolved))) {
+            return { ...token, resolved: parseFloat(token.resolved) };
+        }
+    }
+
+    return token;
+}
+
+/** "150%" → 1.5; null for anything that isn't a percentage. */
+function percentage(value: unknown): number | null {
+    if (typeof value !== 'string') return null;
+    const match = value.trim().match(/^(-?[\d.]+)%$/);
+    return match ? parseFloat(match[1]) / 100 : null;
+}
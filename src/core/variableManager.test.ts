@@ -0,0 +1,35 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { findOrCreateStyle, openImportSession } from './variableManager';
+
+const style = (id: string, name: string) => ({ id, name }) as TextStyle;
+
+describe('import session styles', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('indexes styles by name, the first of several same-named styles winning', async () => {
+        vi.stubGlobal('figma', {
+            getLocalTextStylesAsync: async () => [style('S:1', 'text/sm'), style('S:2', 'text/sm'), style('S:3', 'text/base')],
+            getLocalEffectStylesAsync: async () => [],
+            getLocalGridStylesAsync: async () => [],
+            variables: {
+                getLocalVariableCollectionsAsync: async () => [],
+                getLocalVariablesAsync: async () => [],
+            },
+        });
+        const session = await openImportSession();
+        expect(session.textStyles.get('text/sm')!.id).toBe('S:1');
+        expect(session.textStyles.size).toBe(2);
+    });
+
+    it('creates a missing style once, then finds it', () => {
+        const styles = new Map([['text/sm', style('S:1', 'text/sm')]]);
+        const create = vi.fn(() => style('S:2', ''));
+
+        expect(findOrCreateStyle(styles, 'text/sm', create).id).toBe('S:1');
+        expect(findOrCreateStyle(styles, 'text/lg', create)).toMatchObject({ id: 'S:2', name: 'text/lg' });
+        expect(findOrCreateStyle(styles, 'text/lg', create).id).toBe('S:2');
+        expect(create).toHaveBeenCalledTimes(1);
+    });
+});
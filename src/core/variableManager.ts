@@ -1,6 +1,8 @@
 // ─── Figma Variable Manager ──────────────────────────────────────────────────
 // Handles creation and management of Figma Variable Collections, Variables,
-// and alias resolution between Primitives and Theme collections.
+// and alias resolution between Primitives and Theme collections. Lookups go
+// through an import session, which loads the file's collections, variables
+// and styles once and keeps its index current as the import creates more.
 
 import type { FigmaColor } from './colorUtils';
 import { colorsMatch } from './colorUtils';
@@ -17,14 +19,81 @@ export interface VariableEntry {
     collection: VariableCollection;
 }
 
+export interface ImportSession {
+    /** Local collections by name */
+    collections: Map<string, VariableCollection>;
+    /** Local variables by collection ID, then by name */
+    variables: Map<string, Map<string, Variable>>;
+    /** Local styles by name, for the text, effect and grid styles an import writes */
+    textStyles: Map<string, TextStyle>;
+    effectStyles: Map<string, EffectStyle>;
+    gridStyles: Map<string, GridStyle>;
+}
+
+// ─── Import Session ──────────────────────────────────────────────────────────
+
+/**
+ * Load every local collection, variable and style into name indexes.
+ * Everything created through the session is added to them, so one session
+ * serves every job of an import.
+ */
+export async function openImportSession(): Promise<ImportSession> {
+    const session: ImportSession = {
+        collections: new Map(),
+        variables: new Map(),
+        textStyles: indexStyles(await figma.getLocalTextStylesAsync()),
+        effectStyles: indexStyles(await figma.getLocalEffectStylesAsync()),
+        gridStyles: indexStyles(await figma.getLocalGridStylesAsync()),
+    };
+    for (const collection of await figma.variables.getLocalVariableCollectionsAsync()) {
+        session.collections.set(collection.name, collection);
+        session.variables.set(collection.id, new Map());
+    }
+    for (const variable of await figma.variables.getLocalVariablesAsync()) {
+        indexVariable(session, variable);
+    }
+    return session;
+}
+
+function indexStyles<T extends BaseStyle>(styles: T[]): Map<string, T> {
+    const byName = new Map<string, T>();
+    for (const style of styles) {
+        // The first of several same-named styles wins, as a name search would find it
+        if (!byName.has(style.name)) byName.set(style.name, style);
+    }
+    return byName;
+}
+
+/**
+ * Find a style by name in one of the session's indexes, or create it with
+ * `create` and add it.
+ */
+export function findOrCreateStyle<T extends BaseStyle>(styles: Map<string, T>, name: string, create: () => T): T {
+    let style = styles.get(name);
+    if (!style) {
+        style = create();
+        style.name = name;
+        styles.set(name, style);
+    }
+    return style;
+}
+
+function indexVariable(session: ImportSession, variable: Variable): void {
+    let byName = session.variables.get(variable.variableCollectionId);
+    if (!byName) {
+        byName = new Map();
+        session.variables.set(variable.variableCollectionId, byName);
+    }
+    byName.set(variable.name, variable);
+}
+
 // ─── Collection Management ───────────────────────────────────────────────────
 
 /**
  * Find an existing collection by name or create a new one.
  */
-export async function findOrCreateCollection(name: string): Promise<CollectionInfo> {
-    const collections = await figma.variables.getLocalVariableCollectionsAsync();
-    const existing = collections.find((c: VariableCollection) => c.name === name);
+export function findOrCreateCollection(session: ImportSession, name: string): CollectionInfo {
+    const existing = session.collections.get(name);
 
     if (existing) {
         const modeIds: Record<string, string> = {};
@@ -35,6 +104,8 @@ export async function findOrCreateCollection(name: string): Promise<CollectionIn
     }
 
     const collection = figma.variables.createVariableCollection(name);
+    session.collections.set(name, collection);
+    session.variables.set(collection.id, new Map());
     const modeIds: Record<string, string> = {};
     for (const mode of collection.modes) {
         modeIds[mode.name] = mode.modeId;
@@ -80,30 +151,51 @@ export function ensureModes(
 
 /**
  * Find an existing variable by name in a collection, or create a new one.
+ * Throws when the existing variable has another type: Figma can't change a
+ * variable's type, and a second variable with the same name would leave
+ * layers bound to the first.
  */
-export async function findOrCreateVariable(
+export function findOrCreateVariable(
+    session: ImportSession,
     collection: VariableCollection,
     name: string,
     type: VariableResolvedDataType
-): Promise<Variable> {
-    const allVars = await figma.variables.getLocalVariablesAsync(type);
-    const existing = allVars.find((v: Variable) => v.name === name && v.variableCollectionId === collection.id);
+): Variable {
+    const byName = session.variables.get(collection.id);
+    const existing = byName && byName.get(name);
 
-    if (existing) return existing;
+    if (existing) {
+        if (existing.resolvedType === type) return existing;
+        throw new Error(describeTypeChange(collection.name, name, existing.resolvedType, type));
+    }
 
-    return figma.variables.createVariable(name, collection, type);
+    const variable = figma.variables.createVariable(name, collection, type);
+    indexVariable(session, variable);
+    return variable;
+}
+
+/** Why a variable can't be imported over one of another type. */
+export function describeTypeChange(
+    collectionName: string,
+    name: string,
+    existingType: VariableResolvedDataType,
+    type: VariableResolvedDataType
+): string {
+    return `${collectionName} / ${name} is a ${existingType.toLowerCase()} variable, ` +
+        `but the source has a ${type.toLowerCase()} value for it. Rename or delete the variable, then import again.`;
 }
 
 /**
  * Create a color variable and set its value for a given mode.
  */
-export async function setColorVariable(
+export function setColorVariable(
+    session: ImportSession,
     collection: VariableCollection,
     modeId: string,
     name: string,
     color: FigmaColor
-): Promise<Variable> {
-    const variable = await findOrCreateVariable(collection, name, 'COLOR');
+): Variable {
+    const variable = findOrCreateVariable(session, collection, name, 'COLOR');
     variable.setValueForMode(modeId, color);
     return variable;
 }
@@ -111,13 +203,14 @@ export async function setColorVariable(
 /**
  * Create a float variable and set its value for a given mode.
  */
-export async function setFloatVariable(
+export function setFloatVariable(
+    session: ImportSession,
     collection: VariableCollection,
     modeId: string,
     name: string,
     value: number
-): Promise<Variable> {
-    const variable = await findOrCreateVariable(collection, name, 'FLOAT');
+): Variable {
+    const variable = findOrCreateVariable(session, collection, name, 'FLOAT');
     variable.setValueForMode(modeId, value);
     return variable;
 }
@@ -125,13 +218,14 @@ export async function setFloatVariable(
 /**
  * Create a string variable and set its value for a given mode.
  */
-export async function setStringVariable(
+export function setStringVariable(
+    session: ImportSession,
     collection: VariableCollection,
     modeId: string,
     name: string,
     value: string
-): Promise<Variable> {
-    const variable = await findOrCreateVariable(collection, name, 'STRING');
+): Variable {
+    const variable = findOrCreateVariable(session, collection, name, 'STRING');
     variable.setValueForMode(modeId, value);
     return variable;
 }
@@ -200,7 +294,17 @@ export function resolveFloatAlias(
 /**
  * Get all local variables from a specific collection.
  */
-export async function getVariablesInCollection(collectionId: string): Promise<Variable[]> {
-    const allVars = await figma.variables.getLocalVariablesAsync();
-    return allVars.filter((v: Variable) => v.variableCollectionId === collectionId);
+export function getVariablesInCollection(session: ImportSession, collectionId: string): Variable[] {
+    const byName = session.variables.get(collectionId);
+    return byName ? Array.from(byName.values()) : [];
+}
+
+/**
+ * Find a variable by name in the collection with the given name.
+ * Returns null when either doesn't exist.
+ */
+export function findVariableByName(session: ImportSession, collectionName: string, name: string): Variable | null {
+    const collection = session.collections.get(collectionName);
+    const byName = collection && session.variables.get(collection.id);
+    return (byName && byName.get(name)) || null;
 }
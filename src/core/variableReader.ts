@@ -0,0 +1,229 @@
+// ─── Figma Variable Reader ───────────────────────────────────────────────────
+// Reads local variable collections and StyleForge's text and effect styles
+// into plain data for the exporters. Values are keyed by mode name; aliases
+// keep the target's collection and name plus the value they resolve to, so
+// exporters can emit either.
+
+import type { FigmaColor } from './colorUtils';
+import type { ShadowLayer } from './parser';
+import { toFontWeight } from './dtcgParser';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type ResolvedValue =
+    | { kind: 'color'; color: FigmaColor }
+    | { kind: 'number'; value: number }
+    | { kind: 'string'; value: string }
+    | { kind: 'boolean'; value: boolean };
+
+export type ExportValue =
+    | ResolvedValue
+    | { kind: 'alias'; collection: string; name: string; resolved: ResolvedValue | null };
+
+export interface ExportVariable {
+    id: string;
+    name: string;
+    type: VariableResolvedDataType;
+    scopes: VariableScope[];
+    description: string;
+    /** Value per mode name */
+    values: Record<string, ExportValue>;
+}
+
+export interface ExportCollection {
+    name: string;
+    /** Mode names; the first one is the default mode */
+    modes: string[];
+    variables: ExportVariable[];
+}
+
+/** A text style; `variables` names the variable bound to each field. */
+export interface ExportTextStyle {
+    name: string;
+    fontFamily: string;
+    fontWeight: number | null;
+    /** px */
+    fontSize: number;
+    /** px, or null for Figma's automatic line height */
+    lineHeight: number | null;
+    /** px */
+    letterSpacing: number;
+    variables: Partial<Record<'fontFamily' | 'fontWeight' | 'fontSize' | 'lineHeight' | 'letterSpacing', string>>;
+}
+
+export interface ExportEffectStyle {
+    name: string;
+    shadows: ShadowLayer[];
+}
+
+export interface ExportStyles {
+    text: ExportTextStyle[];
+    effects: ExportEffectStyle[];
+}
+
+export interface CollectionSummary {
+    name: string;
+    modes: string[];
+    variableCount: number;
+}
+
+// ─── Reader ──────────────────────────────────────────────────────────────────
+
+/** Local variable collections, for the export picker. */
+export async function listCollections(): Promise<CollectionSummary[]> {
+    const collections = await figma.variables.getLocalVariableCollectionsAsync();
+    return collections.map(function (c: VariableCollection) {
+        return {
+            name: c.name,
+            modes: c.modes.map(function (m) { return m.name; }),
+            variableCount: c.variableIds.length,
+        };
+    });
+}
+
+/** Read every variable of the named collection, in collection order. */
+export async function readCollection(name: string): Promise<ExportCollection> {
+    const collections = await figma.variables.getLocalVariableCollectionsAsync();
+    const collection = collections.find(function (c: VariableCollection) { return c.name === name; });
+    if (!collection) {
+        throw new Error('No variable collection named "' + name + '" in this file.');
+    }
+
+    const variables: ExportVariable[] = [];
+    for (const id of collection.variableIds) {
+        const variable = await figma.variables.getVariableByIdAsync(id);
+        if (!variable) continue;
+
+        const values: Record<string, ExportValue> = {};
+        for (const mode of collection.modes) {
+            const value = await readVariableValue(variable.valuesByMode[mode.modeId], mode.name);
+            if (value) values[mode.name] = value;
+        }
+        variables.push({
+            id: variable.id,
+            name: variable.name,
+            type: variable.resolvedType,
+            scopes: variable.scopes,
+            description: variable.description,
+            values,
+        });
+    }
+
+    return {
+        name: collection.name,
+        modes: collection.modes.map(function (m) { return m.name; }),
+        variables,
+    };
+}
+
+/** Text styles named `text-*`, as `importPrimitives` creates them. */
+const TEXT_STYLE = /^text-[^/]+(\/|$)/;
+
+/** Shadow effect styles; blur styles are already exported as variables. */
+const SHADOW_STYLE = /^(drop-shadow|inset-shadow|text-shadow)\//;
+
+/** Read the text and shadow styles StyleForge creates. */
+export async function readStyles(): Promise<ExportStyles> {
+    const text: ExportTextStyle[] = [];
+    for (const style of await figma.getLocalTextStylesAsync()) {
+        if (!TEXT_STYLE.test(style.name)) continue;
+
+        const bound = style.boundVariables || {};
+        const variables: ExportTextStyle['variables'] = {};
+        for (const field of ['fontFamily', 'fontWeight', 'fontSize', 'lineHeight', 'letterSpacing'] as const) {
+            const alias = bound[field];
+            const variable = alias ? await figma.variables.getVariableByIdAsync(alias.id) : null;
+            if (variable) variables[field] = variable.name;
+        }
+
+        text.push({
+            name: style.name,
+            fontFamily: style.fontName.family,
+            fontWeight: toFontWeight(style.fontName.style),
+            fontSize: style.fontSize,
+            lineHeight: style.lineHeight.unit === 'PIXELS' ? style.lineHeight.value
+                : style.lineHeight.unit === 'PERCENT' ? style.fontSize * style.lineHeight.value / 100
+                : null,
+            letterSpacing: style.letterSpacing.unit === 'PIXELS' ? style.letterSpacing.value
+                : style.fontSize * style.letterSpacing.value / 100,
+            variables,
+        });
+    }
+
+    const effects: ExportEffectStyle[] = [];
+    for (const style of await figma.getLocalEffectStylesAsync()) {
+        if (!SHADOW_STYLE.test(style.name)) continue;
+        const shadows: ShadowLayer[] = [];
+        for (const effect of style.effects) {
+            if (effect.type !== 'DROP_SHADOW' && effect.type !== 'INNER_SHADOW') continue;
+            shadows.push({
+                x: effect.offset.x,
+                y: effect.offset.y,
+                blur: effect.radius,
+                spread: effect.spread || 0,
+                color: { r: effect.color.r, g: effect.color.g, b: effect.color.b, a: effect.color.a },
+                type: effect.type,
+            });
+        }
+        if (shadows.length > 0) effects.push({ name: style.name, shadows });
+    }
+
+    return { text, effects };
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+/** A raw mode value as exported; aliases resolve through the mode with this name. */
+export async function readVariableValue(raw: VariableValue | undefined, modeName: string): Promise<ExportValue | null> {
+    if (raw === undefined) return null;
+
+    if (isAlias(raw)) {
+        const target = await figma.variables.getVariableByIdAsync(raw.id);
+        if (!target) return null;
+        const targetCollection = await figma.variables.getVariableCollectionByIdAsync(target.variableCollectionId);
+        return {
+            kind: 'alias',
+            collection: targetCollection ? targetCollection.name : '',
+            name: target.name,
+            resolved: await resolveAlias(target, targetCollection, modeName, 0),
+        };
+    }
+    return toResolved(raw);
+}
+
+/**
+ * Follow an alias chain to a concrete value. The target collection's mode
+ * with the same name is used when it has one, otherwise its default mode.
+ */
+async function resolveAlias(
+    variable: Variable,
+    collection: VariableCollection | null,
+    modeName: string,
+    depth: number
+): Promise<ResolvedValue | null> {
+    if (!collection || depth > 10) return null;
+
+    const mode = collection.modes.find(function (m) { return m.name === modeName; }) || collection.modes[0];
+    const raw = variable.valuesByMode[mode.modeId];
+    if (raw === undefined) return null;
+    if (!isAlias(raw)) return toResolved(raw);
+
+    const next = await figma.variables.getVariableByIdAsync(raw.id);
+    if (!next) return null;
+    const nextCollection = await figma.variables.getVariableCollectionByIdAsync(next.variableCollectionId);
+    return resolveAlias(next, nextCollection, modeName, depth + 1);
+}
+
+function toResolved(raw: VariableValue): ResolvedValue | null {
+    if (typeof raw === 'number') return { kind: 'number', value: raw };
+    if (typeof raw === 'string') return { kind: 'string', value: raw };
+    if (typeof raw === 'boolean') return { kind: 'boolean', value: raw };
+    if (raw && typeof raw === 'object' && 'r' in raw) {
+        return { kind: 'color', color: { r: raw.r, g: raw.g, b: raw.b, a: 'a' in raw ? raw.a : 1 } };
+    }
+    return null;
+}
+
+function isAlias(raw: VariableValue): raw is VariableAlias {
+    return typeof raw === 'object' && raw !== null && 'type' in raw && raw.type === 'VARIABLE_ALIAS';
+}
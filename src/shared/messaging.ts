@@ -2,12 +2,25 @@
 // Typed messages between UI iframe and Figma main thread.
 
 import type { TokenCategory } from '../adapters/types';
-import type { ImportProgress } from '../core/figmaSync';
+import type { ImportProgress, PhaseTiming } from '../core/figmaSync';
+import type { CollectionSummary } from '../core/variableReader';
+import type { ImportPlan } from '../core/importPlan';
+import type { PruneMode } from '../core/prune';
+import type { VersionStatus } from '../core/sourceVersions';
+import type { SnapshotSummary } from '../core/snapshot';
+import type { ConflictResolution } from '../core/conflicts';
+import type { RenameMap, VariableRename } from '../core/renames';
 
 // ─── UI → Main Thread ────────────────────────────────────────────────────────
 
 export type UIMessage =
+    | { type: 'PLAN_IMPORT'; payload: ImportPayload }
     | { type: 'IMPORT_TOKENS'; payload: ImportPayload }
+    | { type: 'LIST_COLLECTIONS' }
+    | { type: 'EXPORT_TOKENS'; payload: ExportPayload }
+    | { type: 'CHECK_VERSION'; adapterId: string }
+    | { type: 'CHECK_SNAPSHOT' }
+    | { type: 'ROLLBACK_IMPORT' }
     | { type: 'CLOSE' };
 
 export interface ImportPayload {
@@ -16,14 +29,56 @@ export interface ImportPayload {
     categories: TokenCategory[];
     /** For theme adapters: the primitives collection name for alias resolution */
     primitiveCollectionName?: string;
+    /** User-supplied source files, keyed by adapter ID */
+    sources?: Record<string, string>;
+    /**
+     * Tag or commit to fetch each versioned adapter's source at, keyed by
+     * adapter ID; empty follows `main`. Pinned in the document on import.
+     */
+    refs?: Record<string, string>;
+    /** Mode renames and exclusions for theme adapters, keyed by adapter ID */
+    modeSettings?: Record<string, ModeSettings>;
+    /** Alias target adapter ID per theme adapter, when not Tailwind CSS */
+    aliasTargets?: Record<string, string>;
+    /** Orphaned variables and styles from the plan to prune after importing */
+    prune?: { mode: PruneMode; ids: string[] };
+    /** How to treat variables edited by hand since the last import; overwritten when absent */
+    conflicts?: ConflictResolution;
+    /** User-supplied renames the plan applies before detecting its own */
+    renameMap?: RenameMap;
+    /** Renames from the plan to apply in place before importing */
+    renames?: VariableRename[];
 }
 
+export type ExportFormat = 'tailwind' | 'shadcn' | 'dtcg';
+
+export interface ExportPayload {
+    format: ExportFormat;
+    /** Local variable collection to export */
+    collectionName: string;
+    /** shadcn format: also write the `@theme inline` mapping block */
+    themeInline?: boolean;
+    /** DTCG format: also write StyleForge's text and shadow styles */
+    includeStyles?: boolean;
+}
+
+/** Per-mode choices, keyed by the mode name the adapter detected. */
+export type ModeSettings = Record<string, { name: string; excluded: boolean }>;
+
 // ─── Main Thread → UI ────────────────────────────────────────────────────────
 
 export type MainMessage =
+    | { type: 'IMPORT_PLAN'; plan: ImportPlan }
     | { type: 'IMPORT_PROGRESS'; progress: ImportProgress }
-    | { type: 'IMPORT_COMPLETE'; totalCreated: number }
-    | { type: 'IMPORT_ERROR'; error: string };
+    | { type: 'IMPORT_COMPLETE'; totalCreated: number; warnings?: string[]; pruned?: number; kept?: number; renamed?: number; timings?: PhaseTiming[] }
+    | { type: 'IMPORT_ERROR'; error: string }
+    | { type: 'COLLECTIONS'; collections: CollectionSummary[] }
+    | { type: 'EXPORT_COMPLETE'; output: string; filename: string }
+    | { type: 'EXPORT_ERROR'; error: string }
+    | { type: 'VERSION_STATUS'; status: VersionStatus }
+    | { type: 'SNAPSHOT_STATUS'; snapshot: SnapshotSummary | null }
+    | { type: 'ROLLBACK_COMPLETE'; restored: number; removed: number; warnings: string[] }
+    | { type: 'ROLLBACK_ERROR'; error: string };
 
 // ─── Helpers ─────────────────────────────────────────────────────────────────
 
@@ -3,7 +3,11 @@ import { useStore } from './store';
 import Dashboard from './components/Dashboard';
 import ConfigPanel from './components/ConfigPanel';
 import ImportProgress from './components/ImportProgress';
-import type { MainMessage, UIMessage } from '../shared/messaging';
+import ExportPanel from './components/ExportPanel';
+import ImportPlanView from './components/ImportPlanView';
+import { modeSettingsFor } from './libraryData';
+import { parseRenameMap } from '../core/renames';
+import type { ImportPayload, MainMessage, ModeSettings, UIMessage } from '../shared/messaging';
 
 export default function App() {
     const {
@@ -12,9 +16,29 @@ export default function App() {
         selectedLibraryIds,
         selectedCategories,
         collectionName,
+        sources,
+        sourceRefs,
+        modeSettings,
+        aliasTargets,
+        importPlan,
+        pruneMode,
+        skippedPrunes,
+        conflictPolicy,
+        conflictChoices,
+        renameMap,
+        skippedRenames,
+        operation,
         setError,
         setImportProgress,
         setSuccessMessage,
+        setWarnings,
+        setTimings,
+        setCollections,
+        setExportOutput,
+        setImportPlan,
+        setVersionStatus,
+        setSnapshot,
+        setOperation,
         reset,
     } = useStore();
 
@@ -25,6 +49,10 @@ export default function App() {
             if (!msg) return;
 
             switch (msg.type) {
+                case 'IMPORT_PLAN':
+                    setImportPlan(msg.plan);
+                    break;
+
                 case 'IMPORT_PROGRESS': {
                     const { current, total, phase, message } = msg.progress;
                     const pct = total > 0 ? Math.round((current / total) * 100) : 0;
@@ -33,20 +61,57 @@ export default function App() {
                 }
 
                 case 'IMPORT_COMPLETE':
+                    setWarnings(msg.warnings || []);
+                    setTimings(msg.timings || []);
                     setSuccessMessage(
-                        `Successfully imported ${msg.totalCreated} tokens into your Figma file.`
+                        `Successfully imported ${msg.totalCreated} tokens into your Figma file.` +
+                        (msg.pruned ? ` Pruned ${msg.pruned} variables and styles no longer in the source.` : '') +
+                        (msg.kept ? ` Kept local edits to ${msg.kept} variables.` : '') +
+                        (msg.renamed ? ` Renamed ${msg.renamed} variables in place.` : '')
                     );
                     break;
 
                 case 'IMPORT_ERROR':
                     setError(msg.error);
                     break;
+
+                case 'COLLECTIONS':
+                    setCollections(msg.collections);
+                    break;
+
+                case 'EXPORT_COMPLETE':
+                    setExportOutput({ output: msg.output, filename: msg.filename });
+                    break;
+
+                case 'EXPORT_ERROR':
+                    setError(msg.error);
+                    break;
+
+                case 'VERSION_STATUS':
+                    setVersionStatus(msg.status);
+                    break;
+
+                case 'SNAPSHOT_STATUS':
+                    setSnapshot(msg.snapshot);
+                    break;
+
+                case 'ROLLBACK_COMPLETE':
+                    setWarnings(msg.warnings);
+                    setSuccessMessage(
+                        `Restored ${msg.restored} variables and styles` +
+                        (msg.removed ? ` and removed ${msg.removed} the import created.` : '.')
+                    );
+                    break;
+
+                case 'ROLLBACK_ERROR':
+                    setError(msg.error);
+                    break;
             }
         };
 
         window.addEventListener('message', handler);
         return () => window.removeEventListener('message', handler);
-    }, [setError, setImportProgress, setSuccessMessage]);
+    }, [setError, setImportProgress, setSuccessMessage, setWarnings, setTimings, setCollections, setExportOutput, setImportPlan, setVersionStatus, setSnapshot]);
 
     // ── Determine header title ──
     let headerTitle = 'StyleForge';
@@ -55,36 +120,95 @@ export default function App() {
     if (view === 'config') {
         headerTitle = 'Configure Import';
         showBack = true;
+    } else if (view === 'plan') {
+        headerTitle = 'Review Changes';
     } else if (view === 'importing') {
-        headerTitle = 'Importing';
+        headerTitle = operation === 'rollback' ? 'Rolling Back' : 'Importing';
+    } else if (view === 'export') {
+        headerTitle = 'Export';
+        showBack = true;
     }
 
     const handleBack = () => {
         if (view === 'config') {
             setView('dashboard');
+        } else if (view === 'export') {
+            setError(null);
+            setView('dashboard');
         }
     };
 
-    const handleImport = () => {
+    const buildPayload = (): ImportPayload => {
+        // Send the mode defaults the mode editor shows, not only the edits
+        const importModeSettings: Record<string, ModeSettings> = {};
+        for (const id of selectedLibraryIds) {
+            importModeSettings[id] = modeSettingsFor(id, sources[id] || '', modeSettings[id]);
+        }
+
+        return {
+            adapterIds: selectedLibraryIds,
+            collectionName: collectionName, // Will fallback to default in code.ts if empty (for themes)
+            categories: selectedCategories,
+            primitiveCollectionName: 'TailwindCSS',
+            sources: sources,
+            refs: sourceRefs,
+            modeSettings: importModeSettings,
+            aliasTargets: aliasTargets,
+            renameMap: parseRenameMap(renameMap),
+        };
+    };
+
+    // Work out what the import would change before writing anything
+    const handlePlan = () => {
         if (selectedLibraryIds.length === 0) return;
 
+        setView('plan');
+        setError(null);
+        setImportPlan(null);
+
+        const msg: UIMessage = { type: 'PLAN_IMPORT', payload: buildPayload() };
+        parent.postMessage({ pluginMessage: msg }, '*');
+    };
+
+    const handleImport = () => {
+        setOperation('import');
         setView('importing');
         setError(null);
         setImportProgress(0, 'Starting...', 'Fetching tokens from GitHub...');
 
-        const msg: UIMessage = {
-            type: 'IMPORT_TOKENS',
-            payload: {
-                adapterIds: selectedLibraryIds,
-                collectionName: collectionName, // Will fallback to default in code.ts if empty (for themes)
-                categories: selectedCategories,
-                primitiveCollectionName: 'TailwindCSS',
-            },
-        };
+        const payload = buildPayload();
+        if (pruneMode !== 'off' && importPlan) {
+            const ids = importPlan.entries
+                .filter((entry) => entry.action === 'orphan' && entry.id && !skippedPrunes[entry.id])
+                .map((entry) => entry.id as string);
+            payload.prune = { mode: pruneMode, ids };
+        }
+        const keep = conflictPolicy === 'ask' && importPlan
+            ? importPlan.conflicts.filter((conflict) => conflictChoices[conflict.id] !== 'overwrite').map((conflict) => conflict.id)
+            : [];
+        payload.conflicts = { policy: conflictPolicy, keep };
+        if (importPlan) payload.renames = importPlan.renames.filter((rename) => !skippedRenames[rename.id]);
 
+        const msg: UIMessage = { type: 'IMPORT_TOKENS', payload };
         parent.postMessage({ pluginMessage: msg }, '*');
     };
 
+    const handleRollback = () => {
+        setOperation('rollback');
+        setView('importing');
+        setError(null);
+        setImportProgress(0, 'Starting...', 'Restoring the snapshot...');
+
+        const msg: UIMessage = { type: 'ROLLBACK_IMPORT' };
+        parent.postMessage({ pluginMessage: msg }, '*');
+    };
+
+    const handleCancelPlan = () => {
+        setImportPlan(null);
+        setError(null);
+        setView('dashboard');
+    };
+
     return (
         <div className="app">
             {/* ── Header ── */}
@@ -103,11 +227,15 @@ export default function App() {
 
             {/* ── Content ── */}
             <div className="content">
-                {view === 'dashboard' && <Dashboard onImport={handleImport} />}
+                {view === 'dashboard' && <Dashboard onImport={handlePlan} onRollback={handleRollback} />}
 
-                {view === 'config' && <ConfigPanel onImport={handleImport} />}
+                {view === 'config' && <ConfigPanel onImport={handlePlan} />}
+
+                {view === 'plan' && <ImportPlanView onConfirm={handleImport} onCancel={handleCancelPlan} onReplan={handlePlan} />}
 
                 {view === 'importing' && <ImportProgress />}
+
+                {view === 'export' && <ExportPanel />}
             </div>
         </div>
     );
@@ -0,0 +1,29 @@
+import React from 'react';
+
+interface Props {
+    /** Primitive libraries the theme can alias to */
+    targets: { id: string; name: string }[];
+    value: string;
+    onChange: (targetId: string) => void;
+}
+
+export default function AliasTargetPicker({ targets, value, onChange }: Props) {
+    if (targets.length < 2) return null;
+
+    return (
+        <div className="alias-target">
+            <span className="config-label">Alias to</span>
+            <select
+                className="config-input alias-target-select"
+                value={value}
+                onChange={(e) => onChange(e.target.value)}
+            >
+                {targets.map((target) => (
+                    <option key={target.id} value={target.id}>
+                        {target.name}
+                    </option>
+                ))}
+            </select>
+        </div>
+    );
+}
@@ -16,6 +16,10 @@ const CATEGORY_LABELS: Record<TokenCategory, string> = {
     fontWeights: 'Font Weights',
     tracking: 'Tracking',
     leading: 'Leading',
+    maxWidth: 'Max Width',
+    borderWidth: 'Border Width',
+    skew: 'Skew',
+    easing: 'Easing',
 };
 
 interface Props {
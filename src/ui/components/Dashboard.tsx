@@ -1,19 +1,42 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { useStore } from '../store';
 import LibraryCard from './LibraryCard';
-import { LIBRARIES } from '../libraryData';
+import SourceInput from './SourceInput';
+import ModeEditor from './ModeEditor';
+import AliasTargetPicker from './AliasTargetPicker';
+import VersionPicker from './VersionPicker';
+import { LIBRARIES, modeSettingsFor } from '../libraryData';
+import type { UIMessage } from '../../shared/messaging';
 
 interface DashboardProps {
     onImport: () => void;
+    onRollback: () => void;
 }
 
-export default function Dashboard({ onImport }: DashboardProps) {
+export default function Dashboard({ onImport, onRollback }: DashboardProps) {
     const {
         selectedLibraryIds,
         toggleLibrary,
         setView,
-        setCollectionName
+        setCollectionName,
+        sources,
+        setSource,
+        sourceRefs,
+        setSourceRef,
+        versions,
+        modeSettings,
+        setModeSetting,
+        aliasTargets,
+        setAliasTarget,
+        snapshot,
     } = useStore();
+    const [confirmRollback, setConfirmRollback] = useState(false);
+
+    // Ask the main thread whether the last import can be rolled back
+    useEffect(() => {
+        const msg: UIMessage = { type: 'CHECK_SNAPSHOT' };
+        parent.postMessage({ pluginMessage: msg }, '*');
+    }, []);
 
     const handleStartImport = () => {
         // Find the "primary" adapter for default collection name
@@ -32,6 +55,14 @@ export default function Dashboard({ onImport }: DashboardProps) {
 
     const tailwindLib = LIBRARIES.find(l => l.id === 'tailwindcss');
     const themeLibs = LIBRARIES.filter(l => l.id !== 'tailwindcss');
+    const aliasTargetLibs = LIBRARIES.filter(l => 'aliasTarget' in l && l.aliasTarget);
+
+    // Libraries that import the user's own file can't start without it
+    const missingSource = LIBRARIES.some(lib =>
+        selectedLibraryIds.includes(lib.id) &&
+        lib.source?.required &&
+        !(sources[lib.id] || '').trim()
+    );
 
     return (
         <div className="dashboard-container">
@@ -55,22 +86,63 @@ export default function Dashboard({ onImport }: DashboardProps) {
                         locked={true}
                     />
                 )}
+                {tailwindLib?.source && (
+                    <SourceInput
+                        label={tailwindLib.source.label}
+                        format={tailwindLib.source.format}
+                        placeholder={tailwindLib.source.placeholder}
+                        value={sources[tailwindLib.id] || ''}
+                        onChange={(value) => setSource(tailwindLib.id, value)}
+                    />
+                )}
+                {tailwindLib && (
+                    <VersionPicker
+                        adapterId={tailwindLib.id}
+                        status={versions[tailwindLib.id]}
+                        value={sourceRefs[tailwindLib.id] || ''}
+                        onChange={(ref) => setSourceRef(tailwindLib.id, ref)}
+                    />
+                )}
 
                 <div style={{ marginTop: '16px', marginBottom: '8px', fontSize: '13px', color: 'var(--sf-text-secondary)', lineHeight: 1.4 }}>
                     You can also select additional theme tokens to generate variable modes:
                 </div>
 
                 {themeLibs.map((lib) => (
-                    <LibraryCard
-                        key={lib.id}
-                        id={lib.id}
-                        name={lib.name}
-                        description={lib.description}
-                        iconSrc={lib.iconSrc}
-                        selected={selectedLibraryIds.includes(lib.id)}
-                        onToggle={() => toggleLibrary(lib.id)}
-                        locked={false}
-                    />
+                    <React.Fragment key={lib.id}>
+                        <LibraryCard
+                            id={lib.id}
+                            name={lib.name}
+                            description={lib.description}
+                            iconSrc={lib.iconSrc}
+                            selected={selectedLibraryIds.includes(lib.id)}
+                            onToggle={() => toggleLibrary(lib.id)}
+                            locked={false}
+                        />
+                        {lib.source && selectedLibraryIds.includes(lib.id) && (
+                            <SourceInput
+                                label={lib.source.label}
+                                format={lib.source.format}
+                                placeholder={lib.source.placeholder}
+                                value={sources[lib.id] || ''}
+                                onChange={(value) => setSource(lib.id, value)}
+                            />
+                        )}
+                        {lib.dependencies.includes('tailwindcss') && selectedLibraryIds.includes(lib.id) && (
+                            <AliasTargetPicker
+                                targets={aliasTargetLibs}
+                                value={aliasTargets[lib.id] || 'tailwindcss'}
+                                onChange={(targetId) => setAliasTarget(lib.id, targetId)}
+                            />
+                        )}
+                        {lib.detectModes && selectedLibraryIds.includes(lib.id) && (
+                            <ModeEditor
+                                modes={lib.detectModes(sources[lib.id] || '')}
+                                settings={modeSettingsFor(lib.id, sources[lib.id] || '', modeSettings[lib.id])}
+                                onChange={(mode, setting) => setModeSetting(lib.id, mode, setting)}
+                            />
+                        )}
+                    </React.Fragment>
                 ))}
             </div>
 
@@ -78,10 +150,43 @@ export default function Dashboard({ onImport }: DashboardProps) {
                 <button
                     className="btn btn-primary btn-full"
                     onClick={handleStartImport}
-                    disabled={selectedLibraryIds.length === 0}
+                    disabled={selectedLibraryIds.length === 0 || missingSource}
                 >
                     Start Import
                 </button>
+                <button
+                    className="btn btn-secondary btn-full"
+                    onClick={() => setView('export')}
+                    style={{ marginTop: 8 }}
+                >
+                    Export to Code
+                </button>
+                {snapshot && !confirmRollback && (
+                    <button
+                        className="btn btn-secondary btn-full"
+                        onClick={() => setConfirmRollback(true)}
+                        style={{ marginTop: 8 }}
+                    >
+                        Roll back last import
+                    </button>
+                )}
+                {snapshot && confirmRollback && (
+                    <div className="rollback-confirm">
+                        <span>
+                            Restore {snapshot.collections.join(', ') || 'no collections'} and {snapshot.styleCount} styles
+                            to how they were before the import on {new Date(snapshot.takenAt).toLocaleString()}?
+                            Variables and styles that import created are removed.
+                        </span>
+                        <div className="rollback-actions">
+                            <button className="btn btn-secondary" onClick={() => setConfirmRollback(false)}>
+                                Cancel
+                            </button>
+                            <button className="btn btn-primary" onClick={onRollback}>
+                                Roll back
+                            </button>
+                        </div>
+                    </div>
+                )}
             </footer>
         </div>
     );
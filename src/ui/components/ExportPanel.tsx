@@ -0,0 +1,170 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useStore } from '../store';
+import type { ExportFormat, UIMessage } from '../../shared/messaging';
+
+const FORMATS: { id: ExportFormat; name: string }[] = [
+    { id: 'tailwind', name: 'Tailwind v4 @theme' },
+    { id: 'shadcn', name: 'shadcn globals.css' },
+    { id: 'dtcg', name: 'DTCG JSON (Style Dictionary)' },
+];
+
+export default function ExportPanel() {
+    const {
+        collections,
+        exportCollectionName,
+        setExportCollectionName,
+        exportFormat,
+        setExportFormat,
+        exportThemeInline,
+        setExportThemeInline,
+        exportIncludeStyles,
+        setExportIncludeStyles,
+        exportOutput,
+        setExportOutput,
+        error,
+        setError,
+    } = useStore();
+    const [copied, setCopied] = useState(false);
+    const outputRef = useRef<HTMLTextAreaElement>(null);
+
+    // Ask the main thread which collections the file has
+    useEffect(() => {
+        const msg: UIMessage = { type: 'LIST_COLLECTIONS' };
+        parent.postMessage({ pluginMessage: msg }, '*');
+    }, []);
+
+    // Default to the first collection once they arrive
+    const collectionName = exportCollectionName || (collections[0] ? collections[0].name : '');
+
+    const handleExport = () => {
+        setError(null);
+        setExportOutput(null);
+        setCopied(false);
+        const msg: UIMessage = {
+            type: 'EXPORT_TOKENS',
+            payload: {
+                format: exportFormat,
+                collectionName,
+                themeInline: exportThemeInline,
+                includeStyles: exportIncludeStyles,
+            },
+        };
+        parent.postMessage({ pluginMessage: msg }, '*');
+    };
+
+    // The Clipboard API is blocked in the plugin iframe, so fall back to a selection copy
+    const handleCopy = () => {
+        if (!exportOutput || !outputRef.current) return;
+        outputRef.current.select();
+        const done = () => setCopied(true);
+        if (navigator.clipboard) {
+            navigator.clipboard.writeText(exportOutput.output).then(done, () => {
+                if (document.execCommand('copy')) done();
+            });
+        } else if (document.execCommand('copy')) {
+            done();
+        }
+    };
+
+    const handleDownload = () => {
+        if (!exportOutput) return;
+        const url = URL.createObjectURL(new Blob([exportOutput.output], { type: 'text/plain' }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = exportOutput.filename;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    return (
+        <div className="export-panel">
+            <div className="config-section">
+                <div className="config-label">Collection</div>
+                <select
+                    className="config-input"
+                    value={collectionName}
+                    onChange={(e) => setExportCollectionName(e.target.value)}
+                    disabled={collections.length === 0}
+                >
+                    {collections.length === 0 && <option value="">No variable collections in this file</option>}
+                    {collections.map((collection) => (
+                        <option key={collection.name} value={collection.name}>
+                            {collection.name} ({collection.variableCount})
+                        </option>
+                    ))}
+                </select>
+            </div>
+
+            <div className="config-section">
+                <div className="config-label">Format</div>
+                <select
+                    className="config-input"
+                    value={exportFormat}
+                    onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+                >
+                    {FORMATS.map((format) => (
+                        <option key={format.id} value={format.id}>
+                            {format.name}
+                        </option>
+                    ))}
+                </select>
+            </div>
+
+            {exportFormat === 'shadcn' && (
+                <div className="config-section">
+                    <label className={`checkbox-item ${exportThemeInline ? 'checked' : ''}`}>
+                        <span className="checkbox-indicator">{exportThemeInline ? '✓' : ''}</span>
+                        <input
+                            type="checkbox"
+                            checked={exportThemeInline}
+                            onChange={() => setExportThemeInline(!exportThemeInline)}
+                            style={{ display: 'none' }}
+                        />
+                        Include @theme inline block
+                    </label>
+                </div>
+            )}
+
+            {exportFormat === 'dtcg' && (
+                <div className="config-section">
+                    <label className={`checkbox-item ${exportIncludeStyles ? 'checked' : ''}`}>
+                        <span className="checkbox-indicator">{exportIncludeStyles ? '✓' : ''}</span>
+                        <input
+                            type="checkbox"
+                            checked={exportIncludeStyles}
+                            onChange={() => setExportIncludeStyles(!exportIncludeStyles)}
+                            style={{ display: 'none' }}
+                        />
+                        Include text and shadow styles
+                    </label>
+                </div>
+            )}
+
+            <button className="btn btn-primary" onClick={handleExport} disabled={!collectionName}>
+                Export
+            </button>
+
+            {error && <div className="export-error">{error}</div>}
+
+            {exportOutput && (
+                <div className="export-output">
+                    <textarea
+                        ref={outputRef}
+                        className="config-input source-textarea export-textarea"
+                        value={exportOutput.output}
+                        readOnly
+                        spellCheck={false}
+                    />
+                    <div className="export-actions">
+                        <button className="btn btn-secondary" onClick={handleCopy}>
+                            {copied ? 'Copied' : 'Copy'}
+                        </button>
+                        <button className="btn btn-secondary" onClick={handleDownload}>
+                            Download {exportOutput.filename}
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
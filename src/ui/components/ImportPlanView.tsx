@@ -0,0 +1,258 @@
+import React from 'react';
+import { useStore } from '../store';
+import type { PlanAction, PlanEntry } from '../../core/importPlan';
+
+interface Props {
+    onConfirm: () => void;
+    onCancel: () => void;
+    /** Plan again, e.g. after editing the rename map */
+    onReplan: () => void;
+}
+
+/** Sections in display order; unchanged entries are only counted. */
+const ACTIONS: { action: PlanAction; label: string }[] = [
+    { action: 'type-change', label: 'Can\'t import: type changed' },
+    { action: 'create', label: 'Create' },
+    { action: 'update', label: 'Update' },
+    { action: 'alias', label: 'Alias change' },
+    { action: 'orphan', label: 'No longer in source' },
+];
+
+/** Entries listed per section before the rest are summarised. */
+const MAX_LISTED = 100;
+
+export default function ImportPlanView({ onConfirm, onCancel, onReplan }: Props) {
+    const {
+        importPlan,
+        pruneMode,
+        setPruneMode,
+        skippedPrunes,
+        togglePrune,
+        conflictPolicy,
+        setConflictPolicy,
+        conflictChoices,
+        setConflictChoice,
+        renameMap,
+        setRenameMap,
+        skippedRenames,
+        toggleRename,
+        error,
+    } = useStore();
+
+    if (error) {
+        return (
+            <div className="result-container">
+                <div className="result-icon error">✕</div>
+                <div className="result-title">Couldn't Plan Import</div>
+                <div className="result-message">{error}</div>
+                <button className="btn btn-secondary" onClick={onCancel} style={{ marginTop: 8 }}>
+                    Back
+                </button>
+            </div>
+        );
+    }
+
+    if (!importPlan) {
+        return (
+            <div className="progress-container">
+                <div className="spinner" />
+                <div className="progress-phase">Comparing with this file...</div>
+                <div className="progress-message">Nothing is written until you confirm.</div>
+            </div>
+        );
+    }
+
+    const { counts, entries, conflicts, renames } = importPlan;
+    // Figma can't change a variable's type, so the import would stop partway
+    const blocked = counts['type-change'] > 0;
+
+    return (
+        <div className="plan-container">
+            <div className="plan-summary">
+                {blocked && <span className="plan-count type-change">{counts['type-change']} type changed</span>}
+                <span className="plan-count create">{counts.create} create</span>
+                <span className="plan-count update">{counts.update} update</span>
+                <span className="plan-count alias">{counts.alias} alias</span>
+                <span className="plan-count">{counts.unchanged} unchanged</span>
+                <span className="plan-count orphan">{counts.orphan} orphaned</span>
+                {renames.length > 0 && <span className="plan-count rename">{renames.length} renamed</span>}
+                {conflicts.length > 0 && <span className="plan-count conflict">{conflicts.length} edited locally</span>}
+            </div>
+
+            {renames.length > 0 && (
+                <div className="plan-section">
+                    <div className="config-label">Rename in place ({renames.length})</div>
+                    <ul className="plan-list">
+                        {renames.map((rename) => (
+                            <li key={rename.id}>
+                                <label className={`checkbox-item ${skippedRenames[rename.id] ? '' : 'checked'}`}>
+                                    <span className="checkbox-indicator">{skippedRenames[rename.id] ? '' : '✓'}</span>
+                                    <input
+                                        type="checkbox"
+                                        checked={!skippedRenames[rename.id]}
+                                        onChange={() => toggleRename(rename.id)}
+                                        style={{ display: 'none' }}
+                                    />
+                                    <span className="plan-name">{rename.collection} / {rename.from} → {rename.to}</span>
+                                </label>
+                                <span className="plan-change">
+                                    {rename.detected ? 'Same value and source' : 'From the rename map'}
+                                    {skippedRenames[rename.id] ? '; a new variable is created instead' : ''}
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            {conflicts.length > 0 && (
+                <div className="plan-section">
+                    <div className="plan-prune">
+                        <span className="config-label">Edited locally ({conflicts.length})</span>
+                        <select
+                            className="config-input alias-target-select"
+                            value={conflictPolicy}
+                            onChange={(e) => setConflictPolicy(e.target.value as typeof conflictPolicy)}
+                        >
+                            <option value="keep">Keep local edits</option>
+                            <option value="overwrite">Overwrite</option>
+                            <option value="ask">Decide each</option>
+                        </select>
+                    </div>
+                    <ul className="plan-list">
+                        {conflicts.slice(0, MAX_LISTED).map((conflict) => (
+                            <li key={conflict.id}>
+                                <span className="plan-name">{conflict.collection} / {conflict.name}</span>
+                                {conflict.values.map((value) => (
+                                    <span key={value.mode} className="plan-change">
+                                        {value.mode ? value.mode + ': ' : ''}was {value.written}, local {value.local},
+                                        incoming {value.incoming}
+                                    </span>
+                                ))}
+                                {conflictPolicy === 'ask' && (
+                                    <select
+                                        className="config-input conflict-choice"
+                                        value={conflictChoices[conflict.id] || 'keep'}
+                                        onChange={(e) => setConflictChoice(conflict.id, e.target.value as 'keep' | 'overwrite')}
+                                    >
+                                        <option value="keep">Keep local</option>
+                                        <option value="overwrite">Use incoming</option>
+                                    </select>
+                                )}
+                            </li>
+                        ))}
+                        {conflicts.length > MAX_LISTED && (
+                            <li className="plan-more">and {conflicts.length - MAX_LISTED} more</li>
+                        )}
+                    </ul>
+                </div>
+            )}
+
+            <div className="plan-sections">
+                {ACTIONS.map(({ action, label }) => {
+                    const section = entries.filter((entry) => entry.action === action);
+                    if (section.length === 0) return null;
+                    return (
+                        <div key={action} className="plan-section">
+                            <div className="config-label">{label} ({section.length})</div>
+                            <ul className="plan-list">
+                                {section.slice(0, MAX_LISTED).map((entry) => (
+                                    <li key={entry.kind + entry.collection + entry.name}>
+                                        {pruneMode !== 'off' && entry.id ? (
+                                            <label className={`checkbox-item ${skippedPrunes[entry.id] ? '' : 'checked'}`}>
+                                                <span className="checkbox-indicator">{skippedPrunes[entry.id] ? '' : '✓'}</span>
+                                                <input
+                                                    type="checkbox"
+                                                    checked={!skippedPrunes[entry.id]}
+                                                    onChange={() => togglePrune(entry.id as string)}
+                                                    style={{ display: 'none' }}
+                                                />
+                                                <span className="plan-name">{entryLabel(entry)}</span>
+                                            </label>
+                                        ) : (
+                                            <span className="plan-name">{entryLabel(entry)}</span>
+                                        )}
+                                        {entry.changes.map((change) => (
+                                            <span key={change} className="plan-change">{change}</span>
+                                        ))}
+                                        {entry.usage && entry.usage.count > 0 && (
+                                            <span className="plan-usage">
+                                                Used by {entry.usage.count} {entry.usage.count === 1 ? 'layer' : 'layers'}:{' '}
+                                                {entry.usage.layers.join(', ')}
+                                                {entry.usage.count > entry.usage.layers.length ? ', …' : ''}
+                                            </span>
+                                        )}
+                                        {entry.usage && entry.usage.styles.length > 0 && (
+                                            <span className="plan-usage">
+                                                Bound in {entry.usage.styles.length === 1 ? 'style' : 'styles'}:{' '}
+                                                {entry.usage.styles.join(', ')}
+                                            </span>
+                                        )}
+                                    </li>
+                                ))}
+                                {section.length > MAX_LISTED && (
+                                    <li className="plan-more">and {section.length - MAX_LISTED} more</li>
+                                )}
+                            </ul>
+                        </div>
+                    );
+                })}
+            </div>
+
+            <div className="plan-section">
+                <div className="config-label">Rename map</div>
+                <textarea
+                    className="config-input source-textarea rename-map"
+                    value={renameMap}
+                    placeholder={'One per line, old -> new\ncolors/brand -> colors/primary'}
+                    spellCheck={false}
+                    onChange={(e) => setRenameMap(e.target.value)}
+                />
+                <button className="btn btn-secondary" onClick={onReplan}>
+                    Check again
+                </button>
+            </div>
+
+            {counts.orphan > 0 && (
+                <div className="plan-prune">
+                    <span className="config-label">Orphaned variables & styles</span>
+                    <select
+                        className="config-input alias-target-select"
+                        value={pruneMode}
+                        onChange={(e) => setPruneMode(e.target.value as typeof pruneMode)}
+                    >
+                        <option value="off">Keep</option>
+                        <option value="deprecate">Move to deprecated/</option>
+                        <option value="delete">Delete</option>
+                    </select>
+                </div>
+            )}
+            {counts.orphan > 0 && pruneMode === 'delete' && (
+                <div className="plan-note">
+                    Rolling back brings deleted variables and styles back under new IDs, so layers that used them stay
+                    detached. Move them to deprecated/ to keep the import fully reversible.
+                </div>
+            )}
+
+            <footer className="footer-cta plan-actions">
+                <button className="btn btn-secondary" onClick={onCancel}>
+                    Cancel
+                </button>
+                <button
+                    className="btn btn-primary"
+                    onClick={onConfirm}
+                    disabled={blocked}
+                    title={blocked ? 'Rename or delete the variables whose type changed, then check again' : undefined}
+                >
+                    Import
+                </button>
+            </footer>
+        </div>
+    );
+}
+
+function entryLabel(entry: PlanEntry): string {
+    if (entry.kind === 'text-style') return 'Text style ' + entry.name;
+    if (entry.kind === 'effect-style') return 'Effect style ' + entry.name;
+    return entry.collection + ' / ' + entry.name;
+}
@@ -2,15 +2,30 @@ import React from 'react';
 import { useStore } from '../store';
 
 export default function ImportProgress() {
-    const { importProgress, importPhase, importMessage, successMessage, error, reset } =
+    const { importProgress, importPhase, importMessage, successMessage, warnings, timings, error, operation, reset } =
         useStore();
+    const rollback = operation === 'rollback';
+    const totalMs = timings.reduce((sum, timing) => sum + timing.ms, 0);
 
     if (successMessage) {
         return (
             <div className="result-container">
                 <div className="result-icon success">✓</div>
-                <div className="result-title">Import Complete!</div>
+                <div className="result-title">{rollback ? 'Rollback Complete' : 'Import Complete!'}</div>
                 <div className="result-message">{successMessage}</div>
+                {warnings.length > 0 && (
+                    <ul className="result-warnings">
+                        {warnings.map((warning) => (
+                            <li key={warning}>{warning}</li>
+                        ))}
+                    </ul>
+                )}
+                {timings.length > 0 && (
+                    <div className="result-timings">
+                        Took {seconds(totalMs)}:{' '}
+                        {timings.map((timing) => timing.phase + ' ' + seconds(timing.ms)).join(' · ')}
+                    </div>
+                )}
                 <button className="btn btn-primary" onClick={reset} style={{ marginTop: 8 }}>
                     Back
                 </button>
@@ -22,7 +37,7 @@ export default function ImportProgress() {
         return (
             <div className="result-container">
                 <div className="result-icon error">✕</div>
-                <div className="result-title">Import Failed</div>
+                <div className="result-title">{rollback ? 'Rollback Failed' : 'Import Failed'}</div>
                 <div className="result-message">{error}</div>
                 <button className="btn btn-secondary" onClick={reset} style={{ marginTop: 8 }}>
                     Try Again
@@ -45,3 +60,7 @@ export default function ImportProgress() {
         </div>
     );
 }
+
+function seconds(ms: number): string {
+    return (ms / 1000).toFixed(1) + 's';
+}
@@ -4,7 +4,7 @@ interface Props {
     id: string;
     name: string;
     description: string;
-    iconSrc: string;
+    iconSrc?: string;
     selected: boolean;
     locked?: boolean;
     onToggle: () => void;
@@ -27,7 +27,11 @@ export default function LibraryCard({ name, description, iconSrc, selected, lock
                 )}
             </div>
 
-            <img src={iconSrc} alt={name} className="library-icon-img" />
+            {iconSrc ? (
+                <img src={iconSrc} alt={name} className="library-icon-img" />
+            ) : (
+                <div className="library-icon-fallback">{name.charAt(0)}</div>
+            )}
 
             <div className="library-info">
                 <div className="library-name">{name}</div>
@@ -0,0 +1,45 @@
+import React from 'react';
+import type { ModeSettings } from '../../shared/messaging';
+
+interface Props {
+    /** Mode names detected in the source, in import order */
+    modes: string[];
+    settings: ModeSettings;
+    onChange: (mode: string, setting: { name: string; excluded: boolean }) => void;
+}
+
+export default function ModeEditor({ modes, settings, onChange }: Props) {
+    if (modes.length === 0) return null;
+
+    return (
+        <div className="mode-editor">
+            <span className="config-label">Modes</span>
+            {modes.map((mode) => {
+                const setting = settings[mode] || { name: mode, excluded: false };
+                return (
+                    <div key={mode} className={`mode-row ${setting.excluded ? 'excluded' : ''}`}>
+                        <label
+                            className={`checkbox-item ${setting.excluded ? '' : 'checked'}`}
+                            title={setting.excluded ? 'Include this mode' : 'Exclude this mode'}
+                        >
+                            <span className="checkbox-indicator">{setting.excluded ? '' : '✓'}</span>
+                            <input
+                                type="checkbox"
+                                checked={!setting.excluded}
+                                onChange={() => onChange(mode, { ...setting, excluded: !setting.excluded })}
+                                style={{ display: 'none' }}
+                            />
+                        </label>
+                        <input
+                            className="config-input mode-name"
+                            value={setting.name}
+                            placeholder={mode}
+                            disabled={setting.excluded}
+                            onChange={(e) => onChange(mode, { ...setting, name: e.target.value })}
+                        />
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
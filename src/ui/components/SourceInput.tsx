@@ -0,0 +1,59 @@
+import React, { useRef, useState } from 'react';
+
+interface Props {
+    label: string;
+    format: 'json' | 'css' | 'scss';
+    placeholder: string;
+    value: string;
+    onChange: (value: string) => void;
+}
+
+const ACCEPT: Record<Props['format'], string> = {
+    json: '.json,application/json',
+    css: '.css,text/css',
+    scss: '.scss,.sass',
+};
+
+export default function SourceInput({ label, format, placeholder, value, onChange }: Props) {
+    const fileInput = useRef<HTMLInputElement>(null);
+    const [dragging, setDragging] = useState(false);
+
+    const handleFile = (file: File | undefined) => {
+        if (!file) return;
+        file.text().then(onChange);
+    };
+
+    const handleDrop = (e: React.DragEvent) => {
+        e.preventDefault();
+        setDragging(false);
+        handleFile(e.dataTransfer.files[0]);
+    };
+
+    return (
+        <div className="source-input">
+            <div className="source-input-header">
+                <span className="config-label">{label}</span>
+                <button className="source-upload" onClick={() => fileInput.current?.click()}>
+                    Upload file
+                </button>
+            </div>
+            <textarea
+                className={`config-input source-textarea ${dragging ? 'dragging' : ''}`}
+                value={value}
+                placeholder={placeholder}
+                spellCheck={false}
+                onChange={(e) => onChange(e.target.value)}
+                onDragOver={(e) => { e.preventDefault(); setDragging(true); }}
+                onDragLeave={() => setDragging(false)}
+                onDrop={handleDrop}
+            />
+            <input
+                ref={fileInput}
+                type="file"
+                accept={ACCEPT[format]}
+                onChange={(e) => handleFile(e.target.files?.[0])}
+                style={{ display: 'none' }}
+            />
+        </div>
+    );
+}
@@ -0,0 +1,118 @@
+import React, { useEffect, useState } from 'react';
+import type { VersionStatus } from '../../core/sourceVersions';
+import type { UIMessage } from '../../shared/messaging';
+
+interface Props {
+    adapterId: string;
+    /** Result of the update check; undefined until it arrives */
+    status: VersionStatus | undefined;
+    /** Selected tag or commit; empty follows main */
+    value: string;
+    onChange: (ref: string) => void;
+}
+
+/** Select value that reveals the commit / tag field. */
+const CUSTOM = '__custom__';
+
+/** Changed tokens listed before the rest are summarised. */
+const MAX_LISTED = 50;
+
+export default function VersionPicker({ adapterId, status, value, onChange }: Props) {
+    const [custom, setCustom] = useState(false);
+    const [expanded, setExpanded] = useState(false);
+
+    // Ask the main thread for the pinned version and newer releases
+    useEffect(() => {
+        const msg: UIMessage = { type: 'CHECK_VERSION', adapterId };
+        parent.postMessage({ pluginMessage: msg }, '*');
+    }, [adapterId]);
+
+    const releases = status ? status.releases : [];
+    const update = status && status.update;
+    const listed = value && !releases.includes(value);
+
+    return (
+        <div className="version-picker">
+            <div className="alias-target">
+                <span className="config-label">Version</span>
+                <select
+                    className="config-input alias-target-select"
+                    value={custom ? CUSTOM : value}
+                    onChange={(e) => {
+                        setCustom(e.target.value === CUSTOM);
+                        if (e.target.value !== CUSTOM) onChange(e.target.value);
+                    }}
+                >
+                    <option value="">main (unpinned)</option>
+                    {listed && <option value={value}>{value}</option>}
+                    {releases.map((tag) => (
+                        <option key={tag} value={tag}>
+                            {tag}
+                        </option>
+                    ))}
+                    <option value={CUSTOM}>Commit or tag…</option>
+                </select>
+            </div>
+
+            {custom && (
+                <input
+                    className="config-input version-ref-input"
+                    placeholder="Commit SHA or tag, e.g. v4.1.11"
+                    value={value}
+                    onChange={(e) => onChange(e.target.value.trim())}
+                    spellCheck={false}
+                />
+            )}
+
+            {status && status.error && (
+                <div className="version-note">Couldn't check for updates: {status.error}</div>
+            )}
+
+            {update && value === status.pinned && (
+                <div className="version-update">
+                    <div>
+                        <strong>{update.latest}</strong> is available (this file is pinned to {status.pinned}):{' '}
+                        {update.diff.added.length} added, {update.diff.changed.length} changed,{' '}
+                        {update.diff.removed.length} removed.
+                    </div>
+                    <div className="version-actions">
+                        <button className="btn btn-secondary" onClick={() => setExpanded(!expanded)}>
+                            {expanded ? 'Hide changes' : 'Show changes'}
+                        </button>
+                        <button className="btn btn-primary" onClick={() => onChange(update.latest)}>
+                            Use {update.latest}
+                        </button>
+                    </div>
+                    {expanded && (
+                        <ul className="plan-list">
+                            {update.diff.changed.slice(0, MAX_LISTED).map((change) => (
+                                <li key={change.name}>
+                                    <span className="plan-name">{change.name}</span>
+                                    <span className="plan-change">{change.before} → {change.after}</span>
+                                </li>
+                            ))}
+                            {update.diff.added.slice(0, MAX_LISTED).map((name) => (
+                                <li key={name}>
+                                    <span className="plan-name">{name}</span>
+                                    <span className="plan-change">added</span>
+                                </li>
+                            ))}
+                            {update.diff.removed.slice(0, MAX_LISTED).map((name) => (
+                                <li key={name}>
+                                    <span className="plan-name">{name}</span>
+                                    <span className="plan-change">removed</span>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            )}
+
+            {status && value !== status.pinned && (
+                <div className="version-note">
+                    Start Import to review what {value || 'main'} changes in this file; the version is pinned once imported.
+                </div>
+            )}
+        </div>
+    );
+}
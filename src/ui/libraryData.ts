@@ -2,6 +2,21 @@ import tailwindIcon from './img/tailwindcss.png';
 import shadcnIcon from './img/shadcn.png';
 import baseUiIcon from './img/baseui.png';
 import cossIcon from './img/coss.png';
+import { parseThemeModes } from '../core/parser';
+import { materialSchemeModes } from '../core/materialThemeParser';
+import { parseDaisyuiThemes } from '../core/daisyuiThemes';
+import daisyuiThemes from '../data/daisyui-themes.json';
+import type { ModeSettings } from '../shared/messaging';
+
+/** Theme names in a Tokens Studio export, or none if it doesn't parse. */
+function tokensStudioModes(source: string): string[] {
+    try {
+        const data = JSON.parse(source);
+        return Array.isArray(data.$themes) ? data.$themes.map((theme: { name: string }) => theme.name) : [];
+    } catch (error) {
+        return [];
+    }
+}
 
 export const LIBRARIES = [
     {
@@ -16,6 +31,13 @@ export const LIBRARIES = [
             'opacity', 'breakpoints', 'containers', 'fontWeights', 'tracking', 'leading',
         ] as const,
         defaultCollectionName: 'TailwindCSS',
+        aliasTarget: true,
+        source: {
+            format: 'css' as const,
+            label: 'Project CSS with @theme overrides (optional)',
+            placeholder: '@theme {\n  --color-*: initial;\n  --color-brand-500: oklch(0.62 0.19 259);\n  --spacing: 0.2rem;\n}',
+            required: false,
+        },
     },
     {
         id: 'shadcn',
@@ -47,4 +69,141 @@ export const LIBRARIES = [
         categories: ['colors', 'radius'] as const,
         defaultCollectionName: 'Coss',
     },
+    {
+        id: 'dtcg',
+        name: 'Design Tokens (DTCG)',
+        description: 'Your own W3C Design Tokens JSON, references become aliases.',
+        type: 'primitives' as const,
+        dependencies: [] as string[],
+        categories: ['colors', 'spacing', 'radius', 'shadows', 'typography', 'easing'] as const,
+        defaultCollectionName: 'Design Tokens',
+        source: {
+            format: 'json' as const,
+            label: 'DTCG token file',
+            placeholder: '{ "color": { "brand": { "$type": "color", "$value": "#0d99ff" } } }',
+            required: true,
+        },
+    },
+    {
+        id: 'tokens-studio',
+        name: 'Tokens Studio',
+        description: 'Your Tokens Studio export, token sets and themes as modes.',
+        type: 'theme' as const,
+        dependencies: [] as string[],
+        categories: ['colors', 'spacing', 'radius', 'shadows', 'typography', 'opacity'] as const,
+        defaultCollectionName: 'Tokens Studio',
+        source: {
+            format: 'json' as const,
+            label: 'Tokens Studio export (single file)',
+            placeholder: '{ "core": { ... }, "$themes": [ ... ], "$metadata": { "tokenSetOrder": [ ... ] } }',
+            required: true,
+        },
+        detectModes: tokensStudioModes,
+    },
+    {
+        id: 'custom-css',
+        name: 'Custom CSS',
+        description: 'Your own globals.css, every :root, .dark, [data-theme] and .theme-* block as a mode.',
+        type: 'theme' as const,
+        dependencies: ['tailwindcss'],
+        categories: ['colors'] as const,
+        defaultCollectionName: 'Theme',
+        source: {
+            format: 'css' as const,
+            label: 'globals.css',
+            placeholder: ':root {\n  --background: oklch(1 0 0);\n}\n\n.dark {\n  --background: oklch(0.145 0 0);\n}\n\n[data-theme="ocean"] { ... }',
+            required: true,
+        },
+        detectModes: (source: string) => parseThemeModes(source).map(mode => mode.name),
+    },
+    {
+        id: 'tailwind-v3',
+        name: 'Tailwind CSS v3 Config',
+        description: 'Your tailwind.config.js theme as JSON, colors, spacing, radius, shadows, type scale.',
+        iconSrc: tailwindIcon,
+        type: 'primitives' as const,
+        dependencies: [] as string[],
+        categories: ['colors', 'spacing', 'radius', 'shadows', 'typography', 'breakpoints', 'tracking', 'leading'] as const,
+        defaultCollectionName: 'Tailwind v3',
+        source: {
+            format: 'json' as const,
+            label: 'Tailwind v3 theme (JSON)',
+            placeholder: '{ "theme": { "colors": { "brand": { "500": "#0d99ff" } }, "extend": { "spacing": { "18": "4.5rem" } } } }',
+            required: true,
+        },
+    },
+    {
+        id: 'bootstrap',
+        name: 'Bootstrap 5',
+        description: 'Sass palette, theme colors, spacers, radii, font sizes and shadows.',
+        type: 'primitives' as const,
+        dependencies: [] as string[],
+        categories: ['colors', 'spacing', 'radius', 'shadows', 'typography', 'breakpoints'] as const,
+        defaultCollectionName: 'Bootstrap',
+        source: {
+            format: 'scss' as const,
+            label: 'Your SCSS variable overrides (optional)',
+            placeholder: '$primary: #7c3aed;\n$spacer: 1.25rem;\n$theme-colors: map-merge($theme-colors, ("brand": $primary));',
+            required: false,
+        },
+    },    {
+        id: 'radix-colors',
+        name: 'Radix Colors',
+        description: '12-step scales and alpha scales, Light/Dark modes. Themes can alias to it.',
+        type: 'primitives' as const,
+        dependencies: [] as string[],
+        categories: ['colors'] as const,
+        defaultCollectionName: 'Radix',
+        aliasTarget: true,
+    },    {
+        id: 'material-3',
+        name: 'Material 3',
+        description: 'Your Material Theme Builder export, tonal palettes and schemes as modes.',
+        type: 'theme' as const,
+        dependencies: [] as string[],
+        categories: ['colors'] as const,
+        defaultCollectionName: 'Material Theme',
+        source: {
+            format: 'json' as const,
+            label: 'Material Theme Builder export (material-theme.json)',
+            placeholder: '{ "schemes": { "light": { "primary": "#65558F", ... }, "dark": { ... } }, "palettes": { "primary": { "40": "#65558F", ... } } }',
+            required: true,
+        },
+        detectModes: materialSchemeModes,
+    },    {
+        id: 'daisyui',
+        name: 'DaisyUI',
+        description: 'Built-in DaisyUI themes as modes, semantic colors, radius and border sizes.',
+        type: 'theme' as const,
+        dependencies: ['tailwindcss'],
+        categories: ['colors', 'radius', 'borderWidth'] as const,
+        defaultCollectionName: 'DaisyUI',
+        detectModes: (_source: string) => parseDaisyuiThemes(daisyuiThemes).map(mode => mode.name),
+        // Dozens of themes; start with these and let the user add more
+        defaultModes: ['Light', 'Dark'],
+    },
+    {
+        id: 'open-props',
+        name: 'Open Props',
+        description: 'Gray and hue scales, sizes, radii, shadows, easings and font sizes.',
+        type: 'primitives' as const,
+        dependencies: [] as string[],
+        categories: ['colors', 'spacing', 'radius', 'shadows', 'typography', 'easing'] as const,
+        defaultCollectionName: 'Open Props',
+    },
 ];
+
+/**
+ * Mode settings for a library with its defaults applied: detected modes
+ * outside `defaultModes` start excluded until the user includes them.
+ */
+export function modeSettingsFor(libraryId: string, source: string, settings: ModeSettings = {}): ModeSettings {
+    const lib = LIBRARIES.find(l => l.id === libraryId);
+    if (!lib || !lib.detectModes || !lib.defaultModes) return settings;
+
+    const result: ModeSettings = {};
+    for (const mode of lib.detectModes(source)) {
+        result[mode] = settings[mode] || { name: mode, excluded: !lib.defaultModes.includes(mode) };
+    }
+    return result;
+}
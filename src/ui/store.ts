@@ -2,8 +2,16 @@
 
 import { create } from 'zustand';
 import type { TokenCategory } from '../adapters/types';
+import type { ExportFormat, ModeSettings } from '../shared/messaging';
+import type { CollectionSummary } from '../core/variableReader';
+import type { ImportPlan } from '../core/importPlan';
+import type { PruneMode } from '../core/prune';
+import type { ConflictPolicy } from '../core/conflicts';
+import type { VersionStatus } from '../core/sourceVersions';
+import type { SnapshotSummary } from '../core/snapshot';
+import type { PhaseTiming } from '../core/figmaSync';
 
-export type AppView = 'dashboard' | 'config' | 'importing';
+export type AppView = 'dashboard' | 'config' | 'plan' | 'importing' | 'export';
 
 interface AdapterInfo {
     id: string;
@@ -33,17 +41,84 @@ interface StoreState {
     collectionName: string;
     setCollectionName: (name: string) => void;
 
+    // User-supplied sources (keyed by library ID)
+    sources: Record<string, string>;
+    setSource: (id: string, source: string) => void;
+
+    // Source version per versioned library ('' follows main) and its update check
+    sourceRefs: Record<string, string>;
+    setSourceRef: (id: string, ref: string) => void;
+    versions: Record<string, VersionStatus>;
+    /** Also selects the document's pinned version until the user picks one */
+    setVersionStatus: (status: VersionStatus) => void;
+
+    // Mode renames/exclusions (keyed by library ID, then detected mode name)
+    modeSettings: Record<string, ModeSettings>;
+    setModeSetting: (id: string, mode: string, setting: { name: string; excluded: boolean }) => void;
+
+    // Alias target library per theme library (absent means Tailwind CSS)
+    aliasTargets: Record<string, string>;
+    setAliasTarget: (id: string, targetId: string) => void;
+
+    // Dry-run plan shown before importing (null while it is worked out)
+    importPlan: ImportPlan | null;
+    setImportPlan: (plan: ImportPlan | null) => void;
+    /** What to do with orphaned variables and styles; off unless opted in */
+    pruneMode: PruneMode | 'off';
+    setPruneMode: (mode: PruneMode | 'off') => void;
+    /** Orphans to leave alone when pruning, by variable or style ID */
+    skippedPrunes: Record<string, boolean>;
+    togglePrune: (id: string) => void;
+    /** What to do with variables edited by hand since the last import */
+    conflictPolicy: ConflictPolicy;
+    setConflictPolicy: (policy: ConflictPolicy) => void;
+    /** Per-conflict choice when the policy is `ask`, by variable ID; absent keeps the local edit */
+    conflictChoices: Record<string, 'keep' | 'overwrite'>;
+    setConflictChoice: (id: string, choice: 'keep' | 'overwrite') => void;
+    /** Rename map as typed, one `old -> new` per line */
+    renameMap: string;
+    setRenameMap: (text: string) => void;
+    /** Renames from the plan to skip, by variable ID */
+    skippedRenames: Record<string, boolean>;
+    toggleRename: (id: string) => void;
+
+    // Snapshot of the last import, if it can be rolled back
+    snapshot: SnapshotSummary | null;
+    setSnapshot: (snapshot: SnapshotSummary | null) => void;
+    /** What the progress view is showing */
+    operation: 'import' | 'rollback';
+    setOperation: (operation: 'import' | 'rollback') => void;
+
     // Import progress
     importProgress: number;
     importPhase: string;
     importMessage: string;
     setImportProgress: (progress: number, phase: string, message: string) => void;
 
+    // Export
+    collections: CollectionSummary[];
+    setCollections: (collections: CollectionSummary[]) => void;
+    exportCollectionName: string;
+    setExportCollectionName: (name: string) => void;
+    exportFormat: ExportFormat;
+    setExportFormat: (format: ExportFormat) => void;
+    exportThemeInline: boolean;
+    setExportThemeInline: (themeInline: boolean) => void;
+    exportIncludeStyles: boolean;
+    setExportIncludeStyles: (includeStyles: boolean) => void;
+    exportOutput: { output: string; filename: string } | null;
+    setExportOutput: (output: { output: string; filename: string } | null) => void;
+
     // Errors & status
     error: string | null;
     setError: (error: string | null) => void;
     successMessage: string | null;
     setSuccessMessage: (msg: string | null) => void;
+    warnings: string[];
+    setWarnings: (warnings: string[]) => void;
+    /** How long each phase of the last import took */
+    timings: PhaseTiming[];
+    setTimings: (timings: PhaseTiming[]) => void;
 
     // Search
     searchQuery: string;
@@ -99,18 +174,88 @@ export const useStore = create<StoreState>((set) => ({
     collectionName: '',
     setCollectionName: (name) => set({ collectionName: name }),
 
+    sources: {},
+    setSource: (id, source) =>
+        set((state) => ({ sources: { ...state.sources, [id]: source } })),
+
+    sourceRefs: {},
+    setSourceRef: (id, ref) =>
+        set((state) => ({ sourceRefs: { ...state.sourceRefs, [id]: ref } })),
+    versions: {},
+    setVersionStatus: (status) =>
+        set((state) => ({
+            versions: { ...state.versions, [status.adapterId]: status },
+            sourceRefs: status.adapterId in state.sourceRefs
+                ? state.sourceRefs
+                : { ...state.sourceRefs, [status.adapterId]: status.pinned },
+        })),
+
+    modeSettings: {},
+    setModeSetting: (id, mode, setting) =>
+        set((state) => ({
+            modeSettings: {
+                ...state.modeSettings,
+                [id]: { ...state.modeSettings[id], [mode]: setting },
+            },
+        })),
+
+    aliasTargets: {},
+    setAliasTarget: (id, targetId) =>
+        set((state) => ({ aliasTargets: { ...state.aliasTargets, [id]: targetId } })),
+
+    importPlan: null,
+    setImportPlan: (plan) => set({ importPlan: plan }),
+    pruneMode: 'off',
+    setPruneMode: (mode) => set({ pruneMode: mode }),
+    skippedPrunes: {},
+    togglePrune: (id) =>
+        set((state) => ({ skippedPrunes: { ...state.skippedPrunes, [id]: !state.skippedPrunes[id] } })),
+    conflictPolicy: 'keep',
+    setConflictPolicy: (policy) => set({ conflictPolicy: policy }),
+    conflictChoices: {},
+    setConflictChoice: (id, choice) =>
+        set((state) => ({ conflictChoices: { ...state.conflictChoices, [id]: choice } })),
+    renameMap: '',
+    setRenameMap: (text) => set({ renameMap: text }),
+    skippedRenames: {},
+    toggleRename: (id) =>
+        set((state) => ({ skippedRenames: { ...state.skippedRenames, [id]: !state.skippedRenames[id] } })),
+
+    snapshot: null,
+    setSnapshot: (snapshot) => set({ snapshot }),
+    operation: 'import',
+    setOperation: (operation) => set({ operation }),
+
     importProgress: 0,
     importPhase: '',
     importMessage: '',
     setImportProgress: (progress, phase, message) =>
         set({ importProgress: progress, importPhase: phase, importMessage: message }),
 
+    collections: [],
+    setCollections: (collections) => set({ collections }),
+    exportCollectionName: '',
+    setExportCollectionName: (name) => set({ exportCollectionName: name, exportOutput: null }),
+    exportFormat: 'tailwind',
+    setExportFormat: (format) => set({ exportFormat: format, exportOutput: null }),
+    exportThemeInline: true,
+    setExportThemeInline: (themeInline) => set({ exportThemeInline: themeInline, exportOutput: null }),
+    exportIncludeStyles: true,
+    setExportIncludeStyles: (includeStyles) => set({ exportIncludeStyles: includeStyles, exportOutput: null }),
+    exportOutput: null,
+    setExportOutput: (output) => set({ exportOutput: output }),
+
     error: null,
     setError: (error) => set({ error }),
 
     successMessage: null,
     setSuccessMessage: (msg) => set({ successMessage: msg }),
 
+    warnings: [],
+    setWarnings: (warnings) => set({ warnings }),
+    timings: [],
+    setTimings: (timings) => set({ timings }),
+
     searchQuery: '',
     setSearchQuery: (query) => set({ searchQuery: query }),
 
@@ -124,11 +269,27 @@ export const useStore = create<StoreState>((set) => ({
                 'opacity', 'breakpoints', 'containers', 'fontWeights', 'tracking', 'leading', 'maxWidth', 'borderWidth', 'skew',
             ],
             collectionName: '',
+            sources: {},
+            // Re-read from the document, which an import may have re-pinned
+            sourceRefs: {},
+            modeSettings: {},
+            aliasTargets: {},
+            importPlan: null,
+            pruneMode: 'off',
+            skippedPrunes: {},
+            conflictPolicy: 'keep',
+            conflictChoices: {},
+            renameMap: '',
+            skippedRenames: {},
+            operation: 'import',
             importProgress: 0,
             importPhase: '',
             importMessage: '',
+            exportOutput: null,
             error: null,
             successMessage: null,
+            warnings: [],
+            timings: [],
             searchQuery: '',
         }),
 }));